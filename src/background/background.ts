@@ -2,6 +2,10 @@
 
 import { logger } from "../utils/logger";
 import { getProvider } from "./providers/factory";
+import { db } from "../storage/indexeddb";
+import { SearchIndex } from "../storage/searchIndex";
+import { MessageArchive } from "../storage/messageArchive";
+import { CUSTOM_PLATFORMS_KEY, CustomPlatforms } from "../platforms/custom";
 import type { LLMProvider } from "../content/modules/context/llm/LLMServiceFactory";
 
 
@@ -16,8 +20,63 @@ chrome.runtime.onInstalled.addListener((details) => {
   } else if (details.reason === "update") {
     logger.info("Extension updated");
   }
+
+  syncCustomPlatformScripts();
 });
 
+const CUSTOM_SCRIPT_PREFIX = "arbor-custom-";
+let customScriptSync: Promise<void> = Promise.resolve();
+
+/**
+ * Register content.js for every custom platform whose host permission has
+ * been granted, replacing whatever was registered before
+ * Runs one at a time, since registering an ID twice throws
+ */
+function syncCustomPlatformScripts() {
+  customScriptSync = customScriptSync.then(registerCustomPlatformScripts);
+}
+
+async function registerCustomPlatformScripts() {
+  try {
+    const registered = await chrome.scripting.getRegisteredContentScripts();
+    const stale = registered
+      .map((script) => script.id)
+      .filter((id) => id.startsWith(CUSTOM_SCRIPT_PREFIX));
+    if (stale.length > 0) {
+      await chrome.scripting.unregisterContentScripts({ ids: stale });
+    }
+
+    const scripts: chrome.scripting.RegisteredContentScript[] = [];
+    for (const profile of await CustomPlatforms.list()) {
+      const origins = [CustomPlatforms.getOriginPattern(profile)];
+      if (!(await chrome.permissions.contains({ origins }))) {
+        continue; // Not granted yet, or revoked from the extensions page
+      }
+      scripts.push({
+        id: `${CUSTOM_SCRIPT_PREFIX}${profile.id}`,
+        matches: origins,
+        js: ["content.js"],
+        runAt: "document_idle",
+        persistAcrossSessions: true,
+      });
+    }
+    if (scripts.length > 0) {
+      await chrome.scripting.registerContentScripts(scripts);
+    }
+    logger.info(`Registered content script for ${scripts.length} custom platform(s)`);
+  } catch (error) {
+    logger.error("Failed to register custom platform scripts:", error);
+  }
+}
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && changes[CUSTOM_PLATFORMS_KEY]) {
+    syncCustomPlatformScripts();
+  }
+});
+chrome.permissions.onAdded.addListener(() => syncCustomPlatformScripts());
+chrome.permissions.onRemoved.addListener(() => syncCustomPlatformScripts());
+
 // Listen for messages from content scripts
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
 
@@ -79,6 +138,42 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return true; // Keep message channel open for async response
   }
 
+  // Embed texts for related chat suggestions (multi-provider)
+  if (request.action === "embed-texts") {
+    const provider = request.payload?.provider as LLMProvider;
+    const texts = request.payload?.texts;
+    const providerInstance = getProvider(provider);
+
+    if (!providerInstance || !providerInstance.supportsEmbeddings()) {
+      sendResponse({
+        success: false,
+        error: "Provider has no embeddings endpoint",
+      });
+      return true;
+    }
+
+    if (!Array.isArray(texts)) {
+      sendResponse({ success: false, error: "No texts provided" });
+      return true;
+    }
+
+    providerInstance
+      .embed(texts)
+      .then((result) => {
+        sendResponse({ success: true, ...result });
+      })
+      .catch((error) => {
+        logger.error(`${provider} embeddings error:`, error);
+        sendResponse({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      })
+      .catch(() => {}); // Fallback
+
+    return true; // Keep message channel open for async response
+  }
+
   // Handle API key validation (multi-provider)
   if (request.action === "validate-api-key") {
     const provider = request.payload?.provider as LLMProvider;
@@ -141,6 +236,72 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return true;
   }
 
+  // Open a chat URL, focusing an existing tab if one already shows it
+  // (used for nodes that live on a different platform than the current tab)
+  if (request.action === "open-chat-tab") {
+    const url = request.payload?.url;
+    if (!url) {
+      sendResponse({ success: false, error: "No URL provided" });
+      return true;
+    }
+
+    (async () => {
+      try {
+        const tabs = await chrome.tabs.query({});
+        const existing = tabs.find((tab) => tab.url === url);
+        if (existing?.id !== undefined) {
+          await chrome.tabs.update(existing.id, { active: true });
+          if (existing.windowId !== undefined) {
+            await chrome.windows.update(existing.windowId, { focused: true });
+          }
+        } else {
+          await chrome.tabs.create({ url });
+        }
+        sendResponse({ success: true });
+      } catch (error: unknown) {
+        logger.error("Failed to open chat tab:", error);
+        sendResponse({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    })();
+    return true;
+  }
+
+  // Hand a branch off to another platform: store the context and parent IDs
+  // in session storage first, then open the target site's new-chat page in a
+  // new tab so the originating conversation stays open
+  if (request.action === "open-branch-target") {
+    const { context, parentNodeId, parentTreeId, targetPlatform, newChatUrl } =
+      request.payload || {};
+    if (!context || !targetPlatform || !newChatUrl) {
+      sendResponse({ success: false, error: "Incomplete branch handoff" });
+      return true;
+    }
+
+    (async () => {
+      try {
+        await chrome.storage.session.set({
+          arbor_branch_context: context,
+          arbor_branch_parent_node_id: parentNodeId || null,
+          arbor_branch_parent_tree_id: parentTreeId || null,
+          arbor_branch_target_platform: targetPlatform,
+          arbor_branch_timestamp: Date.now().toString(),
+        });
+        await chrome.tabs.create({ url: newChatUrl });
+        sendResponse({ success: true });
+      } catch (error: unknown) {
+        logger.error("Failed to hand off branch:", error);
+        sendResponse({
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    })();
+    return true;
+  }
+
   // Handle session storage get (for content scripts)
   if (request.action === "storage-session-get") {
     const keys = request.payload?.keys || [];
@@ -292,6 +453,131 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return true;
   }
 
+  // Record tree versions and search entries in the extension's IndexedDB for
+  // content scripts, whose own IndexedDB belongs to the chat site
+  if (request.action === "record-tree-save") {
+    const { tree, deleted } = request.payload;
+
+    db.recordTreeSave(tree, deleted)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        logger.error("Failed to record tree save:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  // Message text search, kept in the extension's IndexedDB like the above
+  if (request.action === "search-index-messages") {
+    const { node, treeId, messages } = request.payload;
+
+    SearchIndex.indexMessages(node, treeId, messages)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        logger.error("Failed to index messages:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  if (request.action === "search-message-texts") {
+    SearchIndex.getMatchingMessageTexts(request.payload.terms)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        logger.error("Failed to search message text:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  // Message archive, kept in the extension's IndexedDB like the above
+  if (request.action === "message-archive-capture") {
+    const { node, treeId, messages } = request.payload;
+
+    MessageArchive.capture(node, treeId, messages)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        logger.error("Failed to archive messages:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  if (request.action === "message-archive-get-transcript") {
+    MessageArchive.getTranscript(request.payload.nodeId)
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        logger.error("Failed to load archived transcript:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  // Related chat embeddings, kept in the extension's IndexedDB like the above
+  // so chat sites share them instead of each paying to embed every chat
+  if (request.action === "node-embeddings-get") {
+    db.getAllNodeEmbeddings()
+      .then((data) => sendResponse({ success: true, data }))
+      .catch((error) => {
+        logger.error("Failed to load node embeddings:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  if (request.action === "node-embeddings-save") {
+    db.saveNodeEmbeddings(request.payload.entries)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        logger.error("Failed to save node embeddings:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  if (request.action === "node-embeddings-delete") {
+    db.deleteNodeEmbeddings(request.payload.nodeIds)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        logger.error("Failed to delete node embeddings:", error);
+        sendResponse({ success: false, error: error.message });
+      });
+
+    return true;
+  }
+
+  // Relay undo/redo to the sidebar in every other tab
+  if (request.action === "tree-history-applied") {
+    chrome.tabs.query({}, (tabs) => {
+      tabs.forEach((tab) => {
+        if (tab.id && tab.id !== sender.tab?.id) {
+          chrome.tabs.sendMessage(
+            tab.id,
+            {
+              action: "tree-history-applied",
+              payload: request.payload
+            },
+            () => {
+              if (chrome.runtime.lastError) {
+                // Silent fail
+              }
+            }
+          );
+        }
+      });
+    });
+
+    sendResponse({ success: true });
+    return true;
+  }
+
   // Unknown action - still respond to prevent "message port closed" error
   sendResponse({ success: false, error: "Unknown action" });
   return false;
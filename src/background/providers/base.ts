@@ -20,6 +20,11 @@ export interface ApiResponse {
   text: string;
 }
 
+export interface EmbeddingResponse {
+  vectors: number[][]; // One per input text, in the same order
+  model: string;
+}
+
 export interface ValidationResult {
   success: boolean;
   valid: boolean;
@@ -93,6 +98,65 @@ export abstract class BaseProvider {
    * Make API call with retry logic and error handling
    */
   async makeApiCall(payload: ApiCallPayload): Promise<ApiResponse> {
+    const apiKey = await this.prepareCall();
+
+    // Use retry logic for API call
+    return retryWithBackoff(
+      async () => {
+        return this.executeApiCall(apiKey, payload);
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        maxDelay: 30000,
+        onRetry: (attempt, error) => {
+          // Silent retry
+        },
+      }
+    );
+  }
+
+  /**
+   * Whether the provider has an embeddings endpoint
+   */
+  supportsEmbeddings(): boolean {
+    return !!this.config.embeddingModel;
+  }
+
+  /**
+   * Embed texts for similarity search, with the same key check, rate limit
+   * and retries as makeApiCall
+   */
+  async embed(texts: string[]): Promise<EmbeddingResponse> {
+    const model = this.config.embeddingModel;
+    if (!model) {
+      throw new Error(`${this.config.metadata.name} doesn't offer embeddings`);
+    }
+    if (texts.length === 0) {
+      return { vectors: [], model };
+    }
+
+    const apiKey = await this.prepareCall();
+
+    const vectors = await retryWithBackoff(
+      async () => this.executeEmbedding(apiKey, texts, model),
+      {
+        maxRetries: 3,
+        initialDelay: 1000,
+        maxDelay: 30000,
+      }
+    );
+    if (vectors.length !== texts.length) {
+      throw new Error(`${this.config.metadata.name} returned the wrong number of embeddings`);
+    }
+
+    return { vectors, model };
+  }
+
+  /**
+   * Get the API key and take a slot from the rate limiter
+   */
+  private async prepareCall(): Promise<string> {
     // BaseProvider is never instantiated with "none", so this is safe
     if (this.provider === "none") {
       throw new Error("Cannot make API call with 'none' provider");
@@ -120,20 +184,19 @@ export abstract class BaseProvider {
       );
     }
 
-    // Use retry logic for API call
-    return retryWithBackoff(
-      async () => {
-        return this.executeApiCall(apiKey, payload);
-      },
-      {
-        maxRetries: 3,
-        initialDelay: 1000,
-        maxDelay: 30000,
-        onRetry: (attempt, error) => {
-          // Silent retry
-        },
-      }
-    );
+    return apiKey;
+  }
+
+  /**
+   * Provider-specific embeddings call; only providers with an
+   * embeddingModel in their config override it
+   */
+  protected async executeEmbedding(
+    apiKey: string,
+    texts: string[],
+    model: string
+  ): Promise<number[][]> {
+    throw new Error(`${this.config.metadata.name} doesn't offer embeddings`);
   }
 
   /**
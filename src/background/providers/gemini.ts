@@ -67,6 +67,50 @@ export class GeminiProvider extends BaseProvider {
     return { text };
   }
 
+  protected async executeEmbedding(apiKey: string, texts: string[], model: string): Promise<number[][]> {
+    const url = `${this.config.apiBaseUrl}/models/${model}:batchEmbedContents?key=${apiKey}`;
+
+    const requestBody = {
+      requests: texts.map((text) => ({
+        model: `models/${model}`,
+        content: { parts: [{ text }] },
+        taskType: "SEMANTIC_SIMILARITY",
+        // The full 3072 dimensions add storage without helping short texts
+        outputDimensionality: 768,
+      })),
+    };
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(requestBody),
+      });
+    } catch (error) {
+      throw this.handleNetworkError(error);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw this.handleHttpError(response, errorData);
+    }
+
+    const data = await response.json();
+
+    const vectors: number[][] = (data.embeddings || []).map(
+      (embedding: { values?: number[] }) => embedding.values
+    );
+    if (vectors.length !== texts.length || vectors.some((vector) => !vector)) {
+      logger.error("Incomplete embeddings in Gemini API response. Response:", data);
+      throw new Error("Incomplete embeddings in Gemini API response");
+    }
+
+    return vectors;
+  }
+
   protected async validateApiKeyWithRequest(apiKey: string): Promise<ValidationResult> {
     try {
       return await retryWithBackoff(
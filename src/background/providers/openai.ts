@@ -62,6 +62,42 @@ export class OpenAIProvider extends BaseProvider {
     return { text };
   }
 
+  protected async executeEmbedding(apiKey: string, texts: string[], model: string): Promise<number[][]> {
+    const url = `${this.config.apiBaseUrl}/embeddings`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+    } catch (error) {
+      throw this.handleNetworkError(error);
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw this.handleHttpError(response, errorData);
+    }
+
+    const data = await response.json();
+
+    // Entries carry their input index; don't rely on their order
+    const vectors: number[][] = [];
+    for (const entry of data.data || []) {
+      vectors[entry.index] = entry.embedding;
+    }
+    if (vectors.length !== texts.length || vectors.some((vector) => !vector)) {
+      throw new Error("Incomplete embeddings in OpenAI API response");
+    }
+
+    return vectors;
+  }
+
   protected async validateApiKeyWithRequest(apiKey: string): Promise<ValidationResult> {
     try {
       return await retryWithBackoff(
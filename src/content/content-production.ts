@@ -6,9 +6,17 @@
  */
 
 import { db } from "./db";
-import { detectPlatform } from "./platformDetector";
+import {
+  detectPlatform,
+  getPlatformEmoji,
+  getPlatformName,
+} from "./platformDetector";
 import { chatgptPlatform } from "../platforms/chatgpt";
 import { PlatformFactory } from "../platforms/factory";
+import { CustomPlatforms } from "../platforms/custom";
+import { SelectorHealth } from "../platforms/diagnostics";
+import { PlatformHealthBanner } from "./modules/PlatformHealthBanner";
+import { TitleSync } from "./modules/TitleSync";
 import { GraphRenderer } from "./modules/GraphRenderer";
 import { ConnectionLabelsManager } from "./modules/ConnectionLabels";
 import { SidebarObserver } from "./modules/SidebarObserver";
@@ -27,10 +35,54 @@ import { formatErrorForUI } from "../utils/errorMessages";
 import {
   getSessionStorage,
   removeSessionStorage,
+  setSessionStorage,
 } from "../utils/sessionStorage";
-import type { ExtensionState, ChatTree, ConnectionType } from "../types";
-import type { AvailableChat } from "./modules/ChatDetector";
+import type {
+  ExtensionState,
+  ChatTree,
+  ChatNode,
+  ConnectionType,
+  TagFilter,
+  PlatformId,
+} from "../types";
+import {
+  getChatKey,
+  type AvailableChat,
+  type RetitledChat,
+} from "./modules/ChatDetector";
 import { BranchContextManager } from "./modules/BranchContextManager";
+import { CrossPlatformChatPicker } from "./modules/CrossPlatformChatPicker";
+import { BulkImportDialog } from "./modules/BulkImportDialog";
+import { TreeArchiveService } from "../storage/treeArchive";
+import { MarkdownExporter } from "../storage/markdownExport";
+import { SearchIndex } from "../storage/searchIndex";
+import { SearchPanel } from "./modules/SearchPanel";
+import { RelatedPanel } from "./modules/RelatedPanel";
+import {
+  NodeEmbeddings,
+  type RelatedNode,
+} from "./modules/context/NodeEmbeddings";
+import { MessageArchive } from "../storage/messageArchive";
+import { TreeHistory } from "../storage/treeHistory";
+import { TranscriptViewer } from "./modules/TranscriptViewer";
+import { TagEditorDialog } from "./modules/TagEditorDialog";
+import { SummaryEditorDialog } from "./modules/SummaryEditorDialog";
+import { NodeSummarizer } from "./modules/context/NodeSummarizer";
+import { TreeDigester } from "./modules/context/TreeDigester";
+import { TreeDigestDialog } from "./modules/TreeDigestDialog";
+import {
+  TreeOrganizer,
+  type OrganizeProposal,
+} from "./modules/context/TreeOrganizer";
+import { TreeConflictDialog } from "./modules/TreeConflictDialog";
+import type { MergeSource } from "./modules/context/formatters/MergeFormatter";
+import { collectTags } from "../utils/tags";
+
+// Minimum gap between message captures for the same chat
+const MESSAGE_INDEX_INTERVAL_MS = 30000;
+
+// How long the Undo button stays up after a delete
+const UNDO_TOAST_DURATION_MS = 8000;
 
 class ArborExtension {
   private state: ExtensionState = {
@@ -43,13 +95,22 @@ class ArborExtension {
 
   private availableChats: AvailableChat[] = [];
   private sidebarInjected = false;
-  private platform: "chatgpt" | "gemini" | "claude" | "perplexity";
+  private platform: PlatformId;
   private cleanupFunctions: Array<() => void> = [];
 
   // Render throttling
   private renderDebounceTimer: number | null = null;
   private isDirty = false;
   private lastRenderedTreeId: string | null = null;
+  private pendingFocusNodeId: string | null = null;
+
+  // Auto-organize proposal shown in the graph until applied or discarded
+  private organizeProposal: OrganizeProposal | null = null;
+
+  // Search
+  private searchPanel: SearchPanel;
+  private relatedPanel: RelatedPanel;
+  private lastMessageIndexAt = new Map<string, number>();
 
   // Modules
   private graphRenderer: GraphRenderer;
@@ -64,7 +125,7 @@ class ArborExtension {
   private graphPanZoom: GraphPanZoom;
   private branchContextManager: any = null; // Lazy loaded
 
-  constructor(platform: "chatgpt" | "gemini" | "claude" | "perplexity") {
+  constructor(platform: PlatformId) {
     this.platform = platform;
 
     // Initialize modules with proper callbacks
@@ -79,10 +140,28 @@ class ArborExtension {
     this.nodeManager = new NodeManager();
     this.nodeInteractions = new NodeInteractions();
     this.chatDetector = new ChatDetector(platform);
+    this.chatDetector.onTitleChange((chats) => {
+      this.applyProviderTitles(chats).catch((error) => {
+        console.error("🌳 Arbor: Failed to apply provider titles:", error);
+      });
+    });
     this.uiInjector = new UIInjector((action, data) =>
       this.handleSidebarAction(action, data),
     );
     this.graphPanZoom = new GraphPanZoom();
+    this.searchPanel = new SearchPanel({
+      onSearch: (query) => SearchIndex.search(query, this.state.trees),
+      onSelect: (result) => this.openNode(result.treeId, result.nodeId),
+    });
+    this.uiInjector.setSearchPanel(this.searchPanel);
+    this.relatedPanel = new RelatedPanel({
+      onFind: (treeId, nodeId) =>
+        NodeEmbeddings.findRelated(treeId, nodeId, this.state.trees),
+      onOpen: (treeId, nodeId) => this.openNode(treeId, nodeId),
+      onLink: (treeId, nodeId, related) =>
+        this.linkRelatedNode(treeId, nodeId, related),
+    });
+    this.uiInjector.setRelatedPanel(this.relatedPanel);
     // BranchContextManager is lazy loaded on demand
 
     this.init();
@@ -135,6 +214,12 @@ class ArborExtension {
         return false;
       }
 
+      // Another tab or the graph window undid/redid an edit
+      if (message.action === "tree-history-applied") {
+        this.reloadTreeFromHistory(message.payload.treeId, false);
+        return false;
+      }
+
       return false;
     });
 
@@ -149,6 +234,26 @@ class ArborExtension {
 
     await this.loadState();
 
+    // Pick up trees saved in other tabs or the graph window; a save of ours
+    // that raced one is merged, and the user settles what can't be
+    this.cleanupFunctions.push(
+      db.onTreeChanged((treeId, tree) =>
+        this.applyRemoteTreeChange(treeId, tree),
+      ),
+    );
+    db.setConflictHandler((conflict) => TreeConflictDialog.show(conflict));
+
+    // Warn when the site's markup stops matching its platform config, rather
+    // than branching with blank context
+    this.cleanupFunctions.push(
+      SelectorHealth.onDegraded((platform) => {
+        const platformAdapter = PlatformFactory.getPlatformByName(platform);
+        if (platformAdapter && platform === this.platform) {
+          PlatformHealthBanner.show(platformAdapter);
+        }
+      }),
+    );
+
     if (document.readyState === "loading") {
       document.addEventListener("DOMContentLoaded", () => this.onPageReady());
     } else {
@@ -168,6 +273,7 @@ class ArborExtension {
     await this.stateManager.saveState({
       currentTreeId: this.state.currentTreeId,
       currentNodeId: this.state.currentNodeId,
+      tagFilter: this.state.tagFilter,
     });
   }
 
@@ -185,6 +291,7 @@ class ArborExtension {
     this.detectAndTrackCurrentChat();
     this.handleAutoPasteAndTreeAddition();
     this.setupNavigationListener();
+    this.setupHistoryShortcuts();
 
     // Visibility-aware periodic updates
     this.setupVisibilityAwareScanning();
@@ -295,6 +402,7 @@ class ArborExtension {
           const data = await getSessionStorage([
             "arbor_branch_parent_node_id",
             "arbor_branch_parent_tree_id",
+            "arbor_branch_target_platform",
             "arbor_branch_timestamp",
           ]);
 
@@ -302,6 +410,11 @@ class ArborExtension {
           const parentTreeId = data.arbor_branch_parent_tree_id;
           const timestamp = data.arbor_branch_timestamp;
 
+          // Branch was handed to a different platform - not ours to link
+          if (!this.isBranchTargetedHere(data.arbor_branch_target_platform)) {
+            return;
+          }
+
           // Only process if we have the required info and it's recent (within 5 minutes)
           if (parentNodeId && parentTreeId && chatId && timestamp) {
             const branchTime = parseInt(timestamp, 10);
@@ -346,6 +459,8 @@ class ArborExtension {
     this.uiInjector.injectGraphView();
     this.attachGraphListeners();
     this.attachZoomControls();
+    this.attachSelectionBar();
+    this.attachOrganizeBar();
     this.graphPanZoom.init();
     this.graphPanZoom.setOnScaleChange(() => this.updateZoomDisplay());
     this.graphRenderer.setGraphPanZoom(this.graphPanZoom);
@@ -407,6 +522,147 @@ class ArborExtension {
     // The reset-layout-btn only shows when layout structure is manually changed
   }
 
+  private attachSelectionBar() {
+    this.graphRenderer.setSelectionHandler((nodeIds) =>
+      this.updateSelectionBar(nodeIds),
+    );
+
+    document
+      .getElementById("merge-selected-btn")
+      ?.addEventListener("click", () => this.mergeSelectedNodes());
+    document
+      .getElementById("clear-selection-btn")
+      ?.addEventListener("click", () => this.graphRenderer.clearSelection());
+  }
+
+  private updateSelectionBar(nodeIds: string[]) {
+    const bar = document.getElementById("graph-selection-bar");
+    const count = document.getElementById("graph-selection-count");
+    const mergeButton = document.getElementById(
+      "merge-selected-btn",
+    ) as HTMLButtonElement | null;
+    if (!bar || !count || !mergeButton) return;
+
+    bar.hidden = nodeIds.length === 0;
+    count.textContent =
+      nodeIds.length < 2
+        ? `${nodeIds.length} selected · shift-click more branches to merge`
+        : `${nodeIds.length} selected`;
+    mergeButton.disabled = nodeIds.length < 2;
+  }
+
+  private attachOrganizeBar() {
+    document
+      .getElementById("auto-organize-btn")
+      ?.addEventListener("click", () => this.proposeOrganization());
+    document
+      .getElementById("apply-organize-btn")
+      ?.addEventListener("click", () => this.applyOrganization());
+    document
+      .getElementById("discard-organize-btn")
+      ?.addEventListener("click", () => this.discardOrganization());
+  }
+
+  private updateOrganizeBar(message: string | null, canApply = false) {
+    const bar = document.getElementById("graph-organize-bar");
+    const summary = document.getElementById("graph-organize-summary");
+    const applyButton = document.getElementById("apply-organize-btn");
+    if (!bar || !summary || !applyButton) return;
+
+    bar.hidden = message === null;
+    summary.textContent = message || "";
+    applyButton.hidden = !canApply;
+  }
+
+  /**
+   * Ask the AI provider for a hierarchy and preview it in the graph
+   */
+  private async proposeOrganization() {
+    if (!this.state.currentTreeId) return;
+    const tree = this.state.trees[this.state.currentTreeId];
+    if (!tree) return;
+
+    this.discardOrganization();
+    this.updateOrganizeBar("Asking your AI provider to organize this tree...");
+
+    let proposal: OrganizeProposal;
+    try {
+      proposal = await TreeOrganizer.propose(tree, (message) =>
+        this.updateOrganizeBar(message),
+      );
+    } catch (error) {
+      this.updateOrganizeBar(null);
+      this.showNotification(
+        error instanceof Error ? error.message : "Auto-organize failed",
+        "error",
+      );
+      return;
+    }
+
+    if (proposal.changes.length === 0) {
+      this.updateOrganizeBar(null);
+      this.showNotification("This tree already looks organized 🌳", "info");
+      return;
+    }
+
+    const describeParent = (nodeId: string | null) =>
+      nodeId ? `"${proposal.preview.nodes[nodeId]?.title}"` : "nothing";
+    this.graphRenderer.setPreview(
+      new Map(
+        proposal.changes.map((change) => [
+          change.nodeId,
+          change.toParentId === change.fromParentId
+            ? `Labelled "${change.connectionLabel}"`
+            : `Moves from under ${describeParent(change.fromParentId)} to under ${describeParent(change.toParentId)}${change.connectionLabel ? ` as "${change.connectionLabel}"` : ""}`,
+        ]),
+      ),
+    );
+    this.organizeProposal = proposal;
+
+    const moves = proposal.changes.filter(
+      (change) => change.toParentId !== change.fromParentId,
+    ).length;
+    const labels = proposal.changes.filter(
+      (change) => change.connectionLabel,
+    ).length;
+    this.updateOrganizeBar(
+      `Preview: ${moves} move${moves === 1 ? "" : "s"}, ${labels} label${labels === 1 ? "" : "s"} · hover a highlighted chat for details`,
+      true,
+    );
+    this.renderGraph();
+  }
+
+  private async applyOrganization() {
+    const proposal = this.organizeProposal;
+    if (!proposal || proposal.treeId !== this.state.currentTreeId) {
+      this.discardOrganization();
+      return;
+    }
+    const tree = this.state.trees[proposal.treeId];
+    if (!tree) return;
+
+    const { moved, labelled, skipped } = await this.nodeManager.organizeNodes(
+      TreeOrganizer.getApplyOrder(proposal),
+      tree,
+      proposal.treeId,
+    );
+
+    this.discardOrganization();
+    this.showNotification(
+      `Organized tree: ${moved} moved, ${labelled} labelled${skipped.length > 0 ? `, ${skipped.length} skipped (changed meanwhile)` : ""} 🌳`,
+      "success",
+    );
+    this.refresh();
+  }
+
+  private discardOrganization() {
+    if (!this.organizeProposal) return;
+    this.organizeProposal = null;
+    this.graphRenderer.setPreview(null);
+    this.updateOrganizeBar(null);
+    this.renderGraph();
+  }
+
   private checkResetButtonVisibility() {
     if (this.graphRenderer && this.graphPanZoom) {
       this.graphRenderer.checkAndShowResetButton(this.graphPanZoom);
@@ -427,10 +683,21 @@ class ArborExtension {
       this.state.trees,
       this.state.currentTreeId,
       untrackedChats,
+      this.state.tagFilter || null,
+    );
+    this.relatedPanel.setNode(
+      this.state.trees,
+      this.state.currentTreeId,
+      this.state.currentNodeId,
     );
   }
 
   private getUntrackedChats(): AvailableChat[] {
+    const trackedUrls = this.getTrackedUrls();
+    return this.availableChats.filter((chat) => !trackedUrls.has(chat.url));
+  }
+
+  private getTrackedUrls(): Set<string> {
     const trackedUrls = new Set<string>();
 
     Object.values(this.state.trees).forEach((tree) => {
@@ -439,7 +706,7 @@ class ArborExtension {
       });
     });
 
-    return this.availableChats.filter((chat) => !trackedUrls.has(chat.url));
+    return trackedUrls;
   }
 
   private attachGraphListeners() {
@@ -486,6 +753,7 @@ class ArborExtension {
             this.state.currentTreeId,
           );
           this.showNotification("Node renamed! ✏️", "success");
+          await this.pushTitleToProvider(tree, node);
           this.refresh();
         }
         break;
@@ -521,6 +789,30 @@ class ArborExtension {
         }
         break;
 
+      case "attach":
+        await this.attachChatFromAnyPlatform(nodeId);
+        break;
+
+      case "branch":
+        await this.showBranchDialog(nodeId);
+        break;
+
+      case "tags":
+        await this.editNodeTags(nodeId);
+        break;
+
+      case "summarize":
+        await this.summarizeNode(nodeId);
+        break;
+
+      case "summary":
+        await this.editNodeSummary(nodeId);
+        break;
+
+      case "transcript":
+        await this.showTranscript(nodeId);
+        break;
+
       case "label":
         if (node.parentId) {
           await this.handleConnectionLabelClick(nodeId, node.parentId);
@@ -579,6 +871,12 @@ class ArborExtension {
       case "addChatToTree":
         await this.addChatToTree(data); // data is now chatUrl
         break;
+      case "bulkImportChats":
+        await this.bulkImportChats();
+        break;
+      case "showTreeDigest":
+        await this.showTreeDigest();
+        break;
       case "editTreeName":
         await this.editTreeName();
         break;
@@ -621,6 +919,42 @@ class ArborExtension {
           await this.renameTreeById(data.treeId, data.newName);
         }
         break;
+      case "exportTree":
+        await this.exportTrees(
+          this.state.currentTreeId ? [this.state.currentTreeId] : undefined,
+        );
+        break;
+      case "exportAllTrees":
+        await this.exportTrees();
+        break;
+      case "exportMarkdown":
+        this.exportMarkdown();
+        break;
+      case "importTrees":
+        await this.importTrees();
+        break;
+      case "toggleTagFilter":
+        if (data?.tag) {
+          const tags = this.state.tagFilter?.tags || [];
+          this.updateTagFilter({
+            mode: this.state.tagFilter?.mode || "dim",
+            tags: tags.includes(data.tag)
+              ? tags.filter((tag) => tag !== data.tag)
+              : [...tags, data.tag],
+          });
+        }
+        break;
+      case "toggleTagFilterMode":
+        if (this.state.tagFilter) {
+          this.updateTagFilter({
+            ...this.state.tagFilter,
+            mode: this.state.tagFilter.mode === "dim" ? "hide" : "dim",
+          });
+        }
+        break;
+      case "clearTagFilter":
+        this.updateTagFilter(null);
+        break;
       case "setNodeEmoji":
         if (
           data?.nodeId &&
@@ -665,6 +999,52 @@ class ArborExtension {
     this.refresh();
   }
 
+  private async exportTrees(treeIds?: string[]) {
+    const result = await TreeArchiveService.exportToFile(treeIds);
+    this.showNotification(result.message, result.success ? "success" : "error");
+  }
+
+  private exportMarkdown() {
+    const tree = this.state.currentTreeId
+      ? this.state.trees[this.state.currentTreeId]
+      : null;
+    if (!tree) {
+      this.showNotification("No tree selected", "error");
+      return;
+    }
+
+    try {
+      MarkdownExporter.download(tree);
+      this.showNotification(`Exported "${tree.name}" as Markdown 📝`, "success");
+    } catch (error) {
+      console.error("🌳 Arbor: Markdown export failed:", error);
+      this.showNotification("Failed to export Markdown", "error");
+    }
+  }
+
+  private async importTrees() {
+    const result = await TreeArchiveService.importFromFile();
+    if (!result) return;
+    if (!result.success) {
+      this.showNotification(result.message, "error");
+      return;
+    }
+
+    result.importedTrees.forEach((tree) => {
+      this.state.trees[tree.id] = tree;
+    });
+
+    if (result.currentTreeId && this.state.trees[result.currentTreeId]) {
+      this.state.currentTreeId = result.currentTreeId;
+      this.state.currentNodeId =
+        this.state.trees[result.currentTreeId].rootNodeId;
+      await this.saveState();
+    }
+
+    this.showNotification(result.message, "success");
+    this.refresh();
+  }
+
   private async createNewChat() {
     const url = this.platform === "chatgpt" ? "https://chatgpt.com/" : "";
     if (url) {
@@ -701,10 +1081,10 @@ class ArborExtension {
     }
   }
 
-  private async showBranchDialog() {
-    // Check if we're on a chat page
+  private async showBranchDialog(sourceNodeId?: string) {
+    // Branching from a node works off the page when it's that chat, or its archive otherwise
     const currentChat = this.chatDetector.detectCurrentChat();
-    if (!currentChat) {
+    if (!currentChat && !sourceNodeId) {
       this.showNotification(
         "You must be on a ChatGPT conversation page to create a branch",
         "error",
@@ -713,7 +1093,10 @@ class ArborExtension {
     }
 
     // Show branch configuration dialog
-    const config = await BranchConnectionTypeDialog.show("extends");
+    const config = await BranchConnectionTypeDialog.show(
+      "extends",
+      this.platform,
+    );
 
     if (!config) {
       // User cancelled
@@ -721,13 +1104,30 @@ class ArborExtension {
     }
 
     // Proceed with branch creation using selected configuration
-    await this.createBranch(config);
+    await this.createBranch(config, sourceNodeId);
   }
 
-  private async createBranch(config: BranchDialogResult) {
+  private async createBranch(config: BranchDialogResult, sourceNodeId?: string) {
     // Get the current chat from the page (not from selected tree node)
     const currentChat = this.chatDetector.detectCurrentChat();
-    if (!currentChat) {
+    const sourceTree = this.state.currentTreeId
+      ? this.state.trees[this.state.currentTreeId]
+      : undefined;
+    const sourceNode = sourceNodeId ? sourceTree?.nodes[sourceNodeId] : undefined;
+
+    // Branching from another chat than the open one uses its archived copy
+    const useArchive = !!sourceNode && sourceNode.url !== currentChat?.url;
+
+    // A saved summary on the parent is reused instead of summarizing again
+    const parentNode =
+      sourceNode ??
+      (currentChat && sourceTree
+        ? Object.values(sourceTree.nodes).find(
+            (node) => node.url === currentChat.url,
+          )
+        : undefined);
+
+    if (!currentChat && !useArchive) {
       this.showNotification(
         "You must be on a ChatGPT conversation page to create a branch",
         "error",
@@ -735,11 +1135,30 @@ class ArborExtension {
       return;
     }
 
+    let archivedMessages: Array<{ role: "user" | "assistant"; content: string }> | undefined;
+    if (useArchive && sourceNode) {
+      const transcript = await MessageArchive.getTranscript(sourceNode.id);
+      if (!transcript || transcript.messages.length === 0) {
+        this.showNotification(
+          "No archived copy of this chat yet. Open it once with the message archive enabled, or branch from its page.",
+          "error",
+        );
+        return;
+      }
+      archivedMessages = transcript.messages.map(({ role, content }) => ({
+        role,
+        content,
+      }));
+    }
+
     // Use the current page's chat title (more robust method from platform)
     const platformAdapter = PlatformFactory.getActivePlatform();
-    const currentTitle = platformAdapter
-      ? platformAdapter.detectChatTitle() || currentChat.title
-      : currentChat.title;
+    const currentTitle =
+      useArchive && sourceNode
+        ? sourceNode.title
+        : platformAdapter
+          ? platformAdapter.detectChatTitle() || currentChat!.title
+          : currentChat!.title;
 
     // Show initial loading notification
     const loadingNotification = this.showLoadingNotification(
@@ -772,6 +1191,8 @@ class ArborExtension {
         customConnectionType: config.customConnectionType,
         customPrompt: config.customPrompt,
         progressCallback,
+        archivedMessages,
+        nodeSummary: parentNode?.summary,
       });
 
       // Remove loading notification
@@ -809,7 +1230,10 @@ class ArborExtension {
       let parentNodeId: string | undefined;
       let parentTreeId: string | undefined;
 
-      if (this.state.currentTreeId) {
+      if (useArchive && sourceNode) {
+        parentNodeId = sourceNode.id;
+        parentTreeId = this.state.currentTreeId || undefined;
+      } else if (this.state.currentTreeId) {
         const tree = this.state.trees[this.state.currentTreeId];
         if (tree) {
           parentTreeId = this.state.currentTreeId;
@@ -817,7 +1241,7 @@ class ArborExtension {
           const platformAdapter = PlatformFactory.getActivePlatform();
           const currentChatUrl = platformAdapter
             ? platformAdapter.detectCurrentChatUrl()
-            : currentChat.url;
+            : currentChat?.url;
 
           if (currentChatUrl) {
             const matchingNode = Object.values(tree.nodes).find(
@@ -831,14 +1255,22 @@ class ArborExtension {
       }
 
       // Show success notification
+      const targetPlatform = config.targetPlatform || this.platform;
       this.showNotification(
-        "✓ Branch created! Opening new chat with conversation context...",
+        targetPlatform === this.platform
+          ? "✓ Branch created! Opening new chat with conversation context..."
+          : `✓ Branch created! Opening ${getPlatformName(targetPlatform)} with conversation context...`,
         "success",
       );
 
       // Open new chat with context and parent info
       setTimeout(() => {
-        branchManager.openNewChat(result.context, parentNodeId, parentTreeId);
+        branchManager.openNewChat(
+          result.context,
+          parentNodeId,
+          parentTreeId,
+          targetPlatform,
+        );
       }, 1000);
     } catch (error) {
       // Remove loading notification on error
@@ -853,106 +1285,422 @@ class ArborExtension {
     }
   }
 
-  private async selectTree(treeId: string) {
-    if (!this.state.trees[treeId]) return;
-
-    this.state.currentTreeId = treeId;
-    this.state.currentNodeId = this.state.trees[treeId].rootNodeId;
-
-    await this.saveState();
-    // Ensure graph is shown before rendering
-    this.uiInjector.showGraph();
-    this.refresh();
-  }
-
-  private async editTreeName() {
-    if (!this.state.currentTreeId) {
-      this.showNotification("No tree selected", "error");
-      return;
-    }
-
+  private async editNodeTags(nodeId: string) {
+    if (!this.state.currentTreeId) return;
     const tree = this.state.trees[this.state.currentTreeId];
-    if (!tree) return;
+    const node = tree?.nodes[nodeId];
+    if (!node) return;
 
-    const newName = prompt("Enter new tree name:", tree.name || "Unnamed Tree");
-    if (!newName || newName.trim() === "") return;
+    const knownTags = collectTags(Object.values(this.state.trees)).map(
+      ({ tag }) => tag,
+    );
+    const tags = await TagEditorDialog.show(node, knownTags);
+    if (!tags) return;
 
-    await this.treeManager.renameTree(
+    await this.nodeManager.updateNodeTags(
+      nodeId,
+      tags,
+      tree,
       this.state.currentTreeId,
-      newName.trim(),
-      this.state.trees,
     );
-
-    await this.saveState();
-    this.showNotification(`Tree renamed to "${newName}"! ✏️`, "success");
+    this.showNotification("Tags updated! 🔖", "success");
     this.refresh();
   }
 
-  private async renameNode(nodeId: string, newName: string) {
-    if (!this.state.currentTreeId) {
-      this.showNotification("No tree selected", "error");
-      return;
-    }
-
-    const tree = this.state.trees[this.state.currentTreeId];
-    if (!tree || !tree.nodes[nodeId]) {
-      this.showNotification("Node not found", "error");
-      return;
+  /**
+   * Messages for a node: from the page when it's the open chat, else its archive
+   */
+  private async getNodeMessages(
+    node: ChatNode,
+  ): Promise<Array<{ role: "user" | "assistant"; content: string }>> {
+    const platformAdapter = PlatformFactory.getActivePlatform();
+    if (platformAdapter && platformAdapter.detectCurrentChatUrl() === node.url) {
+      return platformAdapter.extractMessages();
     }
 
-    tree.nodes[nodeId].title = newName.trim();
-    tree.nodes[nodeId].updatedAt = new Date().toISOString();
-    tree.updatedAt = new Date().toISOString();
-
-    await db.saveNode(tree.nodes[nodeId], this.state.currentTreeId);
-    await db.saveTree(tree);
-    await this.saveState();
-
-    this.showNotification(`Node renamed! ✏️`, "success");
-    this.refresh();
-  }
-
-  private async renameTreeById(treeId: string, newName: string) {
-    const tree = this.state.trees[treeId];
-    if (!tree) {
-      this.showNotification("Tree not found", "error");
-      return;
+    const transcript = await MessageArchive.getTranscript(node.id);
+    if (!transcript || transcript.messages.length === 0) {
+      throw new Error(
+        "Open this chat first, or enable the message archive to summarize it from anywhere.",
+      );
     }
-
-    await this.treeManager.renameTree(treeId, newName.trim(), this.state.trees);
-    await this.saveState();
-
-    this.showNotification(`Tree renamed to "${newName}"! ✏️`, "success");
-    this.refresh();
+    return transcript.messages.map(({ role, content }) => ({ role, content }));
   }
 
-  private async setNodeEmoji(nodeId: string, emoji: string) {
-    if (!this.state.currentTreeId) {
-      this.showNotification("No tree selected", "error");
-      return;
-    }
-
+  private async summarizeNode(nodeId: string) {
+    if (!this.state.currentTreeId) return;
     const tree = this.state.trees[this.state.currentTreeId];
     const node = tree?.nodes[nodeId];
+    if (!node) return;
 
-    if (!node) {
-      this.showNotification("Node not found", "error");
-      return;
+    const loadingNotification = this.showLoadingNotification(
+      "Summarizing conversation...",
+    );
+    try {
+      const messages = await this.getNodeMessages(node);
+      const { summary, usedLLM } = await NodeSummarizer.summarize(messages);
+      await this.nodeManager.updateNodeSummary(
+        nodeId,
+        summary,
+        tree,
+        this.state.currentTreeId,
+      );
+      loadingNotification.remove();
+      this.showNotification(
+        usedLLM
+          ? "Summary saved! ✨"
+          : "Summary saved (text-based, no AI provider configured) ✨",
+        "success",
+      );
+      this.refresh();
+    } catch (error) {
+      loadingNotification.remove();
+      this.showNotification(
+        `Couldn't summarize: ${formatErrorForUI(error)}`,
+        "error",
+      );
     }
+  }
 
-    // Set or clear emoji (empty string clears it)
-    node.customEmoji = emoji || undefined;
-    node.updatedAt = new Date().toISOString();
+  private async editNodeSummary(nodeId: string) {
+    if (!this.state.currentTreeId) return;
+    const tree = this.state.trees[this.state.currentTreeId];
+    const node = tree?.nodes[nodeId];
+    if (!node) return;
 
-    await db.saveNode(node, this.state.currentTreeId);
-    await db.saveTree(tree);
-    await this.saveState();
+    const summary = await SummaryEditorDialog.show(node, async () => {
+      const messages = await this.getNodeMessages(node);
+      return (await NodeSummarizer.summarize(messages)).summary;
+    });
+    if (summary === null) return;
 
-    this.showNotification(`Emoji updated! ${emoji || "Removed"}`, "success");
+    await this.nodeManager.updateNodeSummary(
+      nodeId,
+      summary,
+      tree,
+      this.state.currentTreeId,
+    );
+    this.showNotification(
+      summary ? "Summary updated! 📝" : "Summary cleared",
+      "success",
+    );
     this.refresh();
   }
 
-  private async deleteTree() {
+  /**
+   * Consolidate the selected nodes in a new chat that becomes a child of the
+   * first one, with "summarizes" connections from the others
+   */
+  private async mergeSelectedNodes() {
+    if (!this.state.currentTreeId) return;
+    const treeId = this.state.currentTreeId;
+    const tree = this.state.trees[treeId];
+    const nodes = this.graphRenderer
+      .getSelectedNodes()
+      .map((nodeId) => tree?.nodes[nodeId])
+      .filter((node): node is ChatNode => !!node);
+    if (nodes.length < 2) return;
+
+    const loadingNotification = this.showLoadingNotification(
+      "Gathering branches...",
+    );
+
+    try {
+      const sources: MergeSource[] = [];
+      const unavailable: string[] = [];
+      for (const node of nodes) {
+        let messages: MergeSource["messages"] = [];
+        try {
+          messages = await this.getNodeMessages(node);
+        } catch (error) {
+          // Fall back to the saved summary alone
+        }
+        if (messages.length === 0 && !node.summary) {
+          unavailable.push(node.title);
+        }
+        sources.push({ title: node.title, summary: node.summary, messages });
+      }
+
+      if (unavailable.length > 0) {
+        loadingNotification.remove();
+        this.showNotification(
+          `No messages or summary for: ${unavailable.join(", ")}. Open those chats or add a summary first.`,
+          "error",
+        );
+        return;
+      }
+
+      this.updateLoadingNotification(
+        loadingNotification,
+        "Building merged context...",
+      );
+      const branchManager = await this.getBranchContextManager();
+      const result = await branchManager.createMergeContext(sources, tree.name);
+      loadingNotification.remove();
+
+      if (!result.success) {
+        if (result.context) {
+          alert(`Context (copy manually):\n\n${result.context}`);
+        } else {
+          this.showNotification(
+            `Couldn't merge branches: ${formatErrorForUI(result.error)}`,
+            "error",
+          );
+        }
+        return;
+      }
+
+      // Picked up by addNewChatToTreeIfNeeded once the new chat exists
+      await setSessionStorage({
+        arbor_branch_merge: {
+          parentNodeIds: nodes.map((node) => node.id),
+          createdAt: Date.now(),
+        },
+      });
+
+      this.graphRenderer.clearSelection();
+      this.showNotification(
+        `✓ Merging ${nodes.length} branches! Opening new chat with combined context...`,
+        "success",
+      );
+      setTimeout(() => {
+        branchManager.openNewChat(result.context, nodes[0].id, treeId);
+      }, 1000);
+    } catch (error) {
+      loadingNotification.remove();
+      this.showNotification(
+        `Couldn't merge branches: ${formatErrorForUI(error)}`,
+        "error",
+      );
+    }
+  }
+
+  private async showTreeDigest() {
+    if (!this.state.currentTreeId) return;
+    const tree = this.state.trees[this.state.currentTreeId];
+    if (!tree) return;
+
+    await TreeDigestDialog.show(tree, async (onProgress) => {
+      const digest = await TreeDigester.generate(tree, onProgress);
+      await this.treeManager.updateTreeDigest(tree, digest);
+      this.notifyGraphWindow();
+      return digest;
+    });
+  }
+
+  private async updateTagFilter(filter: TagFilter | null) {
+    this.state.tagFilter = filter && filter.tags.length > 0 ? filter : null;
+    await this.saveState();
+    this.refresh();
+  }
+
+  private async showTranscript(nodeId: string) {
+    const node = this.state.currentTreeId
+      ? this.state.trees[this.state.currentTreeId]?.nodes[nodeId]
+      : undefined;
+    if (!node) return;
+
+    try {
+      const transcript = await MessageArchive.getTranscript(nodeId);
+      if (!transcript) {
+        const enabled = await MessageArchive.isEnabled();
+        this.showNotification(
+          enabled
+            ? "No archived copy yet. Open this chat once to archive it."
+            : "Message archive is off. Enable it in Settings to keep local copies of your chats.",
+          "info",
+        );
+        return;
+      }
+      await TranscriptViewer.show(node, transcript);
+    } catch (error) {
+      this.showNotification("Failed to load archived transcript", "error");
+    }
+  }
+
+  private async selectTree(treeId: string) {
+    if (!this.state.trees[treeId]) return;
+
+    this.state.currentTreeId = treeId;
+    this.state.currentNodeId = this.state.trees[treeId].rootNodeId;
+
+    await this.saveState();
+    // Ensure graph is shown before rendering
+    this.uiInjector.showGraph();
+    this.refresh();
+  }
+
+  private async editTreeName() {
+    if (!this.state.currentTreeId) {
+      this.showNotification("No tree selected", "error");
+      return;
+    }
+
+    const tree = this.state.trees[this.state.currentTreeId];
+    if (!tree) return;
+
+    const newName = prompt("Enter new tree name:", tree.name || "Unnamed Tree");
+    if (!newName || newName.trim() === "") return;
+
+    await this.treeManager.renameTree(
+      this.state.currentTreeId,
+      newName.trim(),
+      this.state.trees,
+    );
+
+    await this.saveState();
+    this.showNotification(`Tree renamed to "${newName}"! ✏️`, "success");
+    this.refresh();
+  }
+
+  private async renameNode(nodeId: string, newName: string) {
+    if (!this.state.currentTreeId) {
+      this.showNotification("No tree selected", "error");
+      return;
+    }
+
+    const tree = this.state.trees[this.state.currentTreeId];
+    if (!tree || !tree.nodes[nodeId]) {
+      this.showNotification("Node not found", "error");
+      return;
+    }
+
+    const before = TreeHistory.snapshot(tree);
+    tree.nodes[nodeId].title = newName.trim();
+    tree.nodes[nodeId].titleLocked = true;
+    tree.nodes[nodeId].updatedAt = new Date().toISOString();
+    tree.updatedAt = new Date().toISOString();
+
+    await db.saveNode(tree.nodes[nodeId], this.state.currentTreeId);
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Rename to "${newName.trim()}"`,
+      before,
+      after,
+    );
+    await this.saveState();
+
+    this.showNotification(`Node renamed! ✏️`, "success");
+    await this.pushTitleToProvider(tree, tree.nodes[nodeId]);
+    this.refresh();
+  }
+
+  /**
+   * With title sync on, rename the chat on the provider after an Arbor rename
+   * Chats on another site are renamed the next time they're opened
+   */
+  private async pushTitleToProvider(tree: ChatTree, node: ChatNode) {
+    const platformAdapter = PlatformFactory.getActivePlatform();
+    if (
+      !platformAdapter ||
+      node.platform !== platformAdapter.name ||
+      !platformAdapter.supportsRename ||
+      !(await TitleSync.isEnabled())
+    ) {
+      return;
+    }
+
+    if (await TitleSync.push(platformAdapter, node)) {
+      await db.saveNode(node, tree.id);
+      await db.saveTree(tree);
+    } else {
+      this.showNotification(
+        `Couldn't rename the chat on ${platformAdapter.displayName}, will retry when you open it`,
+        "info",
+      );
+    }
+  }
+
+  /**
+   * With title sync on, reconcile the open chat's title between Arbor and
+   * the provider, for every node that tracks it
+   */
+  private async syncCurrentChatTitle(chat: { url: string; title: string }) {
+    const platformAdapter = PlatformFactory.getActivePlatform();
+    if (
+      !platformAdapter ||
+      chat.title === platformAdapter.titleFallback ||
+      !(await TitleSync.isEnabled())
+    ) {
+      return;
+    }
+
+    let pulled = false;
+    for (const tree of Object.values(this.state.trees)) {
+      let changed = false;
+      for (const node of Object.values(tree.nodes)) {
+        if (node.url !== chat.url) continue;
+
+        const action = TitleSync.reconcile(node, chat.title);
+        const updated =
+          action === "push"
+            ? await TitleSync.push(platformAdapter, node)
+            : action !== null;
+        if (updated) {
+          await db.saveNode(node, tree.id);
+          changed = true;
+          pulled = pulled || action === "pull";
+        }
+      }
+      if (changed) {
+        await db.saveTree(tree);
+      }
+    }
+
+    if (pulled && this.sidebarInjected) {
+      this.refreshSidebar();
+    }
+  }
+
+  private async renameTreeById(treeId: string, newName: string) {
+    const tree = this.state.trees[treeId];
+    if (!tree) {
+      this.showNotification("Tree not found", "error");
+      return;
+    }
+
+    await this.treeManager.renameTree(treeId, newName.trim(), this.state.trees);
+    await this.saveState();
+
+    this.showNotification(`Tree renamed to "${newName}"! ✏️`, "success");
+    this.refresh();
+  }
+
+  private async setNodeEmoji(nodeId: string, emoji: string) {
+    if (!this.state.currentTreeId) {
+      this.showNotification("No tree selected", "error");
+      return;
+    }
+
+    const tree = this.state.trees[this.state.currentTreeId];
+    const node = tree?.nodes[nodeId];
+
+    if (!node) {
+      this.showNotification("Node not found", "error");
+      return;
+    }
+
+    // Set or clear emoji (empty string clears it)
+    const before = TreeHistory.snapshot(tree);
+    node.customEmoji = emoji || undefined;
+    node.updatedAt = new Date().toISOString();
+
+    await db.saveNode(node, this.state.currentTreeId);
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Change emoji of "${node.title}"`,
+      before,
+      after,
+    );
+    await this.saveState();
+
+    this.showNotification(`Emoji updated! ${emoji || "Removed"}`, "success");
+    this.refresh();
+  }
+
+  private async deleteTree() {
     if (!this.state.currentTreeId) {
       this.showNotification("No tree selected", "error");
       return;
@@ -969,9 +1717,9 @@ class ArborExtension {
 
     if (
       !confirm(
-        `Delete "${treeName}"?\n\nThis will permanently delete:\n• The entire tree\n• All ${nodeCount} node${
+        `Delete "${treeName}"?\n\nThis will delete:\n• The entire tree\n• All ${nodeCount} node${
           nodeCount !== 1 ? "s" : ""
-        } and their connections\n\nThis action cannot be undone.`,
+        } and their connections\n\nYou can undo this right after.`,
       )
     ) {
       return;
@@ -997,7 +1745,10 @@ class ArborExtension {
       : null;
 
     await this.saveState();
-    this.showNotification(`Tree "${treeName}" deleted! 🗑️`, "success");
+    this.showUndoNotification(
+      `Tree "${treeName}" deleted! 🗑️`,
+      result.historyEntryId,
+    );
     this.refresh();
   }
 
@@ -1041,7 +1792,7 @@ class ArborExtension {
 
     if (
       !confirm(
-        `Delete "${node.title}"?\n\nThis will permanently delete:\n• ${willDeleteCount} (including all children)\n• All connections to this branch\n\nThis action cannot be undone.`,
+        `Delete "${node.title}"?\n\nThis will delete:\n• ${willDeleteCount} (including all children)\n• All connections to this branch\n\nYou can undo this right after.`,
       )
     ) {
       return;
@@ -1051,6 +1802,7 @@ class ArborExtension {
       nodeId,
       tree,
       this.state.currentTreeId,
+      this.state.trees,
     );
 
     if (!result.success) {
@@ -1067,10 +1819,150 @@ class ArborExtension {
       await this.saveState();
     }
 
-    this.showNotification("Node deleted! 🗑️", "success");
+    this.showUndoNotification("Node deleted! 🗑️", result.historyEntryId);
     this.refresh();
   }
 
+  /**
+   * Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo
+   * Only while the user is working in the sidebar or graph, so the host
+   * page's own undo keeps working in its prompt box
+   */
+  private setupHistoryShortcuts() {
+    let arborActive = false;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      arborActive = !!(e.target as HTMLElement).closest?.(
+        "#arbor-sidebar-container, #arbor-graph-container",
+      );
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!arborActive || !(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === "z" && !e.shiftKey;
+      const isRedo = (key === "z" && e.shiftKey) || (key === "y" && e.ctrlKey);
+      if (!isUndo && !isRedo) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      this.applyHistory(isRedo ? "redo" : "undo");
+    };
+
+    document.addEventListener("mousedown", handleMouseDown, true);
+    document.addEventListener("keydown", handleKeyDown, true);
+
+    this.cleanupFunctions.push(() => {
+      document.removeEventListener("mousedown", handleMouseDown, true);
+      document.removeEventListener("keydown", handleKeyDown, true);
+    });
+  }
+
+  private async applyHistory(direction: "undo" | "redo") {
+    try {
+      const entry =
+        direction === "undo"
+          ? await TreeHistory.undo()
+          : await TreeHistory.redo();
+
+      if (!entry) {
+        this.showNotification(
+          direction === "undo" ? "Nothing to undo" : "Nothing to redo",
+          "info",
+        );
+        return;
+      }
+
+      await this.reloadTreeFromHistory(entry.treeId, true);
+      this.showNotification(
+        `${direction === "undo" ? "Undid" : "Redid"}: ${entry.label}`,
+        "success",
+      );
+    } catch (error) {
+      console.error(`🌳 Arbor: Failed to ${direction}:`, error);
+      this.showNotification(`Failed to ${direction}`, "error");
+    }
+  }
+
+  private async undoHistoryEntry(entryId: string) {
+    try {
+      const entry = await TreeHistory.undoEntry(entryId);
+      if (!entry) {
+        this.showNotification("Can't undo - the tree changed since", "error");
+        return;
+      }
+
+      await this.reloadTreeFromHistory(entry.treeId, true);
+      this.showNotification(`Undid: ${entry.label}`, "success");
+    } catch (error) {
+      console.error("🌳 Arbor: Failed to undo:", error);
+      this.showNotification("Failed to undo", "error");
+    }
+  }
+
+  /**
+   * Pick up a tree after its history was applied
+   *
+   * @param focus - switch to the tree (when the undo happened here)
+   */
+  private async reloadTreeFromHistory(treeId: string, focus: boolean) {
+    await this.syncTreeState(treeId, await db.getTree(treeId), focus);
+  }
+
+  /**
+   * Adopt a tree saved or deleted elsewhere
+   * Our own saves come back at the revision we already hold and are skipped
+   */
+  private async applyRemoteTreeChange(treeId: string, tree: ChatTree | null) {
+    const local = this.state.trees[treeId];
+    if (!tree && !local) return;
+    if (tree && local && (local.revision ?? 0) >= (tree.revision ?? 0)) return;
+
+    await this.syncTreeState(treeId, tree, false);
+  }
+
+  private async syncTreeState(
+    treeId: string,
+    tree: ChatTree | null,
+    focus: boolean,
+  ) {
+    if (tree) {
+      this.state.trees[treeId] = tree;
+      if (focus || !this.state.currentTreeId) {
+        this.state.currentTreeId = treeId;
+      }
+    } else {
+      delete this.state.trees[treeId];
+      if (this.state.currentTreeId === treeId) {
+        this.state.currentTreeId = Object.keys(this.state.trees)[0] || null;
+      }
+    }
+
+    const currentTree = this.state.currentTreeId
+      ? this.state.trees[this.state.currentTreeId]
+      : null;
+    if (
+      !currentTree ||
+      !this.state.currentNodeId ||
+      !currentTree.nodes[this.state.currentNodeId]
+    ) {
+      this.state.currentNodeId = currentTree?.rootNodeId || null;
+    }
+
+    await this.saveState();
+    this.refreshSidebar();
+    this.renderGraph();
+  }
+
   private async addChatToTree(chatUrl: string, parentNodeId?: string | null) {
     if (!this.state.currentTreeId) {
       this.showNotification("No active tree selected", "error");
@@ -1111,6 +2003,100 @@ class ArborExtension {
     this.renderGraph();
   }
 
+  /**
+   * Add many of the provider's existing chats to the current tree at once
+   */
+  private async bulkImportChats() {
+    if (!this.state.currentTreeId) {
+      this.showNotification("No active tree selected", "error");
+      return;
+    }
+
+    const treeId = this.state.currentTreeId;
+    const tree = this.state.trees[treeId];
+    const platformAdapter = PlatformFactory.getPlatformByName(this.platform);
+
+    const picked = await BulkImportDialog.show(
+      tree,
+      {
+        chats: this.getUntrackedChats(),
+        loadMore: async () => {
+          const loaded = platformAdapter
+            ? await platformAdapter.loadMoreSidebarChats()
+            : false;
+          await this.scanAvailableChats();
+          return { chats: this.getUntrackedChats(), loaded };
+        },
+      },
+      this.state.currentNodeId && tree.nodes[this.state.currentNodeId]
+        ? this.state.currentNodeId
+        : tree.rootNodeId,
+    );
+    if (!picked) return;
+
+    // Another tab may have tracked some of them while the dialog was open
+    const trackedUrls = this.getTrackedUrls();
+    const chats = picked.chats.filter((chat) => !trackedUrls.has(chat.url));
+    if (chats.length === 0) {
+      this.showNotification("These chats are already in a tree", "error");
+      return;
+    }
+
+    await this.nodeManager.createNodes(picked.parentNodeId, chats, tree, treeId);
+
+    this.showNotification(
+      `Added ${chats.length} chat${chats.length === 1 ? "" : "s"} to tree! ✅`,
+      "success",
+    );
+    this.refresh();
+    this.renderGraph();
+  }
+
+  /**
+   * Attach a chat from any supported platform under the given node
+   */
+  private async attachChatFromAnyPlatform(parentNodeId: string) {
+    if (!this.state.currentTreeId) {
+      this.showNotification("No active tree selected", "error");
+      return;
+    }
+
+    const treeId = this.state.currentTreeId;
+    const tree = this.state.trees[treeId];
+    const trackedUrls = this.getTrackedUrls();
+    const knownChats = await this.chatDetector.loadKnownChats(
+      this.availableChats,
+    );
+    const candidates = knownChats.filter((chat) => !trackedUrls.has(chat.url));
+
+    const picked = await CrossPlatformChatPicker.show(
+      tree,
+      candidates,
+      parentNodeId,
+    );
+    if (!picked) return;
+
+    if (this.getTrackedUrls().has(picked.chat.url)) {
+      this.showNotification("This chat is already in a tree", "error");
+      return;
+    }
+
+    await this.nodeManager.createNode(
+      picked.parentNodeId,
+      picked.chat.title,
+      picked.chat.url,
+      picked.chat.platform,
+      tree,
+      treeId,
+    );
+
+    this.showNotification(
+      `Added ${getPlatformEmoji(picked.chat.platform)} "${picked.chat.title}" to tree! ✅`,
+      "success",
+    );
+    this.refresh();
+  }
+
   /**
    * Handle auto-pasting context and adding new chat to tree after branch creation
    */
@@ -1121,6 +2107,7 @@ class ArborExtension {
         "arbor_branch_context",
         "arbor_branch_parent_node_id",
         "arbor_branch_parent_tree_id",
+        "arbor_branch_target_platform",
         "arbor_branch_timestamp",
       ]);
 
@@ -1133,6 +2120,10 @@ class ArborExtension {
         return; // No branch context to handle
       }
 
+      if (!this.isBranchTargetedHere(data.arbor_branch_target_platform)) {
+        return; // Context is waiting for another platform's tab
+      }
+
       // Check if this is a recent branch creation (within last 5 minutes)
       const branchTime = parseInt(timestamp, 10);
       const now = Date.now();
@@ -1208,9 +2199,16 @@ class ArborExtension {
         await this.saveState();
       }
 
+      // Re-read the originating tree: it may have been created or changed
+      // in another tab (e.g. on a different platform) after this one loaded
+      const storedTree = await db.getTree(parentTreeId);
+      if (storedTree) {
+        this.state.trees[parentTreeId] = storedTree;
+      }
+
       // Check if this chat is already in the tree
       const tree = this.state.trees[parentTreeId];
-      if (!tree) {
+      if (!tree || !tree.nodes[parentNodeId]) {
         this.clearBranchContext();
         return;
       }
@@ -1231,7 +2229,7 @@ class ArborExtension {
         : "New Branch";
 
       // Add the chat to the tree as a child of the parent
-      await this.nodeManager.createNode(
+      const newNode = await this.nodeManager.createNode(
         parentNodeId,
         chatTitle,
         currentChatUrl,
@@ -1240,8 +2238,20 @@ class ArborExtension {
         parentTreeId,
       );
 
+      const mergedFrom = await this.getPendingMergeParents(parentNodeId);
+      if (mergedFrom) {
+        await this.nodeManager.linkMergedNode(
+          newNode.id,
+          mergedFrom,
+          tree,
+          parentTreeId,
+        );
+      }
+
       this.showNotification(
-        `Branch "${chatTitle}" added to tree! 🌿`,
+        mergedFrom
+          ? `Merged chat "${chatTitle}" linked to ${mergedFrom.length} branches! 📋`
+          : `Branch "${chatTitle}" added to tree! 🌿`,
         "success",
       );
       this.refresh();
@@ -1252,6 +2262,42 @@ class ArborExtension {
     }
   }
 
+  /**
+   * Source nodes of a pending merge whose primary parent is parentNodeId
+   */
+  private async getPendingMergeParents(
+    parentNodeId: string,
+  ): Promise<string[] | null> {
+    try {
+      const data = await getSessionStorage([
+        "arbor_branch_merge",
+        "arbor_branch_timestamp",
+      ]);
+      const merge = data.arbor_branch_merge;
+      const branchTime = parseInt(data.arbor_branch_timestamp, 10);
+      if (
+        !merge ||
+        !Array.isArray(merge.parentNodeIds) ||
+        merge.parentNodeIds[0] !== parentNodeId ||
+        // Must belong to the same handoff, not an abandoned earlier merge
+        Math.abs(branchTime - merge.createdAt) > 60 * 1000
+      ) {
+        return null;
+      }
+      return merge.parentNodeIds;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a pending branch handoff is meant for this platform
+   * (handoffs without a target predate cross-site branching)
+   */
+  private isBranchTargetedHere(targetPlatform: string | undefined): boolean {
+    return !targetPlatform || targetPlatform === this.platform;
+  }
+
   /**
    * Clear stored branch context from chrome.storage.session
    */
@@ -1260,7 +2306,9 @@ class ArborExtension {
       "arbor_branch_context",
       "arbor_branch_parent_node_id",
       "arbor_branch_parent_tree_id",
+      "arbor_branch_target_platform",
       "arbor_branch_timestamp",
+      "arbor_branch_merge",
     ]).catch((error) => {
       console.error("Failed to clear branch context:", error);
     });
@@ -1272,9 +2320,22 @@ class ArborExtension {
     const tree = this.state.trees[this.state.currentTreeId];
     const node = tree?.nodes[nodeId];
 
-    if (node) {
-      window.location.href = node.url;
+    if (!node) return;
+
+    // Nodes from another platform open in (or focus) a tab on that site
+    if (node.platform !== this.platform) {
+      chrome.runtime.sendMessage(
+        { action: "open-chat-tab", payload: { url: node.url } },
+        (response) => {
+          if (chrome.runtime.lastError || !response?.success) {
+            window.open(node.url, "_blank");
+          }
+        },
+      );
+      return;
     }
+
+    window.location.href = node.url;
   }
 
   private async handleConnectionLabelClick(childId: string, parentId: string) {
@@ -1318,13 +2379,23 @@ class ArborExtension {
       return;
     }
 
-    const tree = this.state.trees[this.state.currentTreeId];
+    let tree = this.state.trees[this.state.currentTreeId];
     if (!tree) {
       this.uiInjector.hideGraph();
       this.isDirty = false;
       return;
     }
 
+    // Show a pending auto-organize proposal instead, unless the user has
+    // switched trees since
+    if (this.organizeProposal?.treeId === this.state.currentTreeId) {
+      tree = this.organizeProposal.preview;
+    } else if (this.organizeProposal) {
+      this.organizeProposal = null;
+      this.graphRenderer.setPreview(null);
+      this.updateOrganizeBar(null);
+    }
+
     // Skip render if not dirty and same tree
     if (!this.isDirty && this.lastRenderedTreeId === this.state.currentTreeId) {
       return;
@@ -1353,6 +2424,7 @@ class ArborExtension {
 
       await this.graphRenderer.setCurrentTree(this.state.currentTreeId);
       this.graphRenderer.setCurrentNode(this.state.currentNodeId);
+      this.graphRenderer.setTagFilter(this.state.tagFilter || null);
       this.graphRenderer.renderGraph(tree);
 
       // Reinitialize pan/zoom after graph is rendered
@@ -1363,17 +2435,94 @@ class ArborExtension {
 
       // Reattach listeners after render
       this.attachGraphListeners();
+
+      if (this.pendingFocusNodeId) {
+        this.graphRenderer.focusNode(this.pendingFocusNodeId);
+        this.pendingFocusNodeId = null;
+      }
     }, 50);
   }
 
   private async scanAvailableChats() {
     this.availableChats = await this.chatDetector.scanAvailableChats();
+    this.chatDetector.saveKnownChats(this.availableChats);
+
+    // Rescan as soon as the provider retitles a chat, rather than on the next tick
+    this.sidebarObserver.watchChatTitles(
+      PlatformFactory.getPlatformByName(this.platform)?.getSidebarContainer() ||
+        null,
+      () => this.scanAvailableChats(),
+    );
 
     if (this.sidebarInjected) {
       this.refreshSidebar();
     }
   }
 
+  /**
+   * Give tracked chats the titles the provider generated (or changed) for
+   * them, unless the user renamed the node in Arbor
+   * A node takes the new title unless it differs from the provider title
+   * last seen for it; such a title was set by the user (nodes from before
+   * titles were locked on rename), so the node gets locked instead
+   */
+  private async applyProviderTitles(chats: RetitledChat[]) {
+    const platformAdapter = PlatformFactory.getPlatformByName(this.platform);
+    const titleFallback = platformAdapter?.titleFallback;
+    const retitled = new Map(
+      chats
+        .filter((chat) => chat.title && chat.title !== titleFallback)
+        .map((chat) => [getChatKey(chat.url), chat]),
+    );
+    if (retitled.size === 0) return;
+
+    let updated = false;
+    for (const tree of Object.values(this.state.trees)) {
+      const before = TreeHistory.snapshot(tree);
+      let changed = false;
+      let renamed = false;
+      for (const node of Object.values(tree.nodes)) {
+        const chat = retitled.get(getChatKey(node.url));
+        if (!chat || node.titleLocked || node.title === chat.title) continue;
+
+        // Unknown for nodes tracked before provider titles were recorded,
+        // when their chat is first seen after a reload
+        const detectedTitle = node.providerTitle ?? chat.previousTitle;
+        if (
+          detectedTitle === null ||
+          node.title === titleFallback ||
+          node.title === detectedTitle
+        ) {
+          node.title = chat.title;
+          node.providerTitle = chat.title;
+          node.updatedAt = new Date().toISOString();
+          renamed = true;
+        } else {
+          node.titleLocked = true;
+        }
+        await db.saveNode(node, tree.id);
+        changed = true;
+      }
+      if (!changed) continue;
+
+      tree.updatedAt = new Date().toISOString();
+      const after = TreeHistory.snapshot(tree);
+      await db.saveTree(tree);
+      if (renamed) {
+        await TreeHistory.recordTreeChange(
+          `Titles from ${platformAdapter?.displayName || this.platform}`,
+          before,
+          after,
+        );
+        updated = true;
+      }
+    }
+
+    if (updated && this.sidebarInjected) {
+      this.refreshSidebar();
+    }
+  }
+
   private detectAndTrackCurrentChat() {
     const currentChat = this.chatDetector.detectCurrentChat();
 
@@ -1387,6 +2536,87 @@ class ArborExtension {
         this.state.currentNodeId = existingNode.id;
       }
     }
+
+    if (currentChat) {
+      this.captureCurrentChatMessages(currentChat.url);
+      this.syncCurrentChatTitle(currentChat);
+    }
+  }
+
+  /**
+   * Capture the visible conversation into the search index (and the message
+   * archive, if enabled) for every node that tracks this chat, in any tree
+   */
+  private async captureCurrentChatMessages(chatUrl: string) {
+    const platformAdapter = PlatformFactory.getActivePlatform();
+    if (!platformAdapter) return;
+
+    const now = Date.now();
+    const matches = Object.values(this.state.trees).flatMap((tree) =>
+      Object.values(tree.nodes)
+        .filter(
+          (node) =>
+            node.url === chatUrl &&
+            now - (this.lastMessageIndexAt.get(node.id) || 0) >=
+              MESSAGE_INDEX_INTERVAL_MS,
+        )
+        .map((node) => ({ tree, node })),
+    );
+    if (matches.length === 0) return;
+
+    try {
+      const messages = platformAdapter.extractMessages();
+      const archiveEnabled = await MessageArchive.isEnabled();
+      for (const { tree, node } of matches) {
+        this.lastMessageIndexAt.set(node.id, now);
+        await SearchIndex.indexMessages(node, tree.id, messages);
+        if (archiveEnabled) {
+          await MessageArchive.capture(node, tree.id, messages);
+        }
+      }
+    } catch (error) {
+      // Capturing is best effort
+    }
+  }
+
+  /**
+   * Jump to a node (a search hit or a related chat), switching trees if needed
+   */
+  private async openNode(treeId: string, nodeId: string) {
+    if (!this.state.trees[treeId]?.nodes[nodeId]) return;
+
+    this.state.currentTreeId = treeId;
+    this.state.currentNodeId = nodeId;
+    this.pendingFocusNodeId = nodeId;
+
+    await this.saveState();
+    this.uiInjector.showGraph();
+    this.refresh();
+  }
+
+  /**
+   * Link the current chat to a related one in another tree
+   */
+  private async linkRelatedNode(
+    treeId: string,
+    nodeId: string,
+    related: RelatedNode,
+  ) {
+    const tree = this.state.trees[treeId];
+    const otherTree = this.state.trees[related.treeId];
+    if (!tree || !otherTree) return;
+
+    await this.nodeManager.linkAcrossTrees(
+      nodeId,
+      tree,
+      related.node.id,
+      otherTree,
+    );
+    this.showNotification(
+      `Linked to "${related.node.title}" in ${otherTree.name}`,
+      "success",
+    );
+    this.refresh();
   }
 
   private refresh() {
@@ -1451,6 +2681,71 @@ class ArborExtension {
     }, 3000);
   }
 
+  /**
+   * Success toast with an Undo button for destructive actions
+   */
+  private showUndoNotification(message: string, historyEntryId?: string) {
+    if (!historyEntryId) {
+      this.showNotification(message, "success");
+      return;
+    }
+
+    document.getElementById("arbor-undo-notification")?.remove();
+
+    const toast = document.createElement("div");
+    toast.id = "arbor-undo-notification";
+    toast.style.cssText = `
+      position: fixed;
+      top: 20px;
+      right: 20px;
+      padding: 10px 12px 10px 20px;
+      background: #2dd4a7;
+      color: #0c0f0e;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.3);
+      z-index: 99999999;
+      font-size: 14px;
+      font-weight: 600;
+      animation: slideIn 0.3s ease;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      display: flex;
+      align-items: center;
+      gap: 12px;
+    `;
+
+    const text = document.createElement("span");
+    text.textContent = message;
+
+    const undoButton = document.createElement("button");
+    undoButton.textContent = "Undo";
+    undoButton.style.cssText = `
+      padding: 4px 10px;
+      background: #0c0f0e;
+      color: #2dd4a7;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+      font-size: 13px;
+      font-weight: 600;
+    `;
+
+    const dismiss = () => {
+      toast.style.animation = "slideOut 0.3s ease";
+      setTimeout(() => toast.remove(), 300);
+    };
+    const dismissTimer = window.setTimeout(dismiss, UNDO_TOAST_DURATION_MS);
+
+    undoButton.addEventListener("click", () => {
+      window.clearTimeout(dismissTimer);
+      toast.remove();
+      this.undoHistoryEntry(historyEntryId);
+    });
+
+    toast.appendChild(text);
+    toast.appendChild(undoButton);
+    document.body.appendChild(toast);
+  }
+
   /**
    * Show loading notification with spinner
    */
@@ -1547,11 +2842,13 @@ class ArborExtension {
   }
 }
 
-// Initialize extension
-const platform = detectPlatform();
-if (platform) {
-  try {
-    new ArborExtension(platform);
-  } catch (error) {
+// Initialize extension (custom platforms must be registered before detection)
+CustomPlatforms.load().then(() => {
+  const platform = detectPlatform();
+  if (platform) {
+    try {
+      new ArborExtension(platform);
+    } catch (error) {
+    }
   }
-}
+});
@@ -2,11 +2,13 @@
  * BranchConnectionTypeDialog - Dialog for selecting connection type when creating a branch
  */
 
-import type { ConnectionType } from "../../types";
+import type { ConnectionType, PlatformId } from "../../types";
+import { PlatformFactory } from "../../platforms/factory";
 import {
   CONNECTION_TYPES,
   type ConnectionTypeConfig,
 } from "./context/connectionTypes";
+import { getPlatformEmoji, getPlatformName } from "../platformDetector";
 
 // Re-export for backward compatibility
 export type ConnectionTypeOption = ConnectionTypeConfig;
@@ -18,15 +20,19 @@ export interface BranchDialogResult {
   messageCount?: number;
   customConnectionType?: string; // Custom connection type label if connectionType is 'custom'
   customPrompt?: string; // Custom summarization prompt (optional)
+  targetPlatform: BranchTargetPlatform; // Platform the new chat opens on
 }
 
+export type BranchTargetPlatform = PlatformId;
+
 export class BranchConnectionTypeDialog {
   /**
    * Show dialog and return selected options
    * Returns the configuration if user confirms, or null if cancelled
    */
   static show(
-    defaultType: ConnectionType = "extends"
+    defaultType: ConnectionType = "extends",
+    currentPlatform: BranchTargetPlatform = "chatgpt"
   ): Promise<BranchDialogResult | null> {
     return new Promise((resolve) => {
       // Remove existing dialog if any
@@ -178,6 +184,36 @@ export class BranchConnectionTypeDialog {
                 />
               </div>
 
+              <div style="margin-top: 16px;">
+                <label style="
+                  display: block;
+                  color: #9caba3;
+                  font-size: 11px;
+                  text-transform: uppercase;
+                  letter-spacing: 0.5px;
+                  margin-bottom: 8px;
+                  font-weight: 600;
+                ">Open Branch In</label>
+                <div style="display: flex; gap: 6px; flex-wrap: wrap;">
+                  ${PlatformFactory.getAllPlatforms().map(
+                    ({ name: platform }) => `
+                    <label style="display: flex; align-items: center; gap: 6px; cursor: pointer; padding: 6px 10px; border: 1px solid #2a3530; border-radius: 6px; background: #131917;">
+                      <input type="radio" name="target-platform" value="${platform}" ${
+                        platform === currentPlatform ? "checked" : ""
+                      } style="accent-color: #2dd4a7; cursor: pointer;">
+                      <span style="color: #e8efe9; font-size: 12px;">${getPlatformEmoji(
+                        platform
+                      )} ${getPlatformName(platform)}${
+                        platform === currentPlatform ? " (this site)" : ""
+                      }</span>
+                    </label>`
+                  ).join("")}
+                </div>
+                <div style="margin-top: 6px; font-size: 10px; color: #6a7570; line-height: 1.4;">
+                  💡 Other platforms open in a new tab with the context pasted, and the new chat is linked into this tree.
+                </div>
+              </div>
+
               <!-- What Happens Next Preview -->
               <div id="what-happens-next-preview" style="
                 margin-top: 16px;
@@ -788,7 +824,14 @@ export class BranchConnectionTypeDialog {
               ? customPromptInput.value.trim() || undefined
               : undefined;
 
+          const checkedTargetRadio = modal.querySelector(
+            'input[name="target-platform"]:checked'
+          ) as HTMLInputElement;
+          const targetPlatform = (checkedTargetRadio?.value ||
+            currentPlatform) as BranchTargetPlatform;
+
           resolve({
+            targetPlatform,
             connectionType: selectedType.value,
             formatType,
             messageLength: finalMessageLength,
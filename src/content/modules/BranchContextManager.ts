@@ -2,7 +2,7 @@
  * BranchContextManager - Handles branch creation with context
  *
  * This module manages the creation of branch contexts by:
- * - Extracting recent messages from the current chat
+ * - Extracting recent messages from the current chat (or an archived copy)
  * - Getting selected text (if any)
  * - Generating formatted context for branching using modular formatters
  * - Copying context to clipboard
@@ -10,11 +10,15 @@
  */
 
 import { PlatformFactory } from "../../platforms/factory";
-import type { Platform, ConnectionType } from "../../types";
+import type { Platform, ConnectionType, PlatformId } from "../../types";
 import type { Message } from "./context/ContextFormatter";
 import { HybridFormatter } from "./context/formatters/HybridFormatter";
 import { ConversationFormatter } from "./context/formatters/ConversationFormatter";
 import { SummaryFormatter } from "./context/formatters/SummaryFormatter";
+import {
+  MergeFormatter,
+  type MergeSource,
+} from "./context/formatters/MergeFormatter";
 import type { ContextFormatter } from "./context/ContextFormatter";
 import { LLMConfigManager } from "./context/llm/LLMConfigManager";
 
@@ -27,15 +31,17 @@ export interface BranchContextOptions {
   customConnectionType?: string; // Custom connection type label if connectionType is 'custom'
   customPrompt?: string; // Custom summarization prompt (optional)
   progressCallback?: (message: string) => void; // Progress update callback
+  archivedMessages?: Message[]; // Use these instead of reading the current page
+  nodeSummary?: string; // Saved summary of the parent node, reused instead of re-summarizing
 }
 
 export class BranchContextManager {
-  private platform: "chatgpt" | "gemini" | "claude" | "perplexity";
+  private platform: PlatformId;
   private platformInstance: Platform;
   private formatters: Map<string, ContextFormatter>;
   private worker: Worker | null = null;
 
-  constructor(platform: "chatgpt" | "gemini" | "claude" | "perplexity") {
+  constructor(platform: PlatformId) {
     this.platform = platform;
 
     // Get platform instance using factory
@@ -148,14 +154,21 @@ export class BranchContextManager {
         customConnectionType,
         customPrompt,
         progressCallback,
+        archivedMessages,
+        nodeSummary,
       } = options;
 
       // Get all messages from the current chat with memory limits
       if (progressCallback)
-        progressCallback("Extracting messages from conversation...");
+        progressCallback(
+          archivedMessages
+            ? "Loading archived conversation..."
+            : "Extracting messages from conversation..."
+        );
       
       // Stream message processing with memory limits
-      const allMessages = this.platformInstance.extractMessages();
+      const allMessages =
+        archivedMessages ?? this.platformInstance.extractMessages();
       
       // Memory limit: 100MB worth of text (rough estimate: ~100 chars per KB)
       const MAX_MEMORY_BYTES = 100 * 1024 * 1024;
@@ -199,7 +212,10 @@ export class BranchContextManager {
       }
 
       // Get selected text (if any)
-      const selectedText = this.platformInstance.getSelectedText() || undefined;
+      // Page selection only applies when branching from the page itself
+      const selectedText = archivedMessages
+        ? undefined
+        : this.platformInstance.getSelectedText() || undefined;
 
       // Get the appropriate formatter
       const formatter =
@@ -214,13 +230,18 @@ export class BranchContextManager {
       if (formatType === "summary" && formatter instanceof SummaryFormatter) {
         try {
           if (progressCallback)
-            progressCallback("Summarizing with Gemini AI...");
+            progressCallback(
+              nodeSummary
+                ? "Using saved summary..."
+                : "Summarizing with Gemini AI..."
+            );
           const result = await formatter.formatAsync(messages, {
             parentTitle,
             selectedText,
             connectionType,
             messageLength,
             messageCount,
+            nodeSummary,
             customPrompt,
           });
           context = result.context;
@@ -238,6 +259,7 @@ export class BranchContextManager {
               connectionType,
               messageLength,
               messageCount,
+              nodeSummary,
               customPrompt,
             });
             context = result.context;
@@ -251,6 +273,7 @@ export class BranchContextManager {
               connectionType,
               messageLength,
               messageCount,
+              nodeSummary,
             });
           }
         }
@@ -266,6 +289,7 @@ export class BranchContextManager {
             connectionType,
             messageLength,
             messageCount,
+            nodeSummary,
           });
         } catch (workerError) {
           // Fallback to main thread if worker fails
@@ -276,6 +300,7 @@ export class BranchContextManager {
             connectionType,
             messageLength,
             messageCount,
+            nodeSummary,
           });
         }
       }
@@ -306,11 +331,82 @@ export class BranchContextManager {
   }
 
   /**
-   * Open a new chat in the current platform
+   * Build a consolidated context from several branches and copy it to clipboard
+   */
+  async createMergeContext(
+    sources: MergeSource[],
+    treeName?: string
+  ): Promise<{
+    success: boolean;
+    context: string;
+    error?: string;
+  }> {
+    try {
+      const context = new MergeFormatter().formatSources(sources, {
+        treeName,
+      });
+
+      const copied = await this.platformInstance.copyToClipboard(context);
+      if (!copied) {
+        return {
+          success: false,
+          context,
+          error: "Failed to copy to clipboard. The page may not have focus. Please click on the page and try again.",
+        };
+      }
+      return { success: true, context };
+    } catch (error) {
+      console.error("Error creating merge context:", error);
+      return {
+        success: false,
+        context: "",
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Open a new chat in the current platform, or in targetPlatform if given
    * If context is provided, it will be automatically pasted into the new chat
+   *
+   * Cross-site branches are handed to the background script, which stores the
+   * context in chrome.storage.session before opening the target in a new tab.
    */
-  openNewChat(context?: string, parentNodeId?: string, parentTreeId?: string): void {
-    this.platformInstance.openNewChat(context, parentNodeId, parentTreeId);
+  openNewChat(
+    context?: string,
+    parentNodeId?: string,
+    parentTreeId?: string,
+    targetPlatform?: PlatformId
+  ): void {
+    const target =
+      (targetPlatform && PlatformFactory.getPlatformByName(targetPlatform)) ||
+      this.platformInstance;
+
+    if (target === this.platformInstance || !context) {
+      target.openNewChat(context, parentNodeId, parentTreeId);
+      return;
+    }
+
+    chrome.runtime.sendMessage(
+      {
+        action: "open-branch-target",
+        payload: {
+          context,
+          parentNodeId: parentNodeId || null,
+          parentTreeId: parentTreeId || null,
+          targetPlatform: target.name,
+          newChatUrl: target.getNewChatUrl(),
+        },
+      },
+      (response) => {
+        if (chrome.runtime.lastError || !response?.success) {
+          console.warn(
+            "🌳 Arbor: Background handoff failed, opening target in this tab"
+          );
+          target.openNewChat(context, parentNodeId, parentTreeId);
+        }
+      }
+    );
   }
 
   /**
@@ -0,0 +1,344 @@
+/**
+ * BulkImportDialog - Dialog for adding many of the provider's existing chats to a tree at once
+ */
+
+import type { ChatTree } from "../../types";
+import type { AvailableChat } from "./ChatDetector";
+import { getPlatformEmoji } from "../platformDetector";
+
+export interface BulkImportResult {
+  chats: AvailableChat[];
+  parentNodeId: string;
+}
+
+export interface BulkImportSource {
+  // Untracked chats currently in the provider's sidebar
+  chats: AvailableChat[];
+  // Scroll the sidebar for older chats; resolves to the updated list and
+  // whether anything new turned up
+  loadMore: () => Promise<{ chats: AvailableChat[]; loaded: boolean }>;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class BulkImportDialog {
+  /**
+   * Show the dialog and return the checked chats and the parent to add them under
+   * Returns null if the user cancels
+   */
+  static show(
+    tree: ChatTree,
+    source: BulkImportSource,
+    defaultParentId: string = tree.rootNodeId,
+  ): Promise<BulkImportResult | null> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-bulk-import-dialog")?.remove();
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-bulk-import-dialog";
+
+      let chats = source.chats;
+      const checked = new Set<string>();
+      let loading = false;
+      let stopLoading = false;
+
+      const parentOptions = Object.values(tree.nodes)
+        .map(
+          (node) => `
+            <option value="${node.id}" ${node.id === defaultParentId ? "selected" : ""}>
+              ${getPlatformEmoji(node.platform)} ${escapeHtml(node.title)}
+            </option>`,
+        )
+        .join("");
+
+      modal.innerHTML = `
+        <div class="arbor-bulk-import-overlay" style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 560px;
+            width: 90%;
+            max-height: 85vh;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <div style="display: flex; justify-content: space-between; align-items: center;">
+              <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600;">📥 Import Chats</h2>
+              <button id="close-bulk-import" style="
+                background: none;
+                border: none;
+                color: #9caba3;
+                font-size: 24px;
+                cursor: pointer;
+                width: 32px;
+                height: 32px;
+                border-radius: 4px;
+              ">×</button>
+            </div>
+
+            <p style="color: #9caba3; margin: 0; font-size: 13px; line-height: 1.5;">
+              Tick the chats to add to "${escapeHtml(tree.name)}". Chats already in a tree aren't listed.
+            </p>
+
+            <input id="bulk-import-filter" type="text" placeholder="Filter by title..." style="
+              padding: 8px 12px;
+              background: #1c2420;
+              color: #e8efe9;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              font-size: 13px;
+            " />
+
+            <div style="display: flex; justify-content: space-between; align-items: center; gap: 10px;">
+              <label style="display: flex; align-items: center; gap: 8px; color: #9caba3; font-size: 12px; cursor: pointer;">
+                <input id="bulk-import-toggle-all" type="checkbox" />
+                <span id="bulk-import-count"></span>
+              </label>
+              <button id="bulk-import-load-more" style="
+                padding: 6px 10px;
+                background: #131917;
+                border: 1px solid #2a3530;
+                border-radius: 6px;
+                color: #e8efe9;
+                font-size: 12px;
+                cursor: pointer;
+              ">Load older chats</button>
+            </div>
+
+            <div id="bulk-import-list" style="
+              flex: 1;
+              min-height: 120px;
+              max-height: 320px;
+              overflow-y: auto;
+              display: flex;
+              flex-direction: column;
+              gap: 4px;
+            "></div>
+
+            <label style="color: #9caba3; font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; font-weight: 600;">
+              Add under
+            </label>
+            <select id="bulk-import-parent" style="
+              padding: 8px 12px;
+              background: #1c2420;
+              color: #e8efe9;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              font-size: 13px;
+            ">${parentOptions}</select>
+
+            <div style="display: flex; gap: 10px;">
+              <button id="cancel-bulk-import" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Cancel</button>
+              <button id="confirm-bulk-import" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Import</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const list = modal.querySelector("#bulk-import-list") as HTMLElement;
+      const filterInput = modal.querySelector(
+        "#bulk-import-filter",
+      ) as HTMLInputElement;
+      const toggleAll = modal.querySelector(
+        "#bulk-import-toggle-all",
+      ) as HTMLInputElement;
+      const count = modal.querySelector("#bulk-import-count") as HTMLElement;
+      const loadMoreButton = modal.querySelector(
+        "#bulk-import-load-more",
+      ) as HTMLButtonElement;
+      const parentSelect = modal.querySelector(
+        "#bulk-import-parent",
+      ) as HTMLSelectElement;
+      const confirmButton = modal.querySelector(
+        "#confirm-bulk-import",
+      ) as HTMLButtonElement;
+
+      const getVisible = () => {
+        const term = filterInput.value.trim().toLowerCase();
+        return chats.filter(
+          (chat) => !term || chat.title.toLowerCase().includes(term),
+        );
+      };
+
+      const updateCounts = () => {
+        const visible = getVisible();
+        const visibleChecked = visible.filter((chat) => checked.has(chat.url));
+
+        count.textContent = `${visible.length} chat${visible.length === 1 ? "" : "s"} · ${checked.size} selected`;
+        toggleAll.checked =
+          visible.length > 0 && visibleChecked.length === visible.length;
+        toggleAll.indeterminate =
+          visibleChecked.length > 0 && visibleChecked.length < visible.length;
+        confirmButton.textContent =
+          checked.size > 0 ? `Import ${checked.size}` : "Import";
+        confirmButton.disabled = checked.size === 0;
+        confirmButton.style.opacity = checked.size === 0 ? "0.5" : "1";
+      };
+
+      const renderList = () => {
+        const visible = getVisible();
+
+        if (visible.length === 0) {
+          list.innerHTML = `
+            <div style="padding: 20px; text-align: center; color: #6a7570; font-size: 12px;">
+              ${chats.length === 0 ? "No untracked chats in the sidebar. Try loading older chats." : "No chats match the filter."}
+            </div>`;
+          updateCounts();
+          return;
+        }
+
+        list.innerHTML = visible
+          .map(
+            (chat) => `
+            <label class="bulk-import-item" style="
+              display: flex;
+              align-items: center;
+              gap: 8px;
+              padding: 8px 10px;
+              background: #131917;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              cursor: pointer;
+            ">
+              <input type="checkbox" data-url="${escapeHtml(chat.url)}" ${checked.has(chat.url) ? "checked" : ""} />
+              <span style="color: #e8efe9; font-size: 13px; flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                ${escapeHtml(chat.title)}
+              </span>
+            </label>`,
+          )
+          .join("");
+
+        list
+          .querySelectorAll<HTMLInputElement>("input[type=checkbox]")
+          .forEach((checkbox) => {
+            checkbox.addEventListener("change", () => {
+              const url = checkbox.dataset.url!;
+              if (checkbox.checked) {
+                checked.add(url);
+              } else {
+                checked.delete(url);
+              }
+              updateCounts();
+            });
+          });
+
+        updateCounts();
+      };
+
+      filterInput.addEventListener("input", renderList);
+
+      toggleAll.addEventListener("change", () => {
+        getVisible().forEach((chat) => {
+          if (toggleAll.checked) {
+            checked.add(chat.url);
+          } else {
+            checked.delete(chat.url);
+          }
+        });
+        renderList();
+      });
+
+      // Keeps scrolling the provider's sidebar until it runs out of chats;
+      // clicking again stops
+      loadMoreButton.addEventListener("click", async () => {
+        if (loading) {
+          stopLoading = true;
+          return;
+        }
+
+        loading = true;
+        stopLoading = false;
+        loadMoreButton.textContent = "Loading… (click to stop)";
+
+        try {
+          while (!stopLoading && modal.isConnected) {
+            const result = await source.loadMore();
+            chats = result.chats;
+            renderList();
+            if (!result.loaded) break;
+          }
+        } catch (error) {
+          console.error("🌳 Arbor: Failed to load older chats:", error);
+        }
+
+        loading = false;
+        loadMoreButton.textContent = stopLoading
+          ? "Load older chats"
+          : "All chats loaded";
+      });
+
+      renderList();
+      filterInput.focus();
+
+      const closeDialog = () => {
+        stopLoading = true;
+        modal.remove();
+        resolve(null);
+      };
+
+      confirmButton.addEventListener("click", () => {
+        const selected = chats.filter((chat) => checked.has(chat.url));
+        if (selected.length === 0) return;
+
+        stopLoading = true;
+        modal.remove();
+        resolve({ chats: selected, parentNodeId: parentSelect.value });
+      });
+
+      modal
+        .querySelector("#cancel-bulk-import")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector("#close-bulk-import")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector(".arbor-bulk-import-overlay")
+        ?.addEventListener("click", (e) => {
+          if (e.target === e.currentTarget) {
+            closeDialog();
+          }
+        });
+    });
+  }
+}
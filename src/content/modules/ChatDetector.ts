@@ -1,18 +1,43 @@
 import { PlatformFactory } from "../../platforms/factory";
-import { Platform } from "../../types";
+import { Platform, PlatformId } from "../../types";
+
+// Sidebar chats seen on each platform, shared so other sites can offer them
+const KNOWN_CHATS_KEY = "arbor_known_chats";
 
 export interface AvailableChat {
   id: string;
   title: string;
   url: string;
-  platform: "chatgpt" | "gemini" | "claude" | "perplexity";
+  platform: PlatformId;
+}
+
+export interface RetitledChat extends AvailableChat {
+  // Sidebar title on the previous scan; null the first time the chat is seen
+  previousTitle: string | null;
+}
+
+/**
+ * Key identifying a chat by its URL, ignoring query strings and fragments
+ * (sidebar links and the address bar don't always agree on those)
+ */
+export function getChatKey(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname.replace(/\/$/, "")}`;
+  } catch {
+    return url;
+  }
 }
 
 export class ChatDetector {
-  private platform: "chatgpt" | "gemini" | "claude" | "perplexity";
+  private platform: PlatformId;
   private platformAdapter: Platform | null;
 
-  constructor(platform: "chatgpt" | "gemini" | "claude" | "perplexity") {
+  // Sidebar titles from the previous scan, by chat key
+  private knownTitles = new Map<string, string>();
+  private titleChangeHandler: ((chats: RetitledChat[]) => void) | null = null;
+
+  constructor(platform: PlatformId) {
     this.platform = platform;
     this.platformAdapter = PlatformFactory.getPlatformByName(platform);
   }
@@ -23,12 +48,27 @@ export class ChatDetector {
         return [];
       }
 
-      const chats = this.platformAdapter.getAllChatsFromSidebar();
+      const chats = this.platformAdapter
+        .getAllChatsFromSidebar()
+        .map((chat: { id: string; title: string; url: string }) => ({
+          ...chat,
+          platform: this.platform,
+        }));
 
-      return chats.map((chat: { id: string; title: string; url: string }) => ({
-        ...chat,
-        platform: this.platform,
-      }));
+      const retitled = chats
+        .map((chat) => ({
+          ...chat,
+          previousTitle: this.knownTitles.get(getChatKey(chat.url)) ?? null,
+        }))
+        .filter((chat) => chat.previousTitle !== chat.title);
+      retitled.forEach((chat) =>
+        this.knownTitles.set(getChatKey(chat.url), chat.title),
+      );
+      if (retitled.length > 0) {
+        this.titleChangeHandler?.(retitled);
+      }
+
+      return chats;
     } catch (error) {
       console.error(
         `🌳 Arbor [ChatDetector]: Error scanning ${this.platform} chats:`,
@@ -38,6 +78,54 @@ export class ChatDetector {
     }
   }
 
+  /**
+   * Be told about sidebar chats whose title is new since the last scan
+   * Chats seen for the first time are included, with no previous title
+   */
+  onTitleChange(handler: (chats: RetitledChat[]) => void): void {
+    this.titleChangeHandler = handler;
+  }
+
+  /**
+   * Remember this platform's sidebar chats for cross-platform linking
+   */
+  async saveKnownChats(chats: AvailableChat[]): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(KNOWN_CHATS_KEY);
+      const known: Record<string, AvailableChat[]> =
+        result[KNOWN_CHATS_KEY] || {};
+
+      // Skip the write if nothing changed (scans run every few seconds)
+      if (JSON.stringify(known[this.platform]) === JSON.stringify(chats)) {
+        return;
+      }
+
+      known[this.platform] = chats;
+      await chrome.storage.local.set({ [KNOWN_CHATS_KEY]: known });
+    } catch (error) {
+      // Silent fail - the catalog is best effort
+    }
+  }
+
+  /**
+   * Get chats seen on every platform, with this platform's live list first
+   */
+  async loadKnownChats(liveChats: AvailableChat[]): Promise<AvailableChat[]> {
+    let known: Record<string, AvailableChat[]> = {};
+    try {
+      const result = await chrome.storage.local.get(KNOWN_CHATS_KEY);
+      known = result[KNOWN_CHATS_KEY] || {};
+    } catch (error) {
+      // Fall back to the live list only
+    }
+
+    const others = Object.entries(known)
+      .filter(([platform]) => platform !== this.platform)
+      .flatMap(([, chats]) => chats);
+
+    return [...liveChats, ...others];
+  }
+
   detectCurrentChat(): { url: string; title: string } | null {
     if (!this.platformAdapter) return null;
 
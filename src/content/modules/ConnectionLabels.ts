@@ -1,5 +1,6 @@
 import type { ChatTree, ChatNode, ConnectionType } from "../../types";
 import { db } from "../db";
+import { TreeHistory } from "../../storage/treeHistory";
 import { ConnectionLabelDialog } from "./ConnectionLabelDialog";
 
 export class ConnectionLabelsManager {
@@ -25,9 +26,16 @@ export class ConnectionLabelsManager {
 
     if (!label) return;
 
+    const before = TreeHistory.snapshot(tree);
     childNode.connectionLabel = label as ConnectionType;
+    const after = TreeHistory.snapshot(tree);
     await db.saveTree(tree);
     await db.saveNode(childNode, treeId);
+    await TreeHistory.recordTreeChange(
+      `Label "${childNode.title}" as ${label}`,
+      before,
+      after
+    );
 
     onSuccess(parentNode.title, childNode.title);
   }
@@ -0,0 +1,325 @@
+/**
+ * CrossPlatformChatPicker - Dialog for attaching a chat from any platform to a tree
+ */
+
+import type { ChatTree } from "../../types";
+import type { AvailableChat } from "./ChatDetector";
+import { PlatformFactory } from "../../platforms/factory";
+import { getPlatformEmoji, getPlatformName } from "../platformDetector";
+
+export interface ChatPickerResult {
+  chat: AvailableChat;
+  parentNodeId: string;
+}
+
+type PlatformName = AvailableChat["platform"];
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class CrossPlatformChatPicker {
+  /**
+   * Show the picker and return the chosen chat and parent node
+   * Returns null if the user cancels
+   */
+  static show(
+    tree: ChatTree,
+    chats: AvailableChat[],
+    defaultParentId: string = tree.rootNodeId,
+  ): Promise<ChatPickerResult | null> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-chat-picker-dialog")?.remove();
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-chat-picker-dialog";
+
+      let activePlatform: PlatformName | "all" = "all";
+      let selectedUrl: string | null = null;
+
+      const parentOptions = Object.values(tree.nodes)
+        .map(
+          (node) => `
+            <option value="${node.id}" ${node.id === defaultParentId ? "selected" : ""}>
+              ${getPlatformEmoji(node.platform)} ${escapeHtml(node.title)}
+            </option>`,
+        )
+        .join("");
+
+      modal.innerHTML = `
+        <div class="arbor-picker-overlay" style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 520px;
+            width: 90%;
+            max-height: 85vh;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <div style="display: flex; justify-content: space-between; align-items: center;">
+              <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600;">🔗 Attach Chat</h2>
+              <button id="close-chat-picker" style="
+                background: none;
+                border: none;
+                color: #9caba3;
+                font-size: 24px;
+                cursor: pointer;
+                width: 32px;
+                height: 32px;
+                border-radius: 4px;
+              ">×</button>
+            </div>
+
+            <p style="color: #9caba3; margin: 0; font-size: 13px; line-height: 1.5;">
+              Pick a chat from any platform you've visited with Arbor, or paste a conversation link.
+            </p>
+
+            <div id="chat-picker-platforms" style="display: flex; gap: 6px; flex-wrap: wrap;">
+              ${["all", ...PlatformFactory.getAllPlatforms().map((p) => p.name)]
+                .map(
+                  (platform) => `
+                <button class="chat-picker-platform" data-platform="${platform}" style="
+                  padding: 6px 10px;
+                  background: ${platform === "all" ? "#1c2420" : "#131917"};
+                  border: 1px solid ${platform === "all" ? "#2dd4a7" : "#2a3530"};
+                  border-radius: 6px;
+                  color: #e8efe9;
+                  font-size: 12px;
+                  cursor: pointer;
+                ">${
+                  platform === "all"
+                    ? "All"
+                    : `${getPlatformEmoji(platform as PlatformName)} ${getPlatformName(platform as PlatformName)}`
+                }</button>`,
+                )
+                .join("")}
+            </div>
+
+            <input id="chat-picker-search" type="text" placeholder="Search chats..." style="
+              padding: 8px 12px;
+              background: #1c2420;
+              color: #e8efe9;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              font-size: 13px;
+            " />
+
+            <div id="chat-picker-list" style="
+              flex: 1;
+              min-height: 120px;
+              max-height: 280px;
+              overflow-y: auto;
+              display: flex;
+              flex-direction: column;
+              gap: 4px;
+            "></div>
+
+            <input id="chat-picker-url" type="text" placeholder="…or paste a chat URL from any supported platform" style="
+              padding: 8px 12px;
+              background: #1c2420;
+              color: #e8efe9;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              font-size: 13px;
+            " />
+
+            <label style="color: #9caba3; font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; font-weight: 600;">
+              Attach under
+            </label>
+            <select id="chat-picker-parent" style="
+              padding: 8px 12px;
+              background: #1c2420;
+              color: #e8efe9;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              font-size: 13px;
+            ">${parentOptions}</select>
+
+            <div style="display: flex; gap: 10px;">
+              <button id="cancel-chat-picker" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Cancel</button>
+              <button id="confirm-chat-picker" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Attach</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const list = modal.querySelector("#chat-picker-list") as HTMLElement;
+      const searchInput = modal.querySelector(
+        "#chat-picker-search",
+      ) as HTMLInputElement;
+      const urlInput = modal.querySelector(
+        "#chat-picker-url",
+      ) as HTMLInputElement;
+      const parentSelect = modal.querySelector(
+        "#chat-picker-parent",
+      ) as HTMLSelectElement;
+
+      const renderList = () => {
+        const term = searchInput.value.trim().toLowerCase();
+        const visible = chats.filter(
+          (chat) =>
+            (activePlatform === "all" || chat.platform === activePlatform) &&
+            (!term || chat.title.toLowerCase().includes(term)),
+        );
+
+        if (visible.length === 0) {
+          list.innerHTML = `
+            <div style="padding: 20px; text-align: center; color: #6a7570; font-size: 12px;">
+              No chats found. Open a platform with Arbor once to make its chats available here.
+            </div>`;
+          return;
+        }
+
+        list.innerHTML = visible
+          .map(
+            (chat) => `
+            <div class="chat-picker-item" data-url="${escapeHtml(chat.url)}" style="
+              display: flex;
+              align-items: center;
+              gap: 8px;
+              padding: 8px 10px;
+              background: ${chat.url === selectedUrl ? "#1c2420" : "#131917"};
+              border: 1px solid ${chat.url === selectedUrl ? "#2dd4a7" : "#2a3530"};
+              border-radius: 6px;
+              cursor: pointer;
+            ">
+              <span title="${getPlatformName(chat.platform)}">${getPlatformEmoji(chat.platform)}</span>
+              <span style="color: #e8efe9; font-size: 13px; flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                ${escapeHtml(chat.title)}
+              </span>
+            </div>`,
+          )
+          .join("");
+
+        list.querySelectorAll(".chat-picker-item").forEach((item) => {
+          item.addEventListener("click", () => {
+            selectedUrl = (item as HTMLElement).dataset.url || null;
+            urlInput.value = "";
+            renderList();
+          });
+        });
+      };
+
+      modal.querySelectorAll(".chat-picker-platform").forEach((button) => {
+        button.addEventListener("click", () => {
+          activePlatform = (button as HTMLElement).dataset.platform as
+            | PlatformName
+            | "all";
+          modal.querySelectorAll(".chat-picker-platform").forEach((other) => {
+            const isActive = other === button;
+            (other as HTMLElement).style.background = isActive
+              ? "#1c2420"
+              : "#131917";
+            (other as HTMLElement).style.borderColor = isActive
+              ? "#2dd4a7"
+              : "#2a3530";
+          });
+          renderList();
+        });
+      });
+
+      searchInput.addEventListener("input", renderList);
+      urlInput.addEventListener("input", () => {
+        if (urlInput.value.trim()) {
+          selectedUrl = null;
+          renderList();
+        }
+      });
+
+      renderList();
+      searchInput.focus();
+
+      const closeDialog = () => {
+        modal.remove();
+        resolve(null);
+      };
+
+      modal
+        .querySelector("#confirm-chat-picker")
+        ?.addEventListener("click", () => {
+          let chat: AvailableChat | undefined;
+
+          const pastedUrl = urlInput.value.trim();
+          if (pastedUrl) {
+            const platform = PlatformFactory.getPlatformForUrl(pastedUrl);
+            if (!platform) {
+              alert(
+                "That link isn't a conversation on a supported platform.",
+              );
+              return;
+            }
+            chat = chats.find((c) => c.url === pastedUrl) || {
+              id: pastedUrl,
+              title: `${getPlatformName(platform.name as PlatformName)} chat`,
+              url: pastedUrl,
+              platform: platform.name as PlatformName,
+            };
+          } else if (selectedUrl) {
+            chat = chats.find((c) => c.url === selectedUrl);
+          }
+
+          if (!chat) {
+            alert("Select a chat or paste a conversation link.");
+            return;
+          }
+
+          modal.remove();
+          resolve({ chat, parentNodeId: parentSelect.value });
+        });
+
+      modal
+        .querySelector("#cancel-chat-picker")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector("#close-chat-picker")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector(".arbor-picker-overlay")
+        ?.addEventListener("click", (e) => {
+          if (e.target === e.currentTarget) {
+            closeDialog();
+          }
+        });
+    });
+  }
+}
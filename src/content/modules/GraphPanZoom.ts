@@ -372,6 +372,17 @@ export class GraphPanZoom {
     this.applyTransform();
   }
 
+  /**
+   * Pan so that a point in graph content coordinates sits in the middle of the canvas
+   */
+  centerOn(x: number, y: number) {
+    if (!this.canvas) return;
+
+    this.panX = this.canvas.clientWidth / 2 - x * this.scale;
+    this.panY = this.canvas.clientHeight / 2 - y * this.scale;
+    this.applyTransform();
+  }
+
   /**
    * Get current zoom scale
    */
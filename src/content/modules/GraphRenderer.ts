@@ -1,4 +1,15 @@
-import type { ChatTree, ChatNode } from "../../types";
+import type { ChatTree, ChatNode, TagFilter } from "../../types";
+import { getPlatformEmoji, getPlatformName } from "../platformDetector";
+import { getTagFilterVisibility } from "../../utils/tags";
+import { TreeHistory } from "../../storage/treeHistory";
+import type { ManualPositionsRecord } from "../../storage/treeArchive";
+
+// Chips shown on a graph node before collapsing the rest into "+N"
+const MAX_NODE_TAGS = 3;
+const TAG_ROW_HEIGHT = 22;
+
+// Hover delay before a node's summary card appears
+const HOVER_CARD_DELAY_MS = 350;
 
 // Simple LRU Cache implementation
 class LRUCache<K, V> {
@@ -48,6 +59,19 @@ export class GraphRenderer {
   private manualPositions: Map<string, { x: number; y: number }> = new Map();
   private isLayoutManual: boolean = false;
   private graphPanZoom: any = null;
+  private tagFilter: TagFilter | null = null;
+
+  // Summary hover card (read from the last rendered tree on hover)
+  private renderedTree: ChatTree | null = null;
+  private hoverCard: HTMLElement | null = null;
+  private hoverTimer: number | null = null;
+
+  // Multi-select (shift/ctrl/cmd-click), enabled by setSelectionHandler
+  private selectedNodeIds: Set<string> = new Set();
+  private onSelectionChange: ((nodeIds: string[]) => void) | null = null;
+
+  // Auto-organize diff preview: changed node ID -> what changed
+  private previewChanges: Map<string, string> | null = null;
 
   // Differential rendering state
   private renderedNodes: Set<string> = new Set();
@@ -93,6 +117,9 @@ export class GraphRenderer {
   }
 
   async setCurrentTree(treeId: string | null) {
+    if (treeId !== this.currentTreeId) {
+      this.clearSelection();
+    }
     this.currentTreeId = treeId;
 
     // Load manual positions for this tree
@@ -110,6 +137,126 @@ export class GraphRenderer {
     this.currentNodeId = nodeId;
   }
 
+  setTagFilter(filter: TagFilter | null) {
+    this.tagFilter = filter;
+  }
+
+  /**
+   * Mark the tree being rendered as a proposal: changed nodes are
+   * highlighted and the graph is read-only until the preview is cleared
+   */
+  setPreview(changes: Map<string, string> | null) {
+    this.previewChanges = changes;
+  }
+
+  setSelectionHandler(handler: ((nodeIds: string[]) => void) | null) {
+    this.onSelectionChange = handler;
+  }
+
+  /**
+   * Selected node IDs, in the order they were selected
+   */
+  getSelectedNodes(): string[] {
+    return Array.from(this.selectedNodeIds);
+  }
+
+  clearSelection() {
+    if (this.selectedNodeIds.size === 0) return;
+    this.selectedNodeIds.clear();
+    document
+      .querySelectorAll(".graph-node.selected")
+      .forEach((nodeEl) => nodeEl.classList.remove("selected"));
+    this.onSelectionChange?.([]);
+  }
+
+  private toggleSelection(nodeId: string, nodeEl: HTMLElement) {
+    if (this.selectedNodeIds.has(nodeId)) {
+      this.selectedNodeIds.delete(nodeId);
+    } else {
+      this.selectedNodeIds.add(nodeId);
+    }
+    nodeEl.classList.toggle("selected", this.selectedNodeIds.has(nodeId));
+    this.onSelectionChange?.(this.getSelectedNodes());
+  }
+
+  /**
+   * Re-apply selection classes after a render, dropping deleted nodes
+   */
+  private applySelection(tree: ChatTree, container: HTMLElement) {
+    const before = this.selectedNodeIds.size;
+    this.selectedNodeIds.forEach((nodeId) => {
+      if (!tree.nodes[nodeId]) this.selectedNodeIds.delete(nodeId);
+    });
+
+    container.querySelectorAll<HTMLElement>(".graph-node").forEach((nodeEl) => {
+      nodeEl.classList.toggle(
+        "selected",
+        this.selectedNodeIds.has(nodeEl.dataset.nodeId || ""),
+      );
+    });
+
+    if (this.selectedNodeIds.size !== before) {
+      this.onSelectionChange?.(this.getSelectedNodes());
+    }
+  }
+
+  /**
+   * Dim or hide nodes (and their incoming connections) outside the tag filter
+   */
+  private applyTagFilter(tree: ChatTree, container: HTMLElement) {
+    const result = getTagFilterVisibility(tree, this.tagFilter);
+    const mode = this.tagFilter?.mode;
+
+    const classify = (nodeId: string | undefined) => {
+      if (!result || !nodeId) return { dimmed: false, hidden: false };
+      const hidden = mode === "hide" && !result.visible.has(nodeId);
+      return { dimmed: !hidden && !result.matching.has(nodeId), hidden };
+    };
+
+    container.querySelectorAll<HTMLElement>(".graph-node").forEach((nodeEl) => {
+      const { dimmed, hidden } = classify(nodeEl.dataset.nodeId);
+      nodeEl.classList.toggle("tag-dimmed", dimmed);
+      nodeEl.classList.toggle("tag-hidden", hidden);
+    });
+
+    container
+      .querySelectorAll<SVGPathElement>("path.connection-path")
+      .forEach((path) => {
+        const { dimmed, hidden } = classify(path.dataset.childNodeId);
+        path.classList.toggle("tag-dimmed", dimmed);
+        path.classList.toggle("tag-hidden", hidden);
+      });
+
+    container
+      .querySelectorAll<HTMLElement>(".connection-label")
+      .forEach((label) => {
+        const { dimmed, hidden } = classify(label.dataset.childNodeId);
+        label.classList.toggle("tag-dimmed", dimmed);
+        label.classList.toggle("tag-hidden", hidden);
+      });
+  }
+
+  /**
+   * Center the view on a rendered node and briefly highlight it
+   */
+  focusNode(nodeId: string, containerId: string = "graph-content"): boolean {
+    const container = document.getElementById(containerId);
+    const nodeEl = container?.querySelector(
+      `.graph-node[data-node-id="${nodeId}"]`,
+    ) as HTMLElement | null;
+    if (!nodeEl) return false;
+
+    const x = parseFloat(nodeEl.style.left || "0") + nodeEl.offsetWidth / 2;
+    const y = parseFloat(nodeEl.style.top || "0") + nodeEl.offsetHeight / 2;
+    this.graphPanZoom?.centerOn(x, y);
+
+    nodeEl.classList.remove("search-hit");
+    void nodeEl.offsetWidth; // Restart the animation
+    nodeEl.classList.add("search-hit");
+    setTimeout(() => nodeEl.classList.remove("search-hit"), 1600);
+    return true;
+  }
+
   private async loadManualPositions(treeId: string): Promise<void> {
     try {
       const result = await chrome.storage.local.get(
@@ -139,21 +286,32 @@ export class GraphRenderer {
     }
   }
 
+  /**
+   * Current manual layout as stored, or null when the layout is automatic
+   */
+  private getManualLayout(): ManualPositionsRecord | null {
+    if (!this.isLayoutManual && this.manualPositions.size === 0) {
+      return null;
+    }
+
+    const positionsObj: Record<string, { x: number; y: number }> = {};
+    this.manualPositions.forEach((pos, nodeId) => {
+      positionsObj[nodeId] = { ...pos };
+    });
+
+    return {
+      positions: positionsObj,
+      isManual: this.isLayoutManual,
+      timestamp: Date.now(),
+    };
+  }
+
   private async saveManualPositions(): Promise<void> {
     if (!this.currentTreeId) return;
 
     try {
-      const positionsObj: Record<string, { x: number; y: number }> = {};
-      this.manualPositions.forEach((pos, nodeId) => {
-        positionsObj[nodeId] = pos;
-      });
-
       await chrome.storage.local.set({
-        [`manualPositions_${this.currentTreeId}`]: {
-          positions: positionsObj,
-          isManual: this.isLayoutManual,
-          timestamp: Date.now(),
-        },
+        [`manualPositions_${this.currentTreeId}`]: this.getManualLayout(),
       });
     } catch (error) {
       console.error("Failed to save manual positions:", error);
@@ -161,6 +319,7 @@ export class GraphRenderer {
   }
 
   async resetToAutoLayout() {
+    const layoutBefore = this.getManualLayout();
     this.manualPositions.clear();
     this.isLayoutManual = false;
 
@@ -172,6 +331,14 @@ export class GraphRenderer {
       await chrome.storage.local.remove(
         `manualPositions_${this.currentTreeId}`,
       );
+      if (layoutBefore) {
+        await TreeHistory.record(
+          "Reset layout",
+          this.currentTreeId,
+          { layout: layoutBefore },
+          { layout: null },
+        );
+      }
     }
 
     // Re-render with auto layout
@@ -186,6 +353,67 @@ export class GraphRenderer {
     }
   }
 
+  private scheduleHoverCard(nodeEl: HTMLElement, nodeId: string) {
+    this.hideHoverCard();
+    this.hoverTimer = window.setTimeout(() => {
+      this.hoverTimer = null;
+      const node = this.renderedTree?.nodes[nodeId];
+      if (!node || !nodeEl.isConnected) return;
+      if (!node.summary && !this.previewChanges?.has(nodeId)) return;
+      if (nodeEl.classList.contains("dragging")) return;
+      this.showHoverCard(nodeEl, node);
+    }, HOVER_CARD_DELAY_MS);
+  }
+
+  private showHoverCard(nodeEl: HTMLElement, node: ChatNode) {
+    if (!this.hoverCard) {
+      this.hoverCard = document.createElement("div");
+      this.hoverCard.className = "graph-node-hovercard";
+      this.hoverCard.innerHTML = `
+        <div class="graph-node-hovercard-title"></div>
+        <div class="graph-node-hovercard-summary"></div>
+      `;
+      document.body.appendChild(this.hoverCard);
+    }
+
+    const card = this.hoverCard;
+    const titleEl = card.querySelector(
+      ".graph-node-hovercard-title",
+    ) as HTMLElement;
+    const summaryEl = card.querySelector(
+      ".graph-node-hovercard-summary",
+    ) as HTMLElement;
+    titleEl.textContent = node.title;
+    summaryEl.textContent =
+      this.previewChanges?.get(node.id) || node.summary || "";
+    card.hidden = false;
+
+    // Below the node, or above it when there's no room at the bottom
+    const rect = nodeEl.getBoundingClientRect();
+    const cardRect = card.getBoundingClientRect();
+    const margin = 8;
+    const left = Math.min(
+      Math.max(margin, rect.left + rect.width / 2 - cardRect.width / 2),
+      window.innerWidth - cardRect.width - margin,
+    );
+    const top =
+      rect.bottom + margin + cardRect.height > window.innerHeight
+        ? rect.top - margin - cardRect.height
+        : rect.bottom + margin;
+    card.style.left = `${left}px`;
+    card.style.top = `${Math.max(margin, top)}px`;
+  }
+
+  private hideHoverCard() {
+    if (this.hoverTimer !== null) {
+      clearTimeout(this.hoverTimer);
+      this.hoverTimer = null;
+    }
+    if (this.hoverCard) {
+      this.hoverCard.hidden = true;
+    }
+  }
+
   private showResetButton() {
     const resetBtn = document.getElementById("reset-layout-btn");
     if (resetBtn) {
@@ -262,10 +490,12 @@ export class GraphRenderer {
     let startY = 0;
     let initialLeft = 0;
     let initialTop = 0;
+    let layoutBefore: ManualPositionsRecord | null = null;
 
     const onMouseDown = (e: MouseEvent) => {
       // Don't drag if clicking on interactive elements
       if ((e.target as HTMLElement).closest("button")) return;
+      if (this.previewChanges) return;
 
       state.isDragging = true;
       state.hasMoved = false;
@@ -273,6 +503,7 @@ export class GraphRenderer {
       startY = e.clientY;
       initialLeft = parseFloat(nodeEl.style.left || "0");
       initialTop = parseFloat(nodeEl.style.top || "0");
+      layoutBefore = this.getManualLayout();
 
       nodeEl.style.cursor = "grabbing";
       nodeEl.classList.add("dragging");
@@ -338,6 +569,14 @@ export class GraphRenderer {
 
         // Save to storage
         await this.saveManualPositions();
+        if (this.currentTreeId) {
+          await TreeHistory.record(
+            `Move "${tree.nodes[nodeId]?.title || "node"}"`,
+            this.currentTreeId,
+            { layout: layoutBefore },
+            { layout: this.getManualLayout() },
+          );
+        }
 
         // Final connection update
         this.updateConnectionsForNode(tree, nodeId);
@@ -371,6 +610,8 @@ export class GraphRenderer {
     const container = document.getElementById(containerId);
     if (!container) return;
 
+    this.renderedTree = tree;
+
     // Calculate hash to detect if tree actually changed
     const treeHash = this.calculateTreeHash(tree);
     const fullRender = this.lastTreeHash !== treeHash;
@@ -413,6 +654,38 @@ export class GraphRenderer {
     if (fullRender) {
       this.cleanupRemovedElements(tree, container);
     }
+
+    this.applyTagFilter(tree, container);
+    this.applySelection(tree, container);
+    this.applyPreview(container);
+  }
+
+  /**
+   * Highlight nodes (and their incoming connections) a preview changes
+   */
+  private applyPreview(container: HTMLElement) {
+    const changes = this.previewChanges;
+    container.classList.toggle("organize-preview", !!changes);
+
+    container.querySelectorAll<HTMLElement>(".graph-node").forEach((nodeEl) => {
+      const change = changes?.get(nodeEl.dataset.nodeId || "");
+      nodeEl.classList.toggle("organize-changed", !!change);
+      if (change) {
+        nodeEl.dataset.organizeChange = change;
+      } else {
+        delete nodeEl.dataset.organizeChange;
+      }
+    });
+
+    container
+      .querySelectorAll<Element>("path.connection-path, .connection-label")
+      .forEach((el) => {
+        const childNodeId = (el as HTMLElement | SVGElement).dataset.childNodeId;
+        el.classList.toggle(
+          "organize-changed",
+          !!changes && changes.has(childNodeId || ""),
+        );
+      });
   }
 
   private calculateTreeHash(tree: ChatTree): string {
@@ -421,7 +694,7 @@ export class GraphRenderer {
     const structure = nodeIds
       .map((id) => {
         const node = tree.nodes[id];
-        return `${id}:${node.parentId || "root"}:${node.children.join(",")}:${node.title}:${node.customEmoji || ""}`;
+        return `${id}:${node.parentId || "root"}:${node.children.join(",")}:${node.title}:${node.customEmoji || ""}:${(node.tags || []).join(",")}:${node.connectionLabel || ""}`;
       })
       .join("|");
     return structure;
@@ -484,7 +757,8 @@ export class GraphRenderer {
 
   private getNodeSize(node: ChatNode): { width: number; height: number } {
     // Create cache key
-    const cacheKey = `${GraphRenderer.FONT}:${node.title}`;
+    const hasTags = (node.tags || []).length > 0;
+    const cacheKey = `${GraphRenderer.FONT}:${hasTags ? "tags:" : ""}${node.title}`;
 
     // Check cache first
     const cached = GraphRenderer.measurementCache.get(cacheKey);
@@ -515,7 +789,10 @@ export class GraphRenderer {
     const wrappedLines = Math.ceil(titleWidth / (neededWidth - padding));
     const height = baseHeight + (wrappedLines - 1) * 20;
 
-    const size = { width: neededWidth, height: Math.max(64, height) };
+    const size = {
+      width: neededWidth,
+      height: Math.max(64, height) + (hasTags ? TAG_ROW_HEIGHT : 0),
+    };
 
     // Cache the result
     GraphRenderer.measurementCache.set(cacheKey, size);
@@ -530,7 +807,12 @@ export class GraphRenderer {
     const autoPositions = this.calculateAutoLayout(tree);
 
     // If manual positions exist, overlay them on top of auto-layout
-    if (this.isLayoutManual && this.manualPositions.size > 0) {
+    // (not for previews, whose structure the saved positions don't fit)
+    if (
+      this.isLayoutManual &&
+      this.manualPositions.size > 0 &&
+      !this.previewChanges
+    ) {
       const positions: Record<string, { x: number; y: number }> = {
         ...autoPositions,
       };
@@ -786,6 +1068,7 @@ export class GraphRenderer {
 
       path.addEventListener("click", async (e) => {
         e.stopPropagation();
+        if (this.previewChanges) return;
         await this.onConnectionLabelClick(node.id, node.parentId!);
       });
 
@@ -810,6 +1093,72 @@ export class GraphRenderer {
         }
       });
     }
+
+    this.renderExtraConnections(tree, positions, svg, nodeSizes);
+  }
+
+  /**
+   * Draw tree.connections (links beyond the parent/child hierarchy, e.g. the
+   * extra parents of a merged chat) as dashed curves
+   * These are few, so they're simply redrawn on every pass
+   */
+  private renderExtraConnections(
+    tree: ChatTree,
+    positions: Record<string, { x: number; y: number }>,
+    svg: SVGSVGElement,
+    nodeSizes: Map<string, { width: number; height: number }>,
+  ) {
+    svg
+      .querySelectorAll("path.extra-connection-path")
+      .forEach((path) => path.remove());
+
+    (tree.connections || []).forEach((connection) => {
+      const fromPos = positions[connection.fromNodeId];
+      const toPos = positions[connection.toNodeId];
+      if (!fromPos || !toPos) return;
+
+      const fromSize = nodeSizes.get(connection.fromNodeId) || {
+        width: 180,
+        height: 64,
+      };
+      const toSize = nodeSizes.get(connection.toNodeId) || {
+        width: 180,
+        height: 64,
+      };
+
+      const startX = fromPos.x;
+      const startY = fromPos.y + fromSize.height / 2;
+      const endX = toPos.x;
+      const endY = toPos.y - toSize.height / 2;
+      const controlOffset = (endY - startY) * 0.4;
+
+      const path = document.createElementNS(
+        "http://www.w3.org/2000/svg",
+        "path",
+      );
+      path.setAttribute(
+        "d",
+        `M ${startX},${startY} C ${startX},${startY + controlOffset} ${endX},${endY - controlOffset} ${endX},${endY}`,
+      );
+      path.setAttribute("stroke", connection.color || "#6d665c");
+      path.setAttribute("stroke-width", "1.5");
+      path.setAttribute("stroke-dasharray", "5 4");
+      path.setAttribute("fill", "none");
+      path.setAttribute("marker-end", "url(#arrow-default)");
+      path.classList.add("connection-path", "extra-connection-path");
+      path.style.pointerEvents = "stroke";
+      path.dataset.childNodeId = connection.toNodeId;
+      path.dataset.parentNodeId = connection.fromNodeId;
+
+      const title = document.createElementNS(
+        "http://www.w3.org/2000/svg",
+        "title",
+      );
+      title.textContent = connection.label || connection.type || "related";
+      path.appendChild(title);
+
+      svg.appendChild(path);
+    });
   }
 
   private getNodeLevel(tree: ChatTree, nodeId: string): number {
@@ -840,6 +1189,7 @@ export class GraphRenderer {
 
     const label = document.createElement("div");
     label.className = "connection-label";
+    label.dataset.childNodeId = node.id;
     label.style.cssText = `
       position: absolute;
       left: ${midX}px;
@@ -876,6 +1226,7 @@ export class GraphRenderer {
 
     label.addEventListener("click", async (e) => {
       e.stopPropagation();
+      if (this.previewChanges) return;
       await this.onConnectionLabelClick(node.id, node.parentId!);
     });
 
@@ -900,6 +1251,9 @@ export class GraphRenderer {
     };
     calculateLevel(tree.rootNodeId);
 
+    const isMultiPlatform =
+      new Set(Object.values(tree.nodes).map((node) => node.platform)).size > 1;
+
     const currentNodes = new Set<string>();
 
     Object.entries(positions).forEach(([nodeId, pos]) => {
@@ -963,9 +1317,36 @@ export class GraphRenderer {
       // Root node gets amber accent dot
       const rootAccent = isRoot ? '<div class="root-accent-dot"></div>' : "";
 
+      // Platform badge when the tree spans more than one platform
+      const platformBadge = isMultiPlatform
+        ? `<span class="graph-node-platform-badge" title="${getPlatformName(node.platform)}">${getPlatformEmoji(node.platform)}</span>`
+        : "";
+      if (isMultiPlatform) {
+        nodeEl.dataset.platform = node.platform;
+      }
+
+      // Tag chips (first few, then a count)
+      const tags = node.tags || [];
+      const tagChips =
+        tags.length > 0
+          ? `<div class="graph-node-tags">${tags
+              .slice(0, MAX_NODE_TAGS)
+              .map(
+                (tag) =>
+                  `<span class="graph-node-tag">#${tag.replace(/</g, "&lt;")}</span>`,
+              )
+              .join("")}${
+              tags.length > MAX_NODE_TAGS
+                ? `<span class="graph-node-tag">+${tags.length - MAX_NODE_TAGS}</span>`
+                : ""
+            }</div>`
+          : "";
+
       nodeEl.innerHTML = `
         ${rootAccent}
+        ${platformBadge}
         <div class="graph-node-title">${node.title}</div>
+        ${tagChips}
       `;
 
       nodeEl.addEventListener("click", (e) => {
@@ -982,9 +1363,24 @@ export class GraphRenderer {
           return;
         }
 
+        if (this.previewChanges) return;
+
+        if ((e.shiftKey || e.metaKey || e.ctrlKey) && this.onSelectionChange) {
+          e.preventDefault();
+          e.stopPropagation();
+          this.toggleSelection(nodeId, nodeEl);
+          return;
+        }
+
         this.onNodeClick(nodeId);
       });
 
+      nodeEl.addEventListener("mouseenter", () =>
+        this.scheduleHoverCard(nodeEl, nodeId),
+      );
+      nodeEl.addEventListener("mouseleave", () => this.hideHoverCard());
+      nodeEl.addEventListener("mousedown", () => this.hideHoverCard());
+
       // Make node draggable
       this.makeDraggable(nodeEl, nodeId, tree);
 
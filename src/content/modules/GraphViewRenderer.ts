@@ -44,6 +44,14 @@ export class GraphViewRenderer {
               <circle cx="13" cy="13" r="1.5" fill="currentColor"/>
             </svg>
           </button>
+          <button id="auto-organize-btn" class="arbor-icon-btn" aria-label="Auto-organize tree" data-tooltip="Auto-organize - Let your AI provider suggest how the chats in this tree fit together">
+            <svg width="18" height="18" viewBox="0 0 18 18" fill="none">
+              <circle cx="9" cy="3.5" r="1.75" stroke="currentColor" stroke-width="1.5" fill="none"/>
+              <circle cx="4" cy="14.5" r="1.75" stroke="currentColor" stroke-width="1.5" fill="none"/>
+              <circle cx="14" cy="14.5" r="1.75" stroke="currentColor" stroke-width="1.5" fill="none"/>
+              <path d="M9 5.25V9M9 9L4 12.75M9 9l5 3.75" stroke="currentColor" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>
+            </svg>
+          </button>
           <button id="open-fullpage-graph-btn" class="arbor-icon-btn" aria-label="Open in full page" data-tooltip="Open in new window - Open the graph visualization in a separate full-page window">
             <svg width="18" height="18" viewBox="0 0 18 18" fill="none">
               <rect x="3" y="3" width="12" height="12" rx="1" stroke="currentColor" stroke-width="1.5" fill="none"/>
@@ -57,6 +65,20 @@ export class GraphViewRenderer {
           </button>
         </div>
       </div>
+      <div id="graph-selection-bar" class="arbor-graph-selection-bar" hidden>
+        <span id="graph-selection-count" class="arbor-graph-selection-count"></span>
+        <button id="merge-selected-btn" class="arbor-graph-selection-btn arbor-graph-selection-primary" data-tooltip="Merge into new chat - Consolidate the selected branches in a new chat linked to all of them">
+          📋 Merge into new chat
+        </button>
+        <button id="clear-selection-btn" class="arbor-graph-selection-btn">Clear</button>
+      </div>
+      <div id="graph-organize-bar" class="arbor-graph-selection-bar" hidden>
+        <span id="graph-organize-summary" class="arbor-graph-selection-count"></span>
+        <button id="apply-organize-btn" class="arbor-graph-selection-btn arbor-graph-selection-primary">
+          Apply
+        </button>
+        <button id="discard-organize-btn" class="arbor-graph-selection-btn">Discard</button>
+      </div>
       <div id="graph-canvas" class="arbor-graph-canvas">
         <div id="graph-content" style="position: relative; width: 2000px; height: 2000px;"></div>
       </div>
@@ -147,7 +147,13 @@ export class NodeInteractions {
       { action: "rename", icon: "✏️", label: "Rename" },
       { action: "color", icon: "🎨", label: "Change Color" },
       { action: "shape", icon: "🔷", label: "Change Shape" },
+      { action: "tags", icon: "🔖", label: "Edit Tags" },
+      { action: "summarize", icon: "✨", label: "Summarize This Node" },
+      { action: "summary", icon: "📝", label: "Edit Summary" },
       { action: "label", icon: "🏷️", label: "Edit Connection Label" },
+      { action: "attach", icon: "🔗", label: "Attach Chat (Any Platform)" },
+      { action: "branch", icon: "🌿", label: "Branch From Here" },
+      { action: "transcript", icon: "📜", label: "View Archived Transcript" },
       { action: "reset", icon: "📍", label: "Reset Position" },
       { action: "delete", icon: "❌", label: "Delete Node", color: "#ef4444" },
     ];
@@ -1,15 +1,22 @@
 import { db } from "../db";
-import type { ChatTree, ChatNode } from "../../types";
+import {
+  TreeHistory,
+  type LinkedTreeEdit,
+} from "../../storage/treeHistory";
+import { wouldCreateCycle } from "../../utils/treeIntegrity";
+import type { ChatTree, ChatNode, PlatformId } from "../../types";
+import type { OrganizeChange } from "./context/TreeOrganizer";
 
 export class NodeManager {
   async createNode(
     parentId: string | null,
     title: string,
     url: string,
-    platform: "chatgpt" | "gemini" | "claude" | "perplexity",
+    platform: PlatformId,
     tree: ChatTree,
     treeId: string,
   ): Promise<ChatNode> {
+    const before = TreeHistory.snapshot(tree);
     const nodeId = `node-${Date.now()}-${Math.random()
       .toString(36)
       .substr(2, 9)}`;
@@ -31,17 +38,65 @@ export class NodeManager {
       tree.nodes[parentId].children.push(nodeId);
     }
 
+    const after = TreeHistory.snapshot(tree);
     await db.saveTree(tree);
     await db.saveNode(node, treeId);
+    await TreeHistory.recordTreeChange(`Add "${title}"`, before, after);
 
     return node;
   }
 
+  /**
+   * Add many chats under one parent with a single tree save and history entry
+   */
+  async createNodes(
+    parentId: string,
+    chats: Array<{ title: string; url: string; platform: PlatformId }>,
+    tree: ChatTree,
+    treeId: string,
+  ): Promise<ChatNode[]> {
+    const parent = tree.nodes[parentId];
+    if (!parent || chats.length === 0) return [];
+
+    const before = TreeHistory.snapshot(tree);
+    const now = new Date().toISOString();
+
+    const nodes = chats.map((chat, index) => {
+      const node: ChatNode = {
+        id: `node-${Date.now()}-${index}-${Math.random()
+          .toString(36)
+          .substr(2, 9)}`,
+        title: chat.title,
+        url: chat.url,
+        platform: chat.platform,
+        parentId,
+        children: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      tree.nodes[node.id] = node;
+      parent.children.push(node.id);
+      return node;
+    });
+
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await Promise.all(nodes.map((node) => db.saveNode(node, treeId)));
+    await TreeHistory.recordTreeChange(
+      `Import ${nodes.length} chat${nodes.length === 1 ? "" : "s"}`,
+      before,
+      after,
+    );
+
+    return nodes;
+  }
+
   async deleteNode(
     nodeId: string,
     tree: ChatTree,
     treeId: string,
-  ): Promise<{ success: boolean; error?: string }> {
+    trees: Record<string, ChatTree> = {},
+  ): Promise<{ success: boolean; historyEntryId?: string; error?: string }> {
     const node = tree.nodes[nodeId];
     if (!node) {
       return { success: false, error: "Node not found" };
@@ -55,6 +110,8 @@ export class NodeManager {
       };
     }
 
+    const before = TreeHistory.snapshot(tree);
+
     try {
       // Recursively delete all descendants
       const deleteDescendants = async (id: string) => {
@@ -82,11 +139,31 @@ export class NodeManager {
       // Delete the node and all its descendants
       await deleteDescendants(nodeId);
 
+      // Drop extra connections that pointed at deleted nodes
+      if (tree.connections) {
+        tree.connections = tree.connections.filter(
+          (connection) =>
+            tree.nodes[connection.fromNodeId] && tree.nodes[connection.toNodeId],
+        );
+      }
+
       // Update tree timestamp
       tree.updatedAt = new Date().toISOString();
+      const after = TreeHistory.snapshot(tree);
       await db.saveTree(tree);
 
-      return { success: true };
+      const linked = await NodeManager.unlinkDeleted(
+        Object.values(before.nodes).filter((n) => !tree.nodes[n.id]),
+        trees,
+      );
+      const entry = await TreeHistory.recordTreeChange(
+        `Delete "${node.title}"`,
+        before,
+        after,
+        linked,
+      );
+
+      return { success: true, historyEntryId: entry.id };
     } catch (error) {
       console.error("Error deleting node:", error);
       return {
@@ -105,11 +182,14 @@ export class NodeManager {
     const node = tree.nodes[nodeId];
     if (!node) return;
 
+    const before = TreeHistory.snapshot(tree);
     node.customPosition = position;
     node.updatedAt = new Date().toISOString();
 
     await db.saveNode(node, treeId);
+    const after = TreeHistory.snapshot(tree);
     await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(`Move "${node.title}"`, before, after);
   }
 
   async reparentNode(
@@ -118,6 +198,87 @@ export class NodeManager {
     tree: ChatTree,
     treeId: string,
   ): Promise<boolean> {
+    const before = TreeHistory.snapshot(tree);
+    if (!this.moveNode(nodeId, newParentId, tree)) {
+      return false;
+    }
+
+    const node = tree.nodes[nodeId];
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await db.saveNode(node, treeId);
+    await TreeHistory.recordTreeChange(
+      `Move "${node.title}" under "${tree.nodes[newParentId].title}"`,
+      before,
+      after,
+    );
+
+    return true;
+  }
+
+  /**
+   * Apply an auto-organize proposal with one save and history entry
+   * Moves are checked like reparentNode; a label is only set when its move
+   * went through (or none was needed). Returns the nodes that were skipped
+   */
+  async organizeNodes(
+    changes: OrganizeChange[],
+    tree: ChatTree,
+    treeId: string,
+  ): Promise<{ moved: number; labelled: number; skipped: string[] }> {
+    const before = TreeHistory.snapshot(tree);
+    const changed = new Set<string>();
+    const skipped: string[] = [];
+    let moved = 0;
+    let labelled = 0;
+
+    for (const change of changes) {
+      const node = tree.nodes[change.nodeId];
+      if (!node) {
+        skipped.push(change.nodeId);
+        continue;
+      }
+      // Only the label changes when the parent stays the same
+      if (
+        change.toParentId !== change.fromParentId &&
+        node.parentId !== change.toParentId
+      ) {
+        if (!this.moveNode(change.nodeId, change.toParentId, tree)) {
+          skipped.push(change.nodeId);
+          continue;
+        }
+        moved++;
+      }
+      if (change.connectionLabel) {
+        node.connectionLabel = change.connectionLabel;
+        labelled++;
+      }
+      changed.add(change.nodeId);
+    }
+
+    if (changed.size > 0) {
+      const after = TreeHistory.snapshot(tree);
+      await db.saveTree(tree);
+      await Promise.all(
+        Array.from(changed).map((nodeId) =>
+          db.saveNode(tree.nodes[nodeId], treeId),
+        ),
+      );
+      await TreeHistory.recordTreeChange("Auto-organize", before, after);
+    }
+
+    return { moved, labelled, skipped };
+  }
+
+  /**
+   * Move a node under a new parent in the tree object, unless that would
+   * make a cycle or move the root
+   */
+  private moveNode(
+    nodeId: string,
+    newParentId: string,
+    tree: ChatTree,
+  ): boolean {
     const node = tree.nodes[nodeId];
     const newParent = tree.nodes[newParentId];
 
@@ -126,7 +287,7 @@ export class NodeManager {
     }
 
     // Prevent circular dependencies
-    if (this.wouldCreateCycle(nodeId, newParentId, tree)) {
+    if (wouldCreateCycle(nodeId, newParentId, tree)) {
       return false;
     }
 
@@ -144,62 +305,233 @@ export class NodeManager {
     // Add to new parent
     node.parentId = newParentId;
     newParent.children.push(nodeId);
+    return true;
+  }
 
-    await db.saveTree(tree);
-    await db.saveNode(node, treeId);
+  async renameNode(
+    nodeId: string,
+    newTitle: string,
+    tree: ChatTree,
+    treeId: string,
+  ): Promise<void> {
+    const node = tree.nodes[nodeId];
+    if (!node) return;
 
-    return true;
+    const before = TreeHistory.snapshot(tree);
+    node.title = newTitle;
+    node.titleLocked = true; // Keep it over titles the provider generates
+    node.updatedAt = new Date().toISOString();
+
+    await db.saveNode(node, treeId);
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(`Rename to "${newTitle}"`, before, after);
   }
 
-  private wouldCreateCycle(
+  async updateNodeColor(
     nodeId: string,
-    newParentId: string,
+    color: string,
     tree: ChatTree,
-  ): boolean {
-    let current = newParentId;
-    const visited = new Set<string>();
+    treeId: string,
+  ): Promise<void> {
+    const node = tree.nodes[nodeId];
+    if (!node) return;
 
-    while (current) {
-      if (current === nodeId) return true;
-      if (visited.has(current)) return false;
+    const before = TreeHistory.snapshot(tree);
+    node.color = color;
+    node.updatedAt = new Date().toISOString();
 
-      visited.add(current);
-      const node = tree.nodes[current];
-      current = node?.parentId || "";
-    }
+    await db.saveNode(node, treeId);
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Change color of "${node.title}"`,
+      before,
+      after,
+    );
+  }
+
+  async updateNodeTags(
+    nodeId: string,
+    tags: string[],
+    tree: ChatTree,
+    treeId: string,
+  ): Promise<void> {
+    const node = tree.nodes[nodeId];
+    if (!node) return;
+
+    const before = TreeHistory.snapshot(tree);
+    node.tags = tags.length > 0 ? tags : undefined;
+    node.updatedAt = new Date().toISOString();
 
-    return false;
+    await db.saveNode(node, treeId);
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Edit tags of "${node.title}"`,
+      before,
+      after,
+    );
   }
 
-  async renameNode(
+  /**
+   * Mark a node as the merge of several branches: it summarizes its tree
+   * parent (the first source) and gets a connection from each other source
+   */
+  async linkMergedNode(
     nodeId: string,
-    newTitle: string,
+    sourceNodeIds: string[],
     tree: ChatTree,
     treeId: string,
   ): Promise<void> {
     const node = tree.nodes[nodeId];
     if (!node) return;
 
-    node.title = newTitle;
+    const before = TreeHistory.snapshot(tree);
+    node.connectionLabel = "summarizes";
     node.updatedAt = new Date().toISOString();
 
+    const connections = tree.connections || [];
+    sourceNodeIds
+      .filter((sourceId) => sourceId !== node.parentId && tree.nodes[sourceId])
+      .forEach((sourceId) => {
+        connections.push({
+          fromNodeId: sourceId,
+          toNodeId: nodeId,
+          type: "summarizes",
+          label: "summarizes",
+          style: "dashed",
+        });
+      });
+    tree.connections = connections;
+    tree.updatedAt = new Date().toISOString();
+
     await db.saveNode(node, treeId);
+    const after = TreeHistory.snapshot(tree);
     await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Link "${node.title}" as a merge`,
+      before,
+      after,
+    );
   }
 
-  async updateNodeColor(
+  /**
+   * Link two chats in different trees; each node records the other, so the
+   * link shows up from either side
+   */
+  async linkAcrossTrees(
     nodeId: string,
-    color: string,
+    tree: ChatTree,
+    otherNodeId: string,
+    otherTree: ChatTree,
+  ): Promise<void> {
+    const node = tree.nodes[nodeId];
+    const otherNode = otherTree.nodes[otherNodeId];
+    if (!node || !otherNode || tree.id === otherTree.id) return;
+
+    const linksTo = (own: ChatNode, linked: ChatNode) =>
+      (own.links || []).some((link) => link.nodeId === linked.id);
+    if (linksTo(node, otherNode) && linksTo(otherNode, node)) return;
+
+    const before = TreeHistory.snapshot(tree);
+    const otherBefore = TreeHistory.snapshot(otherTree);
+    const createdAt = new Date().toISOString();
+    const sides: Array<[ChatNode, ChatNode, ChatTree]> = [
+      [node, otherNode, otherTree],
+      [otherNode, node, tree],
+    ];
+    sides.forEach(([own, linked, linkedTree]) => {
+      own.links = [
+        ...(own.links || []).filter((link) => link.nodeId !== linked.id),
+        { treeId: linkedTree.id, nodeId: linked.id, createdAt },
+      ];
+      own.updatedAt = createdAt;
+    });
+
+    // Both sides go in one undo step, so undo never leaves a one-way link
+    const after = TreeHistory.snapshot(tree);
+    const otherAfter = TreeHistory.snapshot(otherTree);
+    await db.saveNode(node, tree.id);
+    await db.saveNode(otherNode, otherTree.id);
+    await db.saveTree(tree);
+    await db.saveTree(otherTree);
+    await TreeHistory.recordTreeChange(
+      `Link "${node.title}" to "${otherNode.title}" in ${otherTree.name}`,
+      before,
+      after,
+      [{ before: otherBefore, after: otherAfter }],
+    );
+  }
+
+  /**
+   * Remove links to deleted chats from the chats they were linked to
+   * Returns the edits, to record in the same undo step as the deletion
+   */
+  static async unlinkDeleted(
+    deleted: ChatNode[],
+    trees: Record<string, ChatTree> = {},
+  ): Promise<LinkedTreeEdit[]> {
+    const deletedIds = new Set(deleted.map((node) => node.id));
+    const byTree = new Map<string, Set<string>>();
+    deleted.forEach((node) => {
+      (node.links || []).forEach((link) => {
+        if (deletedIds.has(link.nodeId)) return;
+        byTree.set(
+          link.treeId,
+          (byTree.get(link.treeId) || new Set()).add(link.nodeId),
+        );
+      });
+    });
+
+    const edits: LinkedTreeEdit[] = [];
+    for (const [treeId, nodeIds] of byTree) {
+      const tree = trees[treeId] || (await db.getTree(treeId));
+      if (!tree) continue;
+
+      const before = TreeHistory.snapshot(tree);
+      const changed = Array.from(nodeIds)
+        .map((nodeId) => tree.nodes[nodeId])
+        .filter((node) =>
+          node?.links?.some((link) => deletedIds.has(link.nodeId)),
+        );
+      if (changed.length === 0) continue;
+
+      const now = new Date().toISOString();
+      changed.forEach((node) => {
+        const links = node.links!.filter((link) => !deletedIds.has(link.nodeId));
+        node.links = links.length > 0 ? links : undefined;
+        node.updatedAt = now;
+      });
+
+      edits.push({ before, after: TreeHistory.snapshot(tree) });
+      await Promise.all(changed.map((node) => db.saveNode(node, treeId)));
+      await db.saveTree(tree);
+    }
+    return edits;
+  }
+
+  async updateNodeSummary(
+    nodeId: string,
+    summary: string,
     tree: ChatTree,
     treeId: string,
   ): Promise<void> {
     const node = tree.nodes[nodeId];
     if (!node) return;
 
-    node.color = color;
+    const before = TreeHistory.snapshot(tree);
+    node.summary = summary.trim() || undefined;
     node.updatedAt = new Date().toISOString();
 
     await db.saveNode(node, treeId);
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Edit summary of "${node.title}"`,
+      before,
+      after,
+    );
   }
 
   async updateNodeShape(
@@ -214,9 +546,17 @@ export class NodeManager {
     // Validate shape
     const validShapes = ["rectangle", "circle", "rounded", "diamond"];
     if (validShapes.includes(shape)) {
+      const before = TreeHistory.snapshot(tree);
       node.shape = shape as "rectangle" | "circle" | "rounded" | "diamond";
       node.updatedAt = new Date().toISOString();
       await db.saveNode(node, treeId);
+      const after = TreeHistory.snapshot(tree);
+      await db.saveTree(tree);
+      await TreeHistory.recordTreeChange(
+        `Change shape of "${node.title}"`,
+        before,
+        after,
+      );
     }
   }
 }
@@ -0,0 +1,99 @@
+/**
+ * PlatformHealthBanner - Warn that the site's markup no longer fits Arbor
+ * Shown when SelectorHealth reports operations failing repeatedly, with a
+ * diagnostic report to copy into a bug ticket
+ */
+
+import type { Platform } from "../../types";
+import {
+  OPERATION_LABELS,
+  SelectorHealth,
+  type DiagnosedOperation,
+} from "../../platforms/diagnostics";
+
+const BANNER_ID = "arbor-platform-health-banner";
+
+export class PlatformHealthBanner {
+  // Operations the user has already been warned about on this page
+  private static dismissed = new Set<DiagnosedOperation>();
+
+  /**
+   * Show (or refresh) the banner for everything currently failing
+   * Stays hidden if the user dismissed it and nothing new broke since
+   */
+  static show(platform: Platform): void {
+    const degraded = SelectorHealth.getDegraded(platform.name);
+    if (degraded.every((operation) => this.dismissed.has(operation))) {
+      return;
+    }
+
+    document.getElementById(BANNER_ID)?.remove();
+
+    const failing = degraded.map((operation) => OPERATION_LABELS[operation]);
+    const banner = document.createElement("div");
+    banner.id = BANNER_ID;
+    banner.setAttribute("role", "alert");
+    banner.style.cssText = `
+      position: fixed;
+      top: 16px;
+      left: 50%;
+      transform: translateX(-50%);
+      max-width: 560px;
+      width: calc(100% - 32px);
+      padding: 12px 16px;
+      background: #1a1a1a;
+      border: 1px solid #c9a66b;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.4);
+      z-index: 99999999;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      color: #e8efe9;
+      font-size: 13px;
+      line-height: 1.5;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    `;
+
+    const message = document.createElement("div");
+    const title = document.createElement("strong");
+    title.style.color = "#c9a66b";
+    title.textContent = `⚠️ Arbor's ${platform.displayName} integration is degraded`;
+    const detail = document.createElement("div");
+    detail.textContent = `${platform.displayName} may have changed its page layout: ${failing.join(", ")} keeps failing. Branch context may be incomplete until Arbor is updated.`;
+    message.append(title, detail);
+
+    const actions = document.createElement("div");
+    actions.style.cssText = "display: flex; gap: 8px; justify-content: flex-end;";
+
+    const buttonStyle = `
+      padding: 6px 12px;
+      border-radius: 6px;
+      font-size: 13px;
+      cursor: pointer;
+      font-family: inherit;
+    `;
+
+    const copyBtn = document.createElement("button");
+    copyBtn.textContent = "Copy diagnostic report";
+    copyBtn.style.cssText = `${buttonStyle} background: #c9a66b; color: #0c0f0e; border: none; font-weight: 600;`;
+    copyBtn.addEventListener("click", async () => {
+      const copied = await platform.copyToClipboard(
+        SelectorHealth.buildReport(platform),
+      );
+      copyBtn.textContent = copied ? "Copied ✓" : "Copy failed";
+    });
+
+    const dismissBtn = document.createElement("button");
+    dismissBtn.textContent = "Dismiss";
+    dismissBtn.style.cssText = `${buttonStyle} background: transparent; color: #9ca3af; border: 1px solid #2a3530;`;
+    dismissBtn.addEventListener("click", () => {
+      degraded.forEach((operation) => this.dismissed.add(operation));
+      banner.remove();
+    });
+
+    actions.append(dismissBtn, copyBtn);
+    banner.append(message, actions);
+    document.body.appendChild(banner);
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * RelatedPanel - Chats in other trees about the same topic as the current one
+ *
+ * Lists the current chat's cross-tree links, plus its nearest neighbours by
+ * embedding with a button to link each. Like SearchPanel it owns a persistent
+ * element that is re-mounted after the sidebar re-renders. Suggestions are
+ * only computed while the panel is expanded, since embedding can mean an
+ * API call.
+ */
+
+import type { ChatNode, ChatTree } from "../../types";
+import type { RelatedNode } from "./context/NodeEmbeddings";
+import { getPlatformEmoji } from "../platformDetector";
+
+export interface RelatedPanelOptions {
+  onFind: (treeId: string, nodeId: string) => Promise<RelatedNode[]>;
+  onOpen: (treeId: string, nodeId: string) => void;
+  onLink: (treeId: string, nodeId: string, related: RelatedNode) => Promise<void>;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class RelatedPanel {
+  readonly element: HTMLElement;
+  private toggleButton: HTMLButtonElement;
+  private bodyEl: HTMLElement;
+  private options: RelatedPanelOptions;
+  private expanded = false;
+  private trees: Record<string, ChatTree> = {};
+  private treeId: string | null = null;
+  private nodeId: string | null = null;
+  private results: RelatedNode[] = [];
+  private resultsFor: string | null = null; // "treeId:nodeId" the results belong to
+  private loading = false;
+  private error: string | null = null;
+  private findToken = 0;
+
+  constructor(options: RelatedPanelOptions) {
+    this.options = options;
+
+    this.element = document.createElement("div");
+    this.element.className = "arbor-related";
+    this.element.innerHTML = `
+      <button class="arbor-related-toggle" aria-expanded="false">
+        <span class="arbor-related-chevron">▸</span>
+        <span class="arbor-section-header">RELATED IN OTHER TREES</span>
+      </button>
+      <div class="arbor-related-body" hidden></div>
+    `;
+
+    this.toggleButton = this.element.querySelector(
+      ".arbor-related-toggle",
+    ) as HTMLButtonElement;
+    this.bodyEl = this.element.querySelector(
+      ".arbor-related-body",
+    ) as HTMLElement;
+
+    this.toggleButton.addEventListener("click", () => {
+      this.expanded = !this.expanded;
+      this.update();
+    });
+
+    this.bodyEl.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const linkButton = target.closest(
+        ".arbor-related-link-btn",
+      ) as HTMLButtonElement | null;
+      if (linkButton?.dataset.index) {
+        e.stopPropagation();
+        this.link(parseInt(linkButton.dataset.index, 10), linkButton);
+        return;
+      }
+
+      const item = target.closest(".arbor-related-item") as HTMLElement | null;
+      if (item?.dataset.treeId && item.dataset.nodeId) {
+        this.options.onOpen(item.dataset.treeId, item.dataset.nodeId);
+      }
+    });
+  }
+
+  /**
+   * Insert the panel into a container, before the given element if any
+   */
+  mount(container: HTMLElement, before: Element | null = null) {
+    container.insertBefore(this.element, before);
+  }
+
+  /**
+   * Show related chats for this node; suggestions are recomputed if the node
+   * changed and the panel is expanded
+   */
+  setNode(
+    trees: Record<string, ChatTree>,
+    treeId: string | null,
+    nodeId: string | null,
+  ) {
+    this.trees = trees;
+    this.treeId = treeId;
+    this.nodeId = nodeId;
+    this.update();
+  }
+
+  private getNode(): ChatNode | null {
+    if (!this.treeId || !this.nodeId) return null;
+    return this.trees[this.treeId]?.nodes[this.nodeId] || null;
+  }
+
+  private update() {
+    this.toggleButton.setAttribute("aria-expanded", String(this.expanded));
+    this.element.classList.toggle("expanded", this.expanded);
+    this.bodyEl.hidden = !this.expanded;
+    if (!this.expanded) return;
+
+    const key = `${this.treeId}:${this.nodeId}`;
+    if (this.getNode() && this.resultsFor !== key) {
+      this.find(key);
+    }
+    this.render();
+  }
+
+  private async find(key: string) {
+    const token = ++this.findToken;
+    this.resultsFor = key;
+    this.results = [];
+    this.loading = true;
+    this.error = null;
+
+    try {
+      const results = await this.options.onFind(this.treeId!, this.nodeId!);
+      // Drop results for a chat the user has since moved away from
+      if (token !== this.findToken) return;
+      this.results = results;
+    } catch (error) {
+      if (token !== this.findToken) return;
+      console.error("🌳 Arbor: Failed to find related chats:", error);
+      this.error = "Couldn't look for related chats";
+      // Try again next time the panel updates
+      this.resultsFor = null;
+    }
+
+    this.loading = false;
+    this.render();
+  }
+
+  private async link(index: number, button: HTMLButtonElement) {
+    const related = this.results[index];
+    if (!related || !this.treeId || !this.nodeId) return;
+
+    button.disabled = true;
+    button.textContent = "Linking…";
+    try {
+      await this.options.onLink(this.treeId, this.nodeId, related);
+    } catch (error) {
+      console.error("🌳 Arbor: Failed to link chats:", error);
+      button.disabled = false;
+      button.textContent = "Link";
+    }
+  }
+
+  private render() {
+    const node = this.getNode();
+    if (!node) {
+      this.bodyEl.innerHTML = `<div class="arbor-related-empty">Open a chat in this tree to see related chats</div>`;
+      return;
+    }
+
+    const linked = (node.links || [])
+      .map((link) => ({
+        treeId: link.treeId,
+        tree: this.trees[link.treeId],
+        node: this.trees[link.treeId]?.nodes[link.nodeId],
+      }))
+      .filter((link) => link.tree && link.node);
+    const linkedIds = new Set(linked.map((link) => link.node.id));
+
+    const item = (
+      treeId: string,
+      treeName: string,
+      relatedNode: ChatNode,
+      action: string,
+    ) => `
+      <div class="arbor-related-item" data-tree-id="${treeId}" data-node-id="${relatedNode.id}">
+        <div class="arbor-related-item-text">
+          <div class="arbor-related-item-title">
+            <span>${relatedNode.customEmoji || getPlatformEmoji(relatedNode.platform)}</span>
+            <span>${escapeHtml(relatedNode.title)}</span>
+          </div>
+          <div class="arbor-related-item-tree">${escapeHtml(treeName)}</div>
+        </div>
+        ${action}
+      </div>`;
+
+    let html = "";
+
+    if (linked.length > 0) {
+      html += `<div class="arbor-related-label">Linked</div>`;
+      html += linked
+        .map((link) =>
+          item(
+            link.treeId,
+            link.tree.name,
+            link.node,
+            `<span class="arbor-related-linked">🔗</span>`,
+          ),
+        )
+        .join("");
+    }
+
+    html += `<div class="arbor-related-label">Suggested</div>`;
+    if (this.loading) {
+      html += `<div class="arbor-related-empty">Finding related chats…</div>`;
+    } else if (this.error) {
+      html += `<div class="arbor-related-empty">${this.error}</div>`;
+    } else {
+      const suggestions = this.results
+        .map((related, index) => ({ related, index }))
+        .filter(({ related }) => !linkedIds.has(related.node.id));
+
+      html +=
+        suggestions.length > 0
+          ? suggestions
+              .map(({ related, index }) =>
+                item(
+                  related.treeId,
+                  related.treeName,
+                  related.node,
+                  `<span class="arbor-related-score">${Math.round(related.score * 100)}%</span>
+                   <button class="arbor-related-link-btn" data-index="${index}" title="Link these chats across trees">Link</button>`,
+                ),
+              )
+              .join("")
+          : `<div class="arbor-related-empty">No similar chats in other trees</div>`;
+    }
+
+    this.bodyEl.innerHTML = html;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * SearchPanel - Search box with ranked results across all trees
+ *
+ * Owns a persistent element so it can be re-mounted after the host
+ * re-renders (the sidebar is rebuilt via innerHTML on every refresh).
+ */
+
+import { SearchIndex, type SearchResult } from "../../storage/searchIndex";
+import { getPlatformEmoji } from "../platformDetector";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+export interface SearchPanelOptions {
+  onSearch: (query: string) => Promise<SearchResult[]>;
+  onSelect: (result: SearchResult) => void;
+  placeholder?: string;
+}
+
+export class SearchPanel {
+  readonly element: HTMLElement;
+  private input: HTMLInputElement;
+  private resultsEl: HTMLElement;
+  private options: SearchPanelOptions;
+  private results: SearchResult[] = [];
+  private selectedIndex = -1;
+  private debounceTimer: number | null = null;
+  private searchToken = 0;
+
+  constructor(options: SearchPanelOptions) {
+    this.options = options;
+
+    this.element = document.createElement("div");
+    this.element.className = "arbor-search";
+    this.element.innerHTML = `
+      <div class="arbor-search-field">
+        <span class="arbor-search-icon">🔍</span>
+        <input type="search" class="arbor-search-input" placeholder="${
+          options.placeholder || "Search all trees..."
+        }" aria-label="Search all trees" />
+      </div>
+      <div class="arbor-search-results" role="listbox" hidden></div>
+    `;
+
+    this.input = this.element.querySelector(
+      ".arbor-search-input",
+    ) as HTMLInputElement;
+    this.resultsEl = this.element.querySelector(
+      ".arbor-search-results",
+    ) as HTMLElement;
+
+    this.input.addEventListener("input", () => this.scheduleSearch());
+    this.input.addEventListener("keydown", (e) => this.handleKeydown(e));
+    this.input.addEventListener("focus", () => {
+      if (this.input.value.trim()) {
+        this.resultsEl.hidden = false;
+      }
+    });
+    this.resultsEl.addEventListener("mousedown", (e) => {
+      // Keep focus in the input so the click isn't lost to blur
+      e.preventDefault();
+    });
+    this.resultsEl.addEventListener("click", (e) => {
+      const item = (e.target as HTMLElement).closest(
+        ".arbor-search-result",
+      ) as HTMLElement | null;
+      if (item?.dataset.index) {
+        this.select(parseInt(item.dataset.index, 10));
+      }
+    });
+  }
+
+  /**
+   * Insert the panel at the top of a container, keeping focus and caret
+   * position if the input was focused before the container re-rendered
+   */
+  mount(container: HTMLElement, hadFocus: boolean = false) {
+    const selectionStart = this.input.selectionStart;
+    const selectionEnd = this.input.selectionEnd;
+
+    container.insertBefore(this.element, container.firstChild);
+
+    if (hadFocus) {
+      this.input.focus();
+      if (selectionStart !== null && selectionEnd !== null) {
+        this.input.setSelectionRange(selectionStart, selectionEnd);
+      }
+    }
+  }
+
+  hasFocus(): boolean {
+    return document.activeElement === this.input;
+  }
+
+  /**
+   * Re-run the current query (e.g. after trees changed)
+   */
+  refresh() {
+    if (this.input.value.trim()) {
+      this.runSearch();
+    }
+  }
+
+  clear() {
+    this.input.value = "";
+    this.results = [];
+    this.renderResults([]);
+  }
+
+  private scheduleSearch() {
+    if (this.debounceTimer !== null) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = window.setTimeout(() => {
+      this.debounceTimer = null;
+      this.runSearch();
+    }, SEARCH_DEBOUNCE_MS);
+  }
+
+  private async runSearch() {
+    const query = this.input.value.trim();
+    const token = ++this.searchToken;
+
+    if (!query) {
+      this.results = [];
+      this.renderResults([]);
+      return;
+    }
+
+    try {
+      const results = await this.options.onSearch(query);
+      // Drop stale responses from earlier keystrokes
+      if (token !== this.searchToken) return;
+      this.results = results;
+      this.renderResults(SearchIndex.tokenize(query));
+    } catch (error) {
+      console.error("🌳 Arbor: Search failed:", error);
+    }
+  }
+
+  private renderResults(terms: string[]) {
+    this.selectedIndex = -1;
+
+    if (!this.input.value.trim()) {
+      this.resultsEl.hidden = true;
+      this.resultsEl.innerHTML = "";
+      return;
+    }
+
+    this.resultsEl.hidden = false;
+
+    if (this.results.length === 0) {
+      this.resultsEl.innerHTML = `<div class="arbor-search-empty">No matching chats</div>`;
+      return;
+    }
+
+    this.resultsEl.innerHTML = this.results
+      .map(
+        (result, index) => `
+          <div class="arbor-search-result" role="option" data-index="${index}">
+            <div class="arbor-search-result-title">
+              <span>${result.node.customEmoji || getPlatformEmoji(result.node.platform)}</span>
+              <span>${SearchIndex.highlight(result.node.title, terms)}</span>
+            </div>
+            <div class="arbor-search-result-tree">${SearchIndex.highlight(result.treeName, [])}</div>
+            ${
+              result.snippet
+                ? `<div class="arbor-search-result-snippet">${SearchIndex.highlight(result.snippet, terms)}</div>`
+                : ""
+            }
+          </div>`,
+      )
+      .join("");
+  }
+
+  private handleKeydown(e: KeyboardEvent) {
+    // Keep typing inside the panel from reaching host page shortcuts
+    e.stopPropagation();
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (this.results.length === 0) return;
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      this.selectedIndex =
+        (this.selectedIndex + step + this.results.length) %
+        this.results.length;
+      this.resultsEl
+        .querySelectorAll(".arbor-search-result")
+        .forEach((item, index) => {
+          item.classList.toggle("selected", index === this.selectedIndex);
+          if (index === this.selectedIndex) {
+            (item as HTMLElement).scrollIntoView({ block: "nearest" });
+          }
+        });
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      this.select(this.selectedIndex >= 0 ? this.selectedIndex : 0);
+    } else if (e.key === "Escape") {
+      this.clear();
+      this.input.blur();
+    }
+  }
+
+  private select(index: number) {
+    const result = this.results[index];
+    if (!result) return;
+
+    this.resultsEl.hidden = true;
+    this.options.onSelect(result);
+  }
+}
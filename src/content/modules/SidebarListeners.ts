@@ -54,6 +54,13 @@ export class SidebarListeners {
     this.abortController = new AbortController();
     const signal = this.abortController.signal;
 
+    // Import from archive (empty state)
+    this.getElement("import-trees-from-empty")?.addEventListener(
+      "click",
+      () => this.onSidebarAction("importTrees"),
+      { signal },
+    );
+
     // Close Sidebar button (header) - using cache
     this.getElement("close-sidebar-btn")?.addEventListener(
       "click",
@@ -152,6 +159,26 @@ export class SidebarListeners {
       { signal },
     );
 
+    // Tree digest button
+    document.getElementById("tree-digest-btn")?.addEventListener(
+      "click",
+      (e) => {
+        e.stopPropagation();
+        this.onSidebarAction("showTreeDigest");
+      },
+      { signal },
+    );
+
+    // Bulk import button
+    document.getElementById("bulk-import-btn")?.addEventListener(
+      "click",
+      (e) => {
+        e.stopPropagation();
+        this.onSidebarAction("bulkImportChats");
+      },
+      { signal },
+    );
+
     // Delete tree button
     document.getElementById("delete-tree-btn")?.addEventListener(
       "click",
@@ -172,6 +199,38 @@ export class SidebarListeners {
       { signal },
     );
 
+    // Tag chips toggle the tag filter (on node cards and in the filter bar)
+    document.querySelectorAll(".arbor-tag-chip[data-tag]").forEach((chip) => {
+      chip.addEventListener(
+        "click",
+        (e) => {
+          e.stopPropagation(); // Prevent triggering node click
+          this.onSidebarAction("toggleTagFilter", {
+            tag: (chip as HTMLElement).dataset.tag,
+          });
+        },
+        { signal },
+      );
+    });
+
+    document.getElementById("tag-filter-mode")?.addEventListener(
+      "click",
+      (e) => {
+        e.stopPropagation();
+        this.onSidebarAction("toggleTagFilterMode");
+      },
+      { signal },
+    );
+
+    document.getElementById("tag-filter-clear")?.addEventListener(
+      "click",
+      (e) => {
+        e.stopPropagation();
+        this.onSidebarAction("clearTagFilter");
+      },
+      { signal },
+    );
+
     // Delete node buttons (in sidebar tree view)
     document.querySelectorAll(".delete-node-btn").forEach((btn) => {
       btn.addEventListener("click", (e) => {
@@ -744,6 +803,21 @@ export class SidebarListeners {
         dropdownMenu.style.display = "none";
         dropdownTrigger.setAttribute("aria-expanded", "false");
       });
+
+    // Archive export/import from dropdown
+    const archiveActions: Array<[string, string]> = [
+      ["export-tree-from-dropdown", "exportTree"],
+      ["export-markdown-from-dropdown", "exportMarkdown"],
+      ["export-all-trees-from-dropdown", "exportAllTrees"],
+      ["import-trees-from-dropdown", "importTrees"],
+    ];
+    archiveActions.forEach(([id, action]) => {
+      document.getElementById(id)?.addEventListener("click", () => {
+        this.onSidebarAction(action);
+        dropdownMenu.style.display = "none";
+        dropdownTrigger.setAttribute("aria-expanded", "false");
+      });
+    });
   }
 
   private attachCollapsibleListeners() {
@@ -1,9 +1,17 @@
+// Providers stream a generated title in over a second or so; wait it out
+const TITLE_CHANGE_DEBOUNCE_MS = 1500;
+
 export class SidebarObserver {
   private observer: MutationObserver | null = null;
   private debounceTimer: number | null = null;
   private idleCallbackId: number | null = null;
   private isVisible: boolean = true;
 
+  // The provider's own chat list, watched for title changes
+  private titleObserver: MutationObserver | null = null;
+  private titleContainer: Element | null = null;
+  private titleDebounceTimer: number | null = null;
+
   start(onSidebarRemoved: () => void) {
     // Debounced check function (runs max once every 300ms)
     const debouncedCheck = () => {
@@ -45,6 +53,46 @@ export class SidebarObserver {
     this.setupVisibilityListener();
   }
 
+  /**
+   * Call back when the provider's chat list changes, e.g. when it titles a
+   * new chat a few seconds after the first message
+   * Safe to call repeatedly: it re-attaches only if the list was replaced
+   * (or wasn't rendered yet last time)
+   */
+  watchChatTitles(container: Element | null, onTitlesChanged: () => void) {
+    if (!container || (container === this.titleContainer && container.isConnected)) {
+      return;
+    }
+
+    this.stopWatchingTitles();
+    this.titleContainer = container;
+    this.titleObserver = new MutationObserver(() => {
+      if (this.titleDebounceTimer !== null) {
+        clearTimeout(this.titleDebounceTimer);
+      }
+      this.titleDebounceTimer = window.setTimeout(() => {
+        this.titleDebounceTimer = null;
+        if (this.isVisible) onTitlesChanged();
+      }, TITLE_CHANGE_DEBOUNCE_MS);
+    });
+    this.titleObserver.observe(container, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+  }
+
+  private stopWatchingTitles() {
+    this.titleObserver?.disconnect();
+    this.titleObserver = null;
+    this.titleContainer = null;
+
+    if (this.titleDebounceTimer !== null) {
+      clearTimeout(this.titleDebounceTimer);
+      this.titleDebounceTimer = null;
+    }
+  }
+
   private checkSidebarExists(onSidebarRemoved: () => void) {
     const sidebarExists = document.getElementById("arbor-sidebar-container");
     const graphExists = document.getElementById("arbor-graph-container");
@@ -78,5 +126,7 @@ export class SidebarObserver {
       cancelIdleCallback(this.idleCallbackId);
       this.idleCallbackId = null;
     }
+
+    this.stopWatchingTitles();
   }
 }
@@ -2,8 +2,23 @@
  * SidebarRenderer - Handles sidebar HTML generation
  */
 
-import type { ChatTree } from "../../types";
+import type { ChatTree, TagFilter } from "../../types";
 import type { AvailableChat } from "./UIInjector";
+import { collectTags, getTagFilterVisibility } from "../../utils/tags";
+
+interface TagVisibility {
+  mode: TagFilter["mode"];
+  matching: Set<string>;
+  visible: Set<string>;
+}
+
+function escapeTag(tag: string): string {
+  return tag
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
 export class SidebarRenderer {
   /**
@@ -41,6 +56,7 @@ export class SidebarRenderer {
     currentTreeId: string | null,
     untrackedChats: AvailableChat[],
     hasApiKey: boolean = true,
+    tagFilter: TagFilter | null = null,
   ): string {
     const allTrees = Object.values(trees);
     
@@ -88,12 +104,15 @@ export class SidebarRenderer {
                 <div class="arbor-empty-state-icon">🌱</div>
                 <div class="arbor-empty-state-title">Welcome to Arbor</div>
                 <div class="arbor-empty-state-description">Create your first tree below</div>
+                <button class="arbor-tree-dropdown-archive-btn" id="import-trees-from-empty" style="margin-top: 12px;">
+                  Import from archive
+                </button>
               </div>`
             : ""
         }
         ${
           currentTreeId && trees[currentTreeId]
-            ? this.renderCurrentTree(trees[currentTreeId], allTrees, currentTreeId)
+            ? this.renderCurrentTree(trees[currentTreeId], allTrees, currentTreeId, tagFilter)
             : ""
         }
         ${
@@ -136,7 +155,12 @@ export class SidebarRenderer {
   }
 
 
-  private static renderCurrentTree(tree: ChatTree, allTrees: ChatTree[], currentTreeId: string): string {
+  private static renderCurrentTree(
+    tree: ChatTree,
+    allTrees: ChatTree[],
+    currentTreeId: string,
+    tagFilter: TagFilter | null,
+  ): string {
     const displayName =
       tree.name && tree.name.trim() && tree.name !== "undefined"
         ? tree.name
@@ -164,6 +188,18 @@ export class SidebarRenderer {
                   <path d="M1 1l2 2M13 1l-2 2M1 13l2-2M13 13l-2-2" stroke="currentColor" stroke-width="1.2" stroke-linecap="round"/>
                 </svg>
               </button>
+              <button id="tree-digest-btn" class="arbor-action-btn" data-tooltip="Tree digest - Combine every chat's summary into one project brief">
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+                  <path d="M3 1.5h6l2.5 2.5v8.5H3z" stroke="currentColor" stroke-width="1.2" stroke-linejoin="round" fill="none"/>
+                  <path d="M5 6h4M5 8h4M5 10h2.5" stroke="currentColor" stroke-width="1.2" stroke-linecap="round"/>
+                </svg>
+              </button>
+              <button id="bulk-import-btn" class="arbor-action-btn" data-tooltip="Import chats - Add many of your existing chats to this tree at once">
+                <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
+                  <path d="M7 1.5v7M4 5.5l3 3 3-3" stroke="currentColor" stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round"/>
+                  <path d="M2 9.5v2a1 1 0 0 0 1 1h8a1 1 0 0 0 1-1v-2" stroke="currentColor" stroke-width="1.2" stroke-linecap="round"/>
+                </svg>
+              </button>
               <button id="tree-title-editable" class="arbor-action-btn" data-tooltip="Edit tree name - Change the name of this conversation tree">
                 <svg width="14" height="14" viewBox="0 0 14 14" fill="none">
                   <path d="M9.5 2.5l2 2M2 12l2.5-0.5 6.5-6.5-2-2L2.5 9.5L2 12z" stroke="currentColor" stroke-width="1.2" stroke-linecap="round" stroke-linejoin="round" fill="none"/>
@@ -183,7 +219,8 @@ export class SidebarRenderer {
               ${this.renderTreeInfoCard(displayName, branchCount, nodeCount, rootEmoji)}
               ${this.renderTreeDropdownMenu(allTrees, currentTreeId)}
             </div>
-            ${this.renderTreeChildren(tree, tree.rootNodeId)}
+            ${this.renderTagFilterBar(tree, tagFilter)}
+            ${this.renderTreeChildren(tree, tree.rootNodeId, tagFilter)}
           </div>
         </div>
       </div>
@@ -273,25 +310,96 @@ export class SidebarRenderer {
             </svg>
             New Tree
           </button>
+          <div class="arbor-tree-dropdown-archive">
+            <button class="arbor-tree-dropdown-archive-btn" id="export-tree-from-dropdown" title="Export the current tree as a JSON archive" ${currentTreeId ? "" : "disabled"}>
+              Export
+            </button>
+            <button class="arbor-tree-dropdown-archive-btn" id="export-markdown-from-dropdown" title="Export the current tree as a Markdown vault (zip)" ${currentTreeId ? "" : "disabled"}>
+              Markdown
+            </button>
+            <button class="arbor-tree-dropdown-archive-btn" id="export-all-trees-from-dropdown" title="Export all trees as a JSON archive" ${trees.length > 0 ? "" : "disabled"}>
+              Export All
+            </button>
+            <button class="arbor-tree-dropdown-archive-btn" id="import-trees-from-dropdown" title="Import trees from a JSON archive">
+              Import
+            </button>
+          </div>
         </div>
       </div>
     `;
   }
 
 
+  /**
+   * Render the tag chips used to filter the current tree
+   */
+  private static renderTagFilterBar(
+    tree: ChatTree,
+    tagFilter: TagFilter | null,
+  ): string {
+    const activeTags = tagFilter?.tags || [];
+    const treeTags = collectTags([tree]);
+    // Keep active tags visible even if no node in this tree uses them
+    activeTags.forEach((tag) => {
+      if (!treeTags.some((entry) => entry.tag === tag)) {
+        treeTags.push({ tag, count: 0 });
+      }
+    });
+
+    if (treeTags.length === 0) {
+      return "";
+    }
+
+    return `
+      <div class="arbor-tag-filter" role="toolbar" aria-label="Filter by tag">
+        ${treeTags
+          .map(
+            ({ tag, count }) => `
+          <button class="arbor-tag-chip arbor-tag-filter-chip ${activeTags.includes(tag) ? "active" : ""}"
+                  data-tag="${escapeTag(tag)}"
+                  aria-pressed="${activeTags.includes(tag)}">
+            #${escapeTag(tag)}<span class="arbor-tag-count">${count}</span>
+          </button>`,
+          )
+          .join("")}
+        ${
+          activeTags.length > 0
+            ? `<button class="arbor-tag-filter-action" id="tag-filter-mode" title="Switch between dimming and hiding non-matching chats">
+                ${tagFilter?.mode === "hide" ? "Hiding others" : "Dimming others"}
+              </button>
+              <button class="arbor-tag-filter-action" id="tag-filter-clear" title="Clear tag filter">Clear</button>`
+            : ""
+        }
+      </div>
+    `;
+  }
+
   /**
    * Render only the children of the root node (skipping root itself)
    */
-  private static renderTreeChildren(tree: ChatTree, rootNodeId: string): string {
+  private static renderTreeChildren(
+    tree: ChatTree,
+    rootNodeId: string,
+    tagFilter: TagFilter | null = null,
+  ): string {
     const rootNode = tree.nodes[rootNodeId];
     if (!rootNode || rootNode.children.length === 0) {
       return `<div class="arbor-tree-empty-message">No branches yet. Create a branch from the current chat.</div>`;
     }
 
+    const filterResult = getTagFilterVisibility(tree, tagFilter);
+    const visibility: TagVisibility | null =
+      filterResult && tagFilter
+        ? { mode: tagFilter.mode, ...filterResult }
+        : null;
+
     let html = `<div class="arbor-tree-children-container">`;
     rootNode.children.forEach((childId) => {
-      html += this.renderTreeNode(tree, childId, 0);
+      html += this.renderTreeNode(tree, childId, 0, visibility);
     });
+    if (visibility && visibility.matching.size === 0) {
+      html += `<div class="arbor-tree-empty-message">No chats in this tree have the selected tags.</div>`;
+    }
     html += `</div>`;
     return html;
   }
@@ -303,17 +411,24 @@ export class SidebarRenderer {
     tree: ChatTree,
     nodeId: string,
     depth: number = 0,
+    visibility: TagVisibility | null = null,
   ): string {
     const node = tree.nodes[nodeId];
     if (!node) {
       return "";
     }
 
+    if (visibility?.mode === "hide" && !visibility.visible.has(nodeId)) {
+      return "";
+    }
+    const isDimmed = !!visibility && !visibility.matching.has(nodeId);
+
     const hasChildren = node.children.length > 0;
     const connectionIcon = node.customEmoji || "";
+    const tags = node.tags || [];
 
     let html = `
-      <div class="tree-node-card" 
+      <div class="tree-node-card${isDimmed ? " tag-dimmed" : ""}" 
            data-node-id="${nodeId}" 
            draggable="true"
            role="treeitem"
@@ -338,6 +453,21 @@ export class SidebarRenderer {
           ${connectionIcon ? `<span class="tree-node-icon" aria-hidden="true">${connectionIcon}</span>` : ''}
           <div class="tree-node-card-content">
             <div class="tree-node-title">${node.title}</div>
+            ${
+              node.summary
+                ? `<div class="tree-node-summary" title="${escapeTag(node.summary)}">${escapeTag(node.summary)}</div>`
+                : ""
+            }
+            ${
+              tags.length > 0
+                ? `<div class="tree-node-tags">${tags
+                    .map(
+                      (tag) =>
+                        `<span class="arbor-tag-chip" data-tag="${escapeTag(tag)}" title="Filter by #${escapeTag(tag)}">#${escapeTag(tag)}</span>`,
+                    )
+                    .join("")}</div>`
+                : ""
+            }
             ${
               hasChildren
                 ? `<div class="tree-node-meta">
@@ -373,7 +503,7 @@ export class SidebarRenderer {
                     role="group"
                     aria-label="${node.title} children">`;
       node.children.forEach((childId) => {
-        html += this.renderTreeNode(tree, childId, depth + 1);
+        html += this.renderTreeNode(tree, childId, depth + 1, visibility);
       });
       html += `</div>`;
     }
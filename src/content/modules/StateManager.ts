@@ -1,5 +1,6 @@
 import { db } from "../db";
-import type { ExtensionState, ChatTree } from "../../types";
+import type { ExtensionState, ChatTree, TagFilter } from "../../types";
+import { loadTagFilter, saveTagFilter } from "../../utils/tags";
 
 export class StateManager {
   async loadState(): Promise<Partial<ExtensionState>> {
@@ -7,17 +8,20 @@ export class StateManager {
     return {
       currentTreeId: (savedState.currentTreeId as string) || null,
       currentNodeId: (savedState.currentNodeId as string) || null,
+      tagFilter: await loadTagFilter(),
     };
   }
 
   async saveState(state: {
     currentTreeId: string | null;
     currentNodeId: string | null;
+    tagFilter?: TagFilter | null;
   }) {
     await db.saveState({
       currentTreeId: state.currentTreeId,
       currentNodeId: state.currentNodeId,
     });
+    await saveTagFilter(state.tagFilter || null);
   }
 
   async loadTrees(): Promise<Record<string, ChatTree>> {
@@ -432,6 +432,477 @@ export class StyleInjector {
         color: var(--arbor-primary);
       }
 
+      .arbor-tree-dropdown-archive {
+        display: flex;
+        gap: 6px;
+        margin-top: 6px;
+      }
+
+      .arbor-tree-dropdown-archive-btn {
+        flex: 1;
+        background: transparent;
+        border: 1px solid var(--arbor-border-subtle);
+        border-radius: 6px;
+        padding: 6px 8px;
+        color: var(--arbor-text-secondary);
+        font-size: 12px;
+        font-weight: 500;
+        cursor: pointer;
+        transition: all 150ms cubic-bezier(0.4, 0, 0.2, 1);
+      }
+
+      .arbor-tree-dropdown-archive-btn:hover:not(:disabled) {
+        background: var(--arbor-bg-elevated);
+        border-color: var(--arbor-primary);
+        color: var(--arbor-primary);
+      }
+
+      .arbor-tree-dropdown-archive-btn:disabled {
+        opacity: 0.4;
+        cursor: not-allowed;
+      }
+
+      /* Full-text search */
+      .arbor-search {
+        position: relative;
+        margin-bottom: 12px;
+      }
+
+      .arbor-search-field {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 0 10px;
+        background: var(--arbor-bg-elevated);
+        border: 1px solid var(--arbor-border-default);
+        border-radius: 8px;
+        transition: border-color 150ms cubic-bezier(0.4, 0, 0.2, 1);
+      }
+
+      .arbor-search-field:focus-within {
+        border-color: var(--arbor-primary);
+      }
+
+      .arbor-search-icon {
+        font-size: 12px;
+        opacity: 0.7;
+      }
+
+      .arbor-search-input {
+        flex: 1;
+        min-width: 0;
+        padding: 8px 0;
+        background: transparent;
+        border: none;
+        outline: none;
+        color: var(--arbor-text-primary);
+        font-size: 13px;
+      }
+
+      .arbor-search-input::placeholder {
+        color: var(--arbor-text-tertiary);
+      }
+
+      .arbor-search-results {
+        position: absolute;
+        top: calc(100% + 4px);
+        left: 0;
+        right: 0;
+        max-height: 360px;
+        overflow-y: auto;
+        background: var(--arbor-bg-raised);
+        border: 1px solid var(--arbor-border-default);
+        border-radius: 8px;
+        box-shadow: var(--arbor-shadow-lg);
+        z-index: 1000;
+        padding: 4px;
+      }
+
+      .arbor-search-results[hidden] {
+        display: none;
+      }
+
+      .arbor-search-result {
+        padding: 8px 10px;
+        border-radius: 6px;
+        cursor: pointer;
+      }
+
+      .arbor-search-result:hover,
+      .arbor-search-result.selected {
+        background: var(--arbor-bg-elevated);
+      }
+
+      .arbor-search-result-title {
+        display: flex;
+        gap: 6px;
+        color: var(--arbor-text-primary);
+        font-size: 13px;
+        font-weight: 500;
+      }
+
+      .arbor-search-result-tree {
+        margin-top: 2px;
+        color: var(--arbor-text-tertiary);
+        font-size: 11px;
+      }
+
+      .arbor-search-result-snippet {
+        margin-top: 4px;
+        color: var(--arbor-text-secondary);
+        font-size: 12px;
+        line-height: 1.4;
+        overflow: hidden;
+        display: -webkit-box;
+        -webkit-line-clamp: 2;
+        -webkit-box-orient: vertical;
+      }
+
+      .arbor-search-results mark {
+        background: var(--arbor-accent-soft);
+        color: var(--arbor-accent);
+        border-radius: 2px;
+      }
+
+      .arbor-search-empty {
+        padding: 12px;
+        text-align: center;
+        color: var(--arbor-text-tertiary);
+        font-size: 12px;
+      }
+
+      /* Related chats in other trees */
+      .arbor-related {
+        margin-top: 12px;
+        padding-top: 12px;
+        border-top: 1px solid var(--arbor-border-default);
+      }
+
+      .arbor-related-toggle {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        width: 100%;
+        padding: 0;
+        background: none;
+        border: none;
+        cursor: pointer;
+        text-align: left;
+      }
+
+      .arbor-related-chevron {
+        color: var(--arbor-text-tertiary);
+        font-size: 10px;
+        transition: transform 150ms cubic-bezier(0.4, 0, 0.2, 1);
+      }
+
+      .arbor-related.expanded .arbor-related-chevron {
+        transform: rotate(90deg);
+      }
+
+      .arbor-related-body {
+        margin-top: 8px;
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+      }
+
+      .arbor-related-body[hidden] {
+        display: none;
+      }
+
+      .arbor-related-label {
+        margin-top: 4px;
+        color: var(--arbor-text-tertiary);
+        font-size: 10px;
+        font-weight: 600;
+        letter-spacing: 0.5px;
+        text-transform: uppercase;
+      }
+
+      .arbor-related-item {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 8px 10px;
+        border-radius: 6px;
+        cursor: pointer;
+      }
+
+      .arbor-related-item:hover {
+        background: var(--arbor-bg-elevated);
+      }
+
+      .arbor-related-item-text {
+        flex: 1;
+        min-width: 0;
+      }
+
+      .arbor-related-item-title {
+        display: flex;
+        gap: 6px;
+        color: var(--arbor-text-primary);
+        font-size: 13px;
+        font-weight: 500;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+
+      .arbor-related-item-tree {
+        margin-top: 2px;
+        color: var(--arbor-text-tertiary);
+        font-size: 11px;
+      }
+
+      .arbor-related-score {
+        color: var(--arbor-text-tertiary);
+        font-size: 11px;
+      }
+
+      .arbor-related-link-btn {
+        padding: 3px 8px;
+        background: var(--arbor-bg-elevated);
+        border: 1px solid var(--arbor-border-default);
+        border-radius: 6px;
+        color: var(--arbor-text-primary);
+        font-size: 11px;
+        cursor: pointer;
+      }
+
+      .arbor-related-link-btn:hover:not(:disabled) {
+        border-color: var(--arbor-primary);
+      }
+
+      .arbor-related-link-btn:disabled {
+        opacity: 0.5;
+        cursor: default;
+      }
+
+      .arbor-related-empty {
+        padding: 8px 10px;
+        color: var(--arbor-text-tertiary);
+        font-size: 12px;
+      }
+
+      .graph-node.search-hit {
+        animation: searchHitPulse 1.6s ease-out;
+      }
+
+      @keyframes searchHitPulse {
+        0%, 40% {
+          box-shadow: 0 0 0 4px var(--arbor-accent);
+        }
+        100% {
+          box-shadow: 0 0 0 0 transparent;
+        }
+      }
+
+      /* Tags */
+      .arbor-tag-filter {
+        display: flex;
+        flex-wrap: wrap;
+        align-items: center;
+        gap: 6px;
+        margin-bottom: 12px;
+      }
+
+      .arbor-tag-chip {
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        padding: 2px 8px;
+        background: var(--arbor-accent-soft);
+        border: 1px solid transparent;
+        border-radius: 999px;
+        color: var(--arbor-text-secondary);
+        font-size: 11px;
+        line-height: 1.5;
+        cursor: pointer;
+        transition: all 0.15s ease;
+      }
+
+      .arbor-tag-chip:hover {
+        color: var(--arbor-text-primary);
+      }
+
+      .arbor-tag-chip.active {
+        border-color: var(--arbor-accent);
+        color: var(--arbor-accent);
+      }
+
+      .arbor-tag-count {
+        color: var(--arbor-text-tertiary);
+        font-size: 10px;
+      }
+
+      .arbor-tag-filter-action {
+        padding: 2px 6px;
+        background: none;
+        border: none;
+        color: var(--arbor-text-tertiary);
+        font-size: 11px;
+        cursor: pointer;
+      }
+
+      .arbor-tag-filter-action:hover {
+        color: var(--arbor-text-primary);
+      }
+
+      .tree-node-tags {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+        margin-top: 4px;
+      }
+
+      .tree-node-summary {
+        margin-top: 2px;
+        color: var(--arbor-text-tertiary);
+        font-size: 11.5px;
+        line-height: 1.4;
+        overflow: hidden;
+        display: -webkit-box;
+        -webkit-line-clamp: 2;
+        -webkit-box-orient: vertical;
+      }
+
+      .tree-node-card.tag-dimmed {
+        opacity: 0.35 !important;
+      }
+
+      .graph-node-tags {
+        display: flex;
+        flex-wrap: wrap;
+        gap: 4px;
+        margin-top: 4px;
+      }
+
+      .graph-node-tag {
+        padding: 1px 6px;
+        background: var(--arbor-accent-soft);
+        border-radius: 999px;
+        color: var(--arbor-text-secondary);
+        font-size: 10px;
+        line-height: 1.5;
+      }
+
+      .graph-node.tag-dimmed,
+      .connection-path.tag-dimmed,
+      .connection-label.tag-dimmed {
+        opacity: 0.25 !important;
+      }
+
+      .graph-node.tag-hidden,
+      .connection-label.tag-hidden {
+        display: none !important;
+      }
+
+      .connection-path.tag-hidden {
+        visibility: hidden;
+      }
+
+      /* Summary hover card */
+      .graph-node-hovercard {
+        position: fixed;
+        z-index: 2147483646;
+        max-width: 300px;
+        padding: 10px 12px;
+        background: var(--arbor-bg-elevated);
+        border: 1px solid var(--arbor-border-default);
+        border-radius: 8px;
+        box-shadow: var(--arbor-shadow-lg);
+        pointer-events: none;
+        font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Inter, sans-serif;
+      }
+
+      .graph-node-hovercard[hidden] {
+        display: none;
+      }
+
+      .graph-node-hovercard-title {
+        margin-bottom: 4px;
+        color: var(--arbor-text-primary);
+        font-size: 12px;
+        font-weight: 600;
+      }
+
+      .graph-node-hovercard-summary {
+        color: var(--arbor-text-secondary);
+        font-size: 12px;
+        line-height: 1.5;
+        white-space: pre-wrap;
+      }
+
+      /* Graph multi-select */
+      .graph-node.selected {
+        outline: 2px dashed var(--arbor-accent);
+        outline-offset: 3px;
+      }
+
+      .arbor-graph-selection-bar {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 6px 12px;
+        background: var(--arbor-bg-elevated);
+        border-bottom: 1px solid var(--arbor-border-default);
+        font-size: 12px;
+      }
+
+      .arbor-graph-selection-bar[hidden] {
+        display: none;
+      }
+
+      .arbor-graph-selection-count {
+        flex: 1;
+        color: var(--arbor-text-secondary);
+      }
+
+      .arbor-graph-selection-btn {
+        padding: 4px 10px;
+        background: var(--arbor-bg-raised);
+        border: 1px solid var(--arbor-border-default);
+        border-radius: 6px;
+        color: var(--arbor-text-secondary);
+        font-size: 12px;
+        cursor: pointer;
+      }
+
+      .arbor-graph-selection-btn:hover:not(:disabled) {
+        color: var(--arbor-text-primary);
+        border-color: var(--arbor-border-strong);
+      }
+
+      .arbor-graph-selection-primary {
+        color: var(--arbor-accent);
+      }
+
+      .arbor-graph-selection-btn:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+
+      /* Auto-organize preview */
+      .graph-node.organize-changed {
+        outline: 2px solid var(--arbor-accent);
+        outline-offset: 3px;
+      }
+
+      path.connection-path.organize-changed {
+        stroke: var(--arbor-accent) !important;
+        stroke-dasharray: 6 4;
+      }
+
+      .connection-label.organize-changed {
+        border-color: var(--arbor-accent) !important;
+        color: var(--arbor-accent) !important;
+      }
+
+      .organize-preview .graph-node {
+        cursor: default !important;
+      }
+
       /* Collapsible Sections */
       .arbor-collapsible-section {
         margin-bottom: 4px;
@@ -1684,6 +2155,23 @@ export class StyleInjector {
         color: var(--arbor-text-tertiary);
       }
 
+      .graph-node-platform-badge {
+        position: absolute;
+        top: -8px;
+        right: -8px;
+        width: 20px;
+        height: 20px;
+        border-radius: 50%;
+        background: var(--arbor-bg-elevated);
+        border: 1px solid var(--arbor-border-default);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-size: 11px;
+        line-height: 1;
+        pointer-events: none;
+      }
+
       /* SVG Connections with Bezier Curves */
       .connection-svg {
         overflow: visible !important;
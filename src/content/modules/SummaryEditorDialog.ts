@@ -0,0 +1,198 @@
+/**
+ * SummaryEditorDialog - Edit a node's summary, optionally generating a draft
+ */
+
+import type { ChatNode } from "../../types";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class SummaryEditorDialog {
+  /**
+   * Show the editor and return the new summary ("" clears it)
+   * Returns null if the user cancels
+   *
+   * @param generate - produces a draft for the "Auto-summarize" button
+   */
+  static show(
+    node: ChatNode,
+    generate: () => Promise<string>,
+  ): Promise<string | null> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-summary-editor-dialog")?.remove();
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-summary-editor-dialog";
+
+      modal.innerHTML = `
+        <div class="arbor-summary-editor-overlay" style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 520px;
+            width: 90%;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <div style="display: flex; justify-content: space-between; align-items: center;">
+              <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600;">📝 Edit Summary</h2>
+              <button id="close-summary-editor" style="
+                background: none;
+                border: none;
+                color: #9caba3;
+                font-size: 24px;
+                cursor: pointer;
+                width: 32px;
+                height: 32px;
+                border-radius: 4px;
+              ">×</button>
+            </div>
+
+            <p style="color: #9caba3; margin: 0; font-size: 13px; line-height: 1.5; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+              ${escapeHtml(node.title)}
+            </p>
+
+            <textarea id="summary-editor-input" rows="6" placeholder="What was this conversation about?" style="
+              width: 100%;
+              box-sizing: border-box;
+              padding: 10px;
+              background: #1c2420;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              color: #e8efe9;
+              font-size: 13px;
+              line-height: 1.5;
+              font-family: inherit;
+              resize: vertical;
+              outline: none;
+            ">${escapeHtml(node.summary || "")}</textarea>
+
+            <div style="display: flex; align-items: center; gap: 10px;">
+              <button id="generate-summary" style="
+                padding: 8px 12px;
+                background: #1c2420;
+                color: #2dd4a7;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 12px;
+                font-weight: 600;
+              ">✨ Auto-summarize</button>
+              <span id="summary-editor-status" style="color: #9caba3; font-size: 12px;"></span>
+            </div>
+
+            <div style="display: flex; gap: 10px;">
+              <button id="cancel-summary-editor" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Cancel</button>
+              <button id="confirm-summary-editor" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Save Summary</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const input = modal.querySelector(
+        "#summary-editor-input",
+      ) as HTMLTextAreaElement;
+      const generateButton = modal.querySelector(
+        "#generate-summary",
+      ) as HTMLButtonElement;
+      const status = modal.querySelector(
+        "#summary-editor-status",
+      ) as HTMLElement;
+
+      const closeDialog = () => {
+        modal.remove();
+        resolve(null);
+      };
+
+      const saveSummary = () => {
+        modal.remove();
+        resolve(input.value.trim());
+      };
+
+      generateButton.addEventListener("click", async () => {
+        generateButton.disabled = true;
+        status.textContent = "Summarizing...";
+        try {
+          input.value = await generate();
+          status.textContent = "Review the draft, then save.";
+        } catch (error) {
+          status.textContent =
+            error instanceof Error ? error.message : "Couldn't summarize";
+        } finally {
+          generateButton.disabled = false;
+        }
+      });
+
+      input.addEventListener("keydown", (e) => {
+        // Keep typing inside the dialog from reaching host page shortcuts
+        e.stopPropagation();
+        if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault();
+          saveSummary();
+        } else if (e.key === "Escape") {
+          closeDialog();
+        }
+      });
+
+      input.focus();
+      input.setSelectionRange(input.value.length, input.value.length);
+
+      modal
+        .querySelector("#confirm-summary-editor")
+        ?.addEventListener("click", saveSummary);
+      modal
+        .querySelector("#cancel-summary-editor")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector("#close-summary-editor")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector(".arbor-summary-editor-overlay")
+        ?.addEventListener("click", (e) => {
+          if (e.target === e.currentTarget) {
+            closeDialog();
+          }
+        });
+    });
+  }
+}
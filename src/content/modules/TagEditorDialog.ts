@@ -0,0 +1,298 @@
+/**
+ * TagEditorDialog - Edit a node's tags with autocomplete from all trees
+ */
+
+import type { ChatNode } from "../../types";
+import { normalizeTag } from "../../utils/tags";
+
+// Offered even before they're used anywhere
+const DEFAULT_TAGS = ["decision", "todo", "dead-end", "question", "idea"];
+
+const MAX_SUGGESTIONS = 8;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class TagEditorDialog {
+  /**
+   * Show the editor and return the new tag list
+   * Returns null if the user cancels
+   *
+   * @param knownTags - tags in use across all trees, most used first
+   */
+  static show(node: ChatNode, knownTags: string[]): Promise<string[] | null> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-tag-editor-dialog")?.remove();
+
+      const tags: string[] = [...(node.tags || [])];
+      const suggestionPool = Array.from(
+        new Set([...knownTags, ...DEFAULT_TAGS]),
+      );
+      let highlighted = -1;
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-tag-editor-dialog";
+
+      modal.innerHTML = `
+        <div class="arbor-tag-editor-overlay" style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 440px;
+            width: 90%;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <div style="display: flex; justify-content: space-between; align-items: center;">
+              <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600;">🔖 Edit Tags</h2>
+              <button id="close-tag-editor" style="
+                background: none;
+                border: none;
+                color: #9caba3;
+                font-size: 24px;
+                cursor: pointer;
+                width: 32px;
+                height: 32px;
+                border-radius: 4px;
+              ">×</button>
+            </div>
+
+            <p style="color: #9caba3; margin: 0; font-size: 13px; line-height: 1.5; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+              ${escapeHtml(node.title)}
+            </p>
+
+            <div id="tag-editor-field" style="
+              display: flex;
+              flex-wrap: wrap;
+              gap: 6px;
+              padding: 8px;
+              background: #1c2420;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              cursor: text;
+            ">
+              <input id="tag-editor-input" type="text" placeholder="Add a tag..." autocomplete="off" style="
+                flex: 1;
+                min-width: 100px;
+                background: transparent;
+                border: none;
+                outline: none;
+                color: #e8efe9;
+                font-size: 13px;
+                padding: 4px 2px;
+              " />
+            </div>
+
+            <div id="tag-editor-suggestions" style="
+              display: flex;
+              flex-wrap: wrap;
+              gap: 6px;
+              min-height: 24px;
+            "></div>
+
+            <div style="display: flex; gap: 10px;">
+              <button id="cancel-tag-editor" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Cancel</button>
+              <button id="confirm-tag-editor" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Save Tags</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const field = modal.querySelector("#tag-editor-field") as HTMLElement;
+      const input = modal.querySelector(
+        "#tag-editor-input",
+      ) as HTMLInputElement;
+      const suggestionsEl = modal.querySelector(
+        "#tag-editor-suggestions",
+      ) as HTMLElement;
+
+      const chipStyle = (active: boolean) => `
+        display: inline-flex;
+        align-items: center;
+        gap: 4px;
+        padding: 3px 8px;
+        background: ${active ? "#1c2420" : "#131917"};
+        border: 1px solid ${active ? "#2dd4a7" : "#2a3530"};
+        border-radius: 999px;
+        color: #e8efe9;
+        font-size: 12px;
+        cursor: pointer;
+      `;
+
+      const getSuggestions = () => {
+        const query = normalizeTag(input.value);
+        return suggestionPool
+          .filter((tag) => !tags.includes(tag))
+          .filter((tag) => !query || tag.includes(query))
+          .sort((a, b) =>
+            query
+              ? Number(!a.startsWith(query)) - Number(!b.startsWith(query))
+              : 0,
+          )
+          .slice(0, MAX_SUGGESTIONS);
+      };
+
+      const render = () => {
+        field.querySelectorAll(".tag-editor-chip").forEach((chip) => {
+          chip.remove();
+        });
+        tags.forEach((tag) => {
+          const chip = document.createElement("span");
+          chip.className = "tag-editor-chip";
+          chip.style.cssText = chipStyle(true);
+          chip.innerHTML = `#${escapeHtml(tag)} <span style="color: #9caba3;">×</span>`;
+          chip.title = "Remove tag";
+          chip.addEventListener("click", (e) => {
+            e.stopPropagation();
+            tags.splice(tags.indexOf(tag), 1);
+            render();
+          });
+          field.insertBefore(chip, input);
+        });
+
+        const suggestions = getSuggestions();
+        highlighted = Math.min(highlighted, suggestions.length - 1);
+        suggestionsEl.innerHTML = suggestions
+          .map(
+            (tag, index) => `
+            <span class="tag-editor-suggestion" data-tag="${escapeHtml(tag)}" style="${chipStyle(index === highlighted)}">
+              + ${escapeHtml(tag)}
+            </span>`,
+          )
+          .join("");
+        suggestionsEl
+          .querySelectorAll(".tag-editor-suggestion")
+          .forEach((item) => {
+            item.addEventListener("click", () => {
+              addTag((item as HTMLElement).dataset.tag || "");
+              input.focus();
+            });
+          });
+      };
+
+      const addTag = (raw: string) => {
+        const tag = normalizeTag(raw);
+        if (tag && !tags.includes(tag)) {
+          tags.push(tag);
+        }
+        input.value = "";
+        highlighted = -1;
+        render();
+      };
+
+      field.addEventListener("click", () => input.focus());
+      input.addEventListener("input", () => {
+        // Typing a comma commits the tag before it
+        if (input.value.includes(",")) {
+          input.value.split(",").forEach((part) => part.trim() && addTag(part));
+          return;
+        }
+        highlighted = -1;
+        render();
+      });
+      input.addEventListener("keydown", (e) => {
+        e.stopPropagation();
+        const suggestions = getSuggestions();
+
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+          if (suggestions.length === 0) return;
+          e.preventDefault();
+          const step = e.key === "ArrowDown" ? 1 : -1;
+          highlighted =
+            (highlighted + step + suggestions.length) % suggestions.length;
+          render();
+        } else if (e.key === "Enter" || e.key === "Tab") {
+          if (highlighted >= 0 && suggestions[highlighted]) {
+            e.preventDefault();
+            addTag(suggestions[highlighted]);
+          } else if (input.value.trim()) {
+            e.preventDefault();
+            addTag(input.value);
+          } else if (e.key === "Enter") {
+            e.preventDefault();
+            saveTags();
+          }
+        } else if (e.key === "Backspace" && !input.value && tags.length > 0) {
+          tags.pop();
+          render();
+        } else if (e.key === "Escape") {
+          closeDialog();
+        }
+      });
+
+      render();
+      input.focus();
+
+      const closeDialog = () => {
+        modal.remove();
+        resolve(null);
+      };
+
+      const saveTags = () => {
+        // Keep whatever was typed but not yet committed
+        if (input.value.trim()) {
+          addTag(input.value);
+        }
+        modal.remove();
+        resolve(tags);
+      };
+
+      modal
+        .querySelector("#confirm-tag-editor")
+        ?.addEventListener("click", saveTags);
+      modal
+        .querySelector("#cancel-tag-editor")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector("#close-tag-editor")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector(".arbor-tag-editor-overlay")
+        ?.addEventListener("click", (e) => {
+          if (e.target === e.currentTarget) {
+            closeDialog();
+          }
+        });
+    });
+  }
+}
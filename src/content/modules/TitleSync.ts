@@ -0,0 +1,93 @@
+/**
+ * TitleSync - Keep chat titles the same in Arbor and on the provider
+ *
+ * Each node remembers the provider title it was last in sync with
+ * (providerTitle). Comparing both sides against it tells which one was
+ * renamed: an Arbor rename is sent to the provider, a provider rename is
+ * pulled into the node. If both changed, the Arbor rename wins.
+ */
+
+import type { ChatNode, Platform } from "../../types";
+
+const ENABLED_KEY = "arbor_title_sync_enabled";
+
+// Don't retry a failed provider rename on every tracking tick
+const PUSH_RETRY_MS = 60000;
+
+// The provider's page can show the old title for a moment after a rename;
+// don't pull it back in meanwhile
+const PUSH_SETTLE_MS = 15000;
+
+export type TitleSyncAction =
+  | "push" // Arbor title is newer; send it to the provider
+  | "pull" // Provider title is newer; node.title was updated
+  | "mark"; // Titles already agree; node.providerTitle was updated
+
+export class TitleSync {
+  private static lastPushAt = new Map<string, number>();
+  private static renamedAt = new Map<string, number>();
+
+  static async isEnabled(): Promise<boolean> {
+    try {
+      const result = await chrome.storage.local.get(ENABLED_KEY);
+      return result[ENABLED_KEY] === true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static async setEnabled(enabled: boolean): Promise<void> {
+    await chrome.storage.local.set({ [ENABLED_KEY]: enabled });
+  }
+
+  /**
+   * Compare a node with the title its chat has on the provider right now
+   * Pulls and marks are applied to the node; pushes are left to the caller
+   */
+  static reconcile(node: ChatNode, providerTitle: string): TitleSyncAction | null {
+    // Nodes from before sync was turned on count as in sync when added
+    const synced = node.providerTitle ?? node.title;
+
+    if (node.title === providerTitle) {
+      if (node.providerTitle === providerTitle) return null;
+      node.providerTitle = providerTitle;
+      return "mark";
+    }
+
+    if (node.title !== synced) {
+      return "push";
+    }
+
+    if (Date.now() - (this.renamedAt.get(node.url) || 0) < PUSH_SETTLE_MS) {
+      return null;
+    }
+
+    node.title = providerTitle;
+    node.providerTitle = providerTitle;
+    return "pull";
+  }
+
+  /**
+   * Rename the chat on the provider to match the node
+   * Only works on the provider's own site; returns whether it was renamed
+   */
+  static async push(platform: Platform, node: ChatNode): Promise<boolean> {
+    if (!platform.supportsRename || node.platform !== platform.name) {
+      return false;
+    }
+
+    const lastAttempt = this.lastPushAt.get(node.url) || 0;
+    if (Date.now() - lastAttempt < PUSH_RETRY_MS) {
+      return false;
+    }
+    this.lastPushAt.set(node.url, Date.now());
+
+    const renamed = await platform.renameChat(node.url, node.title);
+    if (renamed) {
+      node.providerTitle = node.title;
+      this.lastPushAt.delete(node.url);
+      this.renamedAt.set(node.url, Date.now());
+    }
+    return renamed;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * TranscriptViewer - Read-only view of a node's archived conversation
+ */
+
+import type { ChatNode } from "../../types";
+import type { ArchivedTranscript } from "../../storage/messageArchive";
+import { getPlatformEmoji, getPlatformName } from "../platformDetector";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class TranscriptViewer {
+  /**
+   * Show the archived transcript; resolves when the viewer is closed
+   */
+  static show(node: ChatNode, transcript: ArchivedTranscript): Promise<void> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-transcript-viewer")?.remove();
+
+      const { snapshot, messages } = transcript;
+      const capturedAt = new Date(snapshot.capturedAt).toLocaleString();
+      const missing = snapshot.messageHashes.length - messages.length;
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-transcript-viewer";
+
+      modal.innerHTML = `
+        <div class="arbor-transcript-overlay" style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 720px;
+            width: 90%;
+            max-height: 85vh;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <div style="display: flex; justify-content: space-between; align-items: center; gap: 12px;">
+              <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                📜 ${escapeHtml(node.title)}
+              </h2>
+              <button id="close-transcript-viewer" style="
+                background: none;
+                border: none;
+                color: #9caba3;
+                font-size: 24px;
+                cursor: pointer;
+                width: 32px;
+                height: 32px;
+                border-radius: 4px;
+                flex-shrink: 0;
+              ">×</button>
+            </div>
+
+            <p style="color: #9caba3; margin: 0; font-size: 12px; line-height: 1.5;">
+              ${getPlatformEmoji(snapshot.platform)} ${getPlatformName(snapshot.platform)} ·
+              ${messages.length} message${messages.length === 1 ? "" : "s"} · archived ${escapeHtml(capturedAt)}
+              ${missing > 0 ? ` · ${missing} message${missing === 1 ? "" : "s"} missing from the archive` : ""}
+            </p>
+
+            <div style="
+              flex: 1;
+              overflow-y: auto;
+              display: flex;
+              flex-direction: column;
+              gap: 10px;
+              padding-right: 4px;
+            ">
+              ${messages
+                .map(
+                  (message) => `
+                <div style="
+                  padding: 10px 12px;
+                  background: ${message.role === "user" ? "#1c2420" : "#131917"};
+                  border: 1px solid #2a3530;
+                  border-left: 3px solid ${message.role === "user" ? "#2dd4a7" : "#2a3530"};
+                  border-radius: 6px;
+                ">
+                  <div style="color: #9caba3; font-size: 11px; text-transform: uppercase; letter-spacing: 0.5px; font-weight: 600; margin-bottom: 6px;">
+                    ${message.role === "user" ? "You" : "Assistant"}
+                  </div>
+                  <div style="color: #e8efe9; font-size: 13px; line-height: 1.5; white-space: pre-wrap; word-break: break-word;">${escapeHtml(message.content)}</div>
+                </div>`,
+                )
+                .join("")}
+            </div>
+
+            <div style="display: flex; gap: 10px;">
+              <button id="copy-transcript" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Copy Transcript</button>
+              <button id="done-transcript-viewer" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Done</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const closeViewer = () => {
+        modal.remove();
+        resolve();
+      };
+
+      const copyButton = modal.querySelector(
+        "#copy-transcript",
+      ) as HTMLButtonElement;
+      copyButton.addEventListener("click", async () => {
+        const text = messages
+          .map(
+            (message) =>
+              `${message.role === "user" ? "User" : "Assistant"}:\n${message.content}`,
+          )
+          .join("\n\n");
+        try {
+          await navigator.clipboard.writeText(text);
+          copyButton.textContent = "Copied ✓";
+        } catch (error) {
+          copyButton.textContent = "Copy failed";
+        }
+      });
+
+      modal
+        .querySelector("#done-transcript-viewer")
+        ?.addEventListener("click", closeViewer);
+      modal
+        .querySelector("#close-transcript-viewer")
+        ?.addEventListener("click", closeViewer);
+      modal
+        .querySelector(".arbor-transcript-overlay")
+        ?.addEventListener("click", (e) => {
+          if (e.target === e.currentTarget) {
+            closeViewer();
+          }
+        });
+    });
+  }
+}
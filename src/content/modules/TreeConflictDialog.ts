@@ -0,0 +1,138 @@
+/**
+ * TreeConflictDialog - Settle edits to a tree made in two places at once
+ * Shown when another tab or the graph window changed the same chats
+ */
+
+import type {
+  ConflictResolution,
+  TreeConflict,
+} from "../../utils/treeMerge";
+
+// Conflicting chats listed by name before summarizing the rest
+const MAX_LISTED_TITLES = 6;
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "tree name",
+  rootNodeId: "root chat",
+  digest: "digest",
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class TreeConflictDialog {
+  /**
+   * Ask which side to keep; there is no dismissing it, a save is waiting
+   * Edits that didn't conflict are kept either way
+   */
+  static show(conflict: TreeConflict): Promise<ConflictResolution> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-tree-conflict-dialog")?.remove();
+
+      const treeName = escapeHtml(conflict.treeName);
+      const listed = conflict.nodeTitles.slice(0, MAX_LISTED_TITLES);
+      const unlisted = conflict.nodeTitles.length - listed.length;
+      const items = [
+        ...conflict.fields.map((field) => FIELD_LABELS[field] || field),
+        ...listed,
+        ...(unlisted > 0 ? [`and ${unlisted} more`] : []),
+      ];
+
+      const message = conflict.deletedRemotely
+        ? `"${treeName}" was deleted in another tab or window while you were editing it here.`
+        : `"${treeName}" was changed in another tab or window while you were editing it here. Everything else was merged, but these were changed in both places:`;
+      const keepLocalLabel = conflict.deletedRemotely
+        ? "Keep the tree"
+        : "Keep my changes";
+      const keepRemoteLabel = conflict.deletedRemotely
+        ? "Leave it deleted"
+        : "Keep the other changes";
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-tree-conflict-dialog";
+
+      modal.innerHTML = `
+        <div style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 440px;
+            width: 90%;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600;">
+              ⚠️ Edited in two places
+            </h2>
+            <p style="color: #9caba3; margin: 0; font-size: 13px; line-height: 1.5;">
+              ${message}
+            </p>
+            ${
+              items.length > 0
+                ? `<ul style="margin: 0; padding: 10px 10px 10px 28px; background: #131917; border: 1px solid #2a3530; border-radius: 6px; color: #e8efe9; font-size: 13px; line-height: 1.6; max-height: 180px; overflow-y: auto;">
+                    ${items.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}
+                  </ul>`
+                : ""
+            }
+            <div style="display: flex; gap: 10px;">
+              <button id="keep-local-changes" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">${keepLocalLabel}</button>
+              <button id="keep-remote-changes" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">${keepRemoteLabel}</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const choose = (resolution: ConflictResolution) => {
+        modal.remove();
+        resolve(resolution);
+      };
+
+      modal
+        .querySelector("#keep-local-changes")
+        ?.addEventListener("click", () => choose("local"));
+      modal
+        .querySelector("#keep-remote-changes")
+        ?.addEventListener("click", () => choose("remote"));
+    });
+  }
+}
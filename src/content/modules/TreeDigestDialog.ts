@@ -0,0 +1,234 @@
+/**
+ * TreeDigestDialog - View, regenerate and export a tree's digest
+ */
+
+import type { ChatTree, TreeDigest } from "../../types";
+import { TreeDigester } from "./context/TreeDigester";
+import { downloadBlob, sanitizeFileName } from "../../utils/download";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export class TreeDigestDialog {
+  /**
+   * Show the digest; resolves when the dialog is closed
+   *
+   * @param generate - builds and saves a new digest for the tree
+   */
+  static show(
+    tree: ChatTree,
+    generate: (onProgress: (message: string) => void) => Promise<TreeDigest>,
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      document.getElementById("arbor-tree-digest-dialog")?.remove();
+
+      const nodes = Object.values(tree.nodes);
+      const missingSummaries = nodes.filter((node) => !node.summary).length;
+
+      const modal = document.createElement("div");
+      modal.id = "arbor-tree-digest-dialog";
+
+      modal.innerHTML = `
+        <div class="arbor-tree-digest-overlay" style="
+          position: fixed;
+          inset: 0;
+          background: rgba(0,0,0,0.8);
+          z-index: 2147483647;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+        ">
+          <div style="
+            background: #1a1a1a;
+            border: 1px solid #2a3530;
+            border-radius: 12px;
+            padding: 24px;
+            max-width: 640px;
+            width: 90%;
+            max-height: 85vh;
+            display: flex;
+            flex-direction: column;
+            gap: 14px;
+            box-shadow: 0 8px 24px rgba(0,0,0,0.6);
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          ">
+            <div style="display: flex; justify-content: space-between; align-items: center; gap: 12px;">
+              <h2 style="color: #e8efe9; margin: 0; font-size: 18px; font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">
+                🧾 ${escapeHtml(tree.name)} Digest
+              </h2>
+              <button id="close-tree-digest" style="
+                background: none;
+                border: none;
+                color: #9caba3;
+                font-size: 24px;
+                cursor: pointer;
+                width: 32px;
+                height: 32px;
+                border-radius: 4px;
+                flex-shrink: 0;
+              ">×</button>
+            </div>
+
+            <p id="tree-digest-meta" style="color: #9caba3; margin: 0; font-size: 12px; line-height: 1.5;"></p>
+
+            ${
+              missingSummaries > 0
+                ? `<p style="color: #9caba3; margin: 0; font-size: 12px; line-height: 1.5; padding: 8px 10px; background: #1c2420; border: 1px solid #2a3530; border-radius: 6px;">
+                    ${missingSummaries} of ${nodes.length} chats have no summary yet, so only their titles are used. Summarize them first for a richer digest.
+                  </p>`
+                : ""
+            }
+
+            <div id="tree-digest-text" style="
+              flex: 1;
+              min-height: 120px;
+              overflow-y: auto;
+              padding: 12px;
+              background: #131917;
+              border: 1px solid #2a3530;
+              border-radius: 6px;
+              color: #e8efe9;
+              font-size: 13px;
+              line-height: 1.6;
+              white-space: pre-wrap;
+              word-break: break-word;
+            "></div>
+
+            <div style="display: flex; gap: 10px;">
+              <button id="generate-tree-digest" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: linear-gradient(135deg, #2dd4a7 0%, #1eb88a 100%);
+                color: #0c0f0e;
+                border: none;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              "></button>
+              <button id="copy-tree-digest" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Copy Brief</button>
+              <button id="download-tree-digest" style="
+                flex: 1;
+                padding: 10px 16px;
+                background: #1c2420;
+                color: #9caba3;
+                border: 1px solid #2a3530;
+                border-radius: 8px;
+                cursor: pointer;
+                font-size: 13px;
+                font-weight: 600;
+              ">Download .md</button>
+            </div>
+          </div>
+        </div>
+      `;
+
+      document.body.appendChild(modal);
+
+      const meta = modal.querySelector("#tree-digest-meta") as HTMLElement;
+      const textEl = modal.querySelector("#tree-digest-text") as HTMLElement;
+      const generateButton = modal.querySelector(
+        "#generate-tree-digest",
+      ) as HTMLButtonElement;
+      const copyButton = modal.querySelector(
+        "#copy-tree-digest",
+      ) as HTMLButtonElement;
+      const downloadButton = modal.querySelector(
+        "#download-tree-digest",
+      ) as HTMLButtonElement;
+
+      const render = () => {
+        const digest = tree.digest;
+        copyButton.disabled = !digest;
+        downloadButton.disabled = !digest;
+        generateButton.textContent = digest ? "Regenerate" : "Generate Digest";
+
+        if (!digest) {
+          meta.textContent = `${nodes.length} chats · no digest yet`;
+          textEl.textContent =
+            "Generate a digest to combine every chat's summary into one brief you can paste into a fresh chat.";
+          textEl.style.color = "#9caba3";
+          return;
+        }
+
+        meta.textContent = [
+          `Generated ${new Date(digest.generatedAt).toLocaleString()}`,
+          `${digest.nodeCount} chats`,
+          digest.usedLLM ? "AI digest" : "outline only (no AI provider configured)",
+          TreeDigester.isStale(tree) ? "⚠️ tree changed since" : "",
+        ]
+          .filter(Boolean)
+          .join(" · ");
+        textEl.textContent = digest.text;
+        textEl.style.color = "#e8efe9";
+      };
+
+      render();
+
+      generateButton.addEventListener("click", async () => {
+        generateButton.disabled = true;
+        try {
+          await generate((message) => {
+            generateButton.textContent = message;
+          });
+        } catch (error) {
+          meta.textContent = `Couldn't generate digest: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`;
+          generateButton.disabled = false;
+          generateButton.textContent = "Try Again";
+          return;
+        }
+        generateButton.disabled = false;
+        render();
+      });
+
+      copyButton.addEventListener("click", async () => {
+        try {
+          await navigator.clipboard.writeText(TreeDigester.toMarkdown(tree));
+          copyButton.textContent = "Copied ✓";
+        } catch (error) {
+          copyButton.textContent = "Copy failed";
+        }
+      });
+
+      downloadButton.addEventListener("click", () => {
+        downloadBlob(
+          new Blob([TreeDigester.toMarkdown(tree)], { type: "text/markdown" }),
+          `${sanitizeFileName(tree.name, "arbor-tree")} digest.md`,
+        );
+      });
+
+      const closeDialog = () => {
+        modal.remove();
+        resolve();
+      };
+
+      modal
+        .querySelector("#close-tree-digest")
+        ?.addEventListener("click", closeDialog);
+      modal
+        .querySelector(".arbor-tree-digest-overlay")
+        ?.addEventListener("click", (e) => {
+          if (e.target === e.currentTarget) {
+            closeDialog();
+          }
+        });
+    });
+  }
+}
@@ -1,10 +1,12 @@
 import { db } from "../db";
-import type { ChatTree, ChatNode } from "../../types";
+import { TreeHistory } from "../../storage/treeHistory";
+import { NodeManager } from "./NodeManager";
+import type { ChatTree, ChatNode, TreeDigest, PlatformId } from "../../types";
 
 export class TreeManager {
   async createTree(
     name: string,
-    platform: "chatgpt" | "gemini" | "claude" | "perplexity"
+    platform: PlatformId
   ): Promise<ChatTree> {
     
     const treeId = `tree-${Date.now()}-${Math.random()
@@ -38,6 +40,7 @@ export class TreeManager {
 
     await db.saveTree(tree);
     await db.saveNode(rootNode, treeId);
+    await TreeHistory.recordTreeChange(`Create tree "${name}"`, null, tree);
 
     return tree;
   }
@@ -45,12 +48,19 @@ export class TreeManager {
   async deleteTree(
     treeId: string,
     trees: Record<string, ChatTree>
-  ): Promise<{ success: boolean; nextTreeId: string | null; error?: string }> {
+  ): Promise<{
+    success: boolean;
+    nextTreeId: string | null;
+    historyEntryId?: string;
+    error?: string;
+  }> {
     const tree = trees[treeId];
     if (!tree) {
       return { success: false, nextTreeId: null, error: "Tree not found" };
     }
 
+    const before = TreeHistory.snapshot(tree);
+
     try {
       // Recursively delete all nodes starting from root
       const deleteNodeRecursive = async (nodeId: string) => {
@@ -74,11 +84,24 @@ export class TreeManager {
       await db.deleteTree(treeId);
       delete trees[treeId];
 
+      const linked = await NodeManager.unlinkDeleted(
+        Object.values(before.nodes),
+        trees,
+      );
+      const entry = await TreeHistory.record(
+        `Delete tree "${before.name}"`,
+        treeId,
+        { tree: before, layout: await TreeHistory.getManualLayout(treeId) },
+        { tree: null, layout: null },
+        linked,
+      );
+      await chrome.storage.local.remove(`manualPositions_${treeId}`);
+
       // Return next tree ID if available
       const remainingTrees = Object.keys(trees);
       const nextTreeId = remainingTrees.length > 0 ? remainingTrees[0] : null;
 
-      return { success: true, nextTreeId };
+      return { success: true, nextTreeId, historyEntryId: entry.id };
     } catch (error) {
       console.error("Error deleting tree:", error);
       return {
@@ -97,16 +120,34 @@ export class TreeManager {
     const tree = trees[treeId];
     if (!tree) return;
 
+    const before = TreeHistory.snapshot(tree);
+
     // Update both tree name AND root node title for consistency
     tree.name = newName;
     const rootNode = tree.nodes[tree.rootNodeId];
     if (rootNode) {
       rootNode.title = newName;
+      rootNode.titleLocked = true;
       rootNode.updatedAt = new Date().toISOString();
       await db.saveNode(rootNode, treeId);
     }
     
     tree.updatedAt = new Date().toISOString();
+    const after = TreeHistory.snapshot(tree);
+    await db.saveTree(tree);
+    await TreeHistory.recordTreeChange(
+      `Rename tree to "${newName}"`,
+      before,
+      after
+    );
+  }
+
+  async updateTreeDigest(tree: ChatTree, digest: TreeDigest): Promise<void> {
+    const before = TreeHistory.snapshot(tree);
+    tree.digest = digest;
+    tree.updatedAt = new Date().toISOString();
+    const after = TreeHistory.snapshot(tree);
     await db.saveTree(tree);
+    await TreeHistory.recordTreeChange("Update digest", before, after);
   }
 }
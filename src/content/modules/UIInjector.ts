@@ -3,25 +3,29 @@
  * Refactored to use smaller, focused modules
  */
 
-import type { ChatTree } from "../../types";
+import type { ChatTree, TagFilter, PlatformId } from "../../types";
 import { StyleInjector } from "./StyleInjector";
 import { SidebarRenderer } from "./SidebarRenderer";
 import { GraphViewRenderer } from "./GraphViewRenderer";
 import { ToggleButtonsManager } from "./ToggleButtonsManager";
 import { SidebarListeners } from "./SidebarListeners";
+import type { SearchPanel } from "./SearchPanel";
+import type { RelatedPanel } from "./RelatedPanel";
 import { db } from "../db";
 
 export interface AvailableChat {
   id: string;
   title: string;
   url: string;
-  platform: "chatgpt" | "gemini" | "claude" | "perplexity";
+  platform: PlatformId;
 }
 
 export class UIInjector {
   private onSidebarAction: (action: string, data?: any) => void;
   private toggleButtonsManager: ToggleButtonsManager;
   private sidebarListeners: SidebarListeners;
+  private searchPanel: SearchPanel | null = null;
+  private relatedPanel: RelatedPanel | null = null;
 
   constructor(onSidebarAction: (action: string, data?: any) => void) {
     this.onSidebarAction = onSidebarAction;
@@ -34,6 +38,20 @@ export class UIInjector {
     );
   }
 
+  /**
+   * Search panel to keep mounted at the top of the sidebar across re-renders
+   */
+  setSearchPanel(searchPanel: SearchPanel) {
+    this.searchPanel = searchPanel;
+  }
+
+  /**
+   * Related chats panel to keep mounted below the current tree across re-renders
+   */
+  setRelatedPanel(relatedPanel: RelatedPanel) {
+    this.relatedPanel = relatedPanel;
+  }
+
   injectStyles() {
     StyleInjector.inject();
   }
@@ -41,7 +59,8 @@ export class UIInjector {
   async injectSidebar(
     trees: Record<string, ChatTree>,
     currentTreeId: string | null,
-    untrackedChats: AvailableChat[]
+    untrackedChats: AvailableChat[],
+    tagFilter: TagFilter | null = null
   ) {
     let sidebar = document.getElementById("arbor-sidebar-container");
 
@@ -55,14 +74,31 @@ export class UIInjector {
     // Check API key availability
     const hasApiKey = await this.checkApiKeyAvailability();
 
+    const searchHadFocus = this.searchPanel?.hasFocus() ?? false;
+
     sidebar.innerHTML = SidebarRenderer.render(
       trees,
       currentTreeId,
       untrackedChats,
-      hasApiKey
+      hasApiKey,
+      tagFilter
     );
 
+    const content = sidebar.querySelector<HTMLElement>(".arbor-content");
+    if (this.searchPanel && content && Object.keys(trees).length > 0) {
+      this.searchPanel.mount(content, searchHadFocus);
+    }
+
     this.sidebarListeners.attach();
+
+    // Mounted after listeners attach so the sidebar's own section handlers
+    // aren't bound to the persistent element again on every render
+    if (this.relatedPanel && content && currentTreeId) {
+      const untrackedSection = content
+        .querySelector('[data-section="untracked-chats"]')
+        ?.closest(".arbor-section");
+      this.relatedPanel.mount(content, untrackedSection || null);
+    }
     this.toggleButtonsManager.inject();
     // Sync button state with sidebar visibility (sidebar starts visible)
     this.toggleButtonsManager.updateSidebarState(
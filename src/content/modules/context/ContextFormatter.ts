@@ -17,6 +17,7 @@ export interface FormatOptions {
   messageCount?: number; // How many messages to include
   customPrompt?: string; // Custom summarization prompt (optional)
   customConnectionType?: string; // Custom connection type label if connectionType is 'custom'
+  nodeSummary?: string; // Saved summary of the parent node, used instead of summarizing again
 }
 
 export interface ContextFormatter {
@@ -0,0 +1,347 @@
+/**
+ * NodeEmbeddings - Finds chats about the same topic in other trees
+ *
+ * Each chat's title, tags and summary are embedded once and kept in the
+ * extension's `node_embeddings` IndexedDB store (through the background, so
+ * every chat site shares one cache), then re-embedded when they change.
+ * Providers with an embeddings endpoint (OpenAI, Gemini) supply the vectors.
+ * Otherwise (no provider, Anthropic, or no API key) chats are compared by
+ * TF-IDF over their words, computed locally.
+ */
+
+import type { ChatNode, ChatTree, NodeEmbedding } from "../../../types";
+import { db } from "../../db";
+import {
+  isExtensionPage,
+  relayToBackground,
+} from "../../../utils/backgroundRelay";
+import { LLMConfigManager } from "./llm/LLMConfigManager";
+import { getProviderConfig } from "./llm/providers/config";
+import type { LLMService } from "./llm/LLMService";
+
+const TFIDF_MODEL = "tfidf";
+
+// Texts per embeddings request
+const EMBED_BATCH_SIZE = 50;
+
+// Title, tags and summary rarely need more; keeps requests small
+const MAX_EMBED_CHARS = 2000;
+
+// Words too common to say anything about a chat's topic
+const STOP_WORDS = new Set(
+  (
+    "the and for with that this from what how why are was were can you your " +
+    "about into using use does not but have has had its it's they them then " +
+    "than there their which when where who will would should could also more " +
+    "some any all our out get new chat help make need want like just"
+  ).split(" "),
+);
+
+export interface RelatedNode {
+  treeId: string;
+  treeName: string;
+  node: ChatNode;
+  score: number; // Cosine similarity, 0-1
+}
+
+export class NodeEmbeddings {
+  /**
+   * Chats in other trees closest in topic to the given one, best first
+   * Chats in the same tree are left out; the graph already shows those
+   */
+  static async findRelated(
+    treeId: string,
+    nodeId: string,
+    trees: Record<string, ChatTree>,
+    limit: number = 8,
+  ): Promise<RelatedNode[]> {
+    const entries = await this.update(trees);
+    const target = entries.get(nodeId);
+    if (!target) return [];
+
+    const candidates = Array.from(entries.values()).filter(
+      (entry) => entry.treeId !== treeId && entry.model === target.model,
+    );
+
+    let score: (entry: NodeEmbedding) => number;
+    if (target.model === TFIDF_MODEL) {
+      const idf = this.getIdf([target, ...candidates]);
+      const targetWeights = this.weigh(target.terms || {}, idf);
+      score = (entry) =>
+        this.cosineSparse(targetWeights, this.weigh(entry.terms || {}, idf));
+    } else {
+      score = (entry) => this.cosine(target.vector || [], entry.vector || []);
+    }
+
+    return candidates
+      .map((entry) => ({ entry, score: score(entry) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ entry, score }) => ({
+        treeId: entry.treeId,
+        treeName: trees[entry.treeId].name,
+        node: trees[entry.treeId].nodes[entry.nodeId],
+        score,
+      }));
+  }
+
+  /**
+   * Embed chats that are new or edited since their last embedding and drop
+   * entries for deleted chats
+   * Returns the current entry for every chat
+   */
+  static async update(
+    trees: Record<string, ChatTree>,
+  ): Promise<Map<string, NodeEmbedding>> {
+    const stored = await this.loadStored();
+    const storedById = new Map(stored.map((entry) => [entry.nodeId, entry]));
+
+    const { model, llmService } = await this.getActiveModel();
+    const current = new Map<string, NodeEmbedding>();
+    const pending: Array<{
+      node: ChatNode;
+      treeId: string;
+      text: string;
+      sourceHash: string;
+    }> = [];
+
+    Object.values(trees).forEach((tree) => {
+      Object.values(tree.nodes).forEach((node) => {
+        const text = this.getText(node);
+        const sourceHash = this.hash(text);
+        const existing = storedById.get(node.id);
+        if (
+          existing &&
+          existing.model === model &&
+          existing.treeId === tree.id &&
+          existing.sourceHash === sourceHash
+        ) {
+          current.set(node.id, existing);
+        } else {
+          pending.push({ node, treeId: tree.id, text, sourceHash });
+        }
+      });
+    });
+
+    // Only chats gone from a loaded tree; trees that aren't loaded (archived
+    // ones) keep theirs, and deleted trees are cleared with the tree
+    await this.deleteStored(
+      stored
+        .filter(
+          (entry) =>
+            trees[entry.treeId] && !trees[entry.treeId].nodes[entry.nodeId],
+        )
+        .map((entry) => entry.nodeId),
+    );
+
+    if (pending.length === 0) {
+      return current;
+    }
+
+    if (llmService) {
+      try {
+        const fresh: NodeEmbedding[] = [];
+        for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+          const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+          const { vectors } = await llmService.embed(
+            batch.map((item) => item.text),
+          );
+          batch.forEach((item, index) => {
+            fresh.push({
+              nodeId: item.node.id,
+              treeId: item.treeId,
+              model,
+              sourceHash: item.sourceHash,
+              vector: vectors[index],
+              embeddedAt: Date.now(),
+            });
+          });
+        }
+        await this.saveStored(fresh);
+        fresh.forEach((entry) => current.set(entry.nodeId, entry));
+        return current;
+      } catch (error) {
+        // Compare every chat locally this time, without replacing stored vectors
+        console.warn(
+          "🌳 Arbor: Embeddings request failed, using local word matching:",
+          error,
+        );
+        return this.buildTfIdfEntries(trees);
+      }
+    }
+
+    const fresh = pending.map((item) => this.toTfIdfEntry(item));
+    await this.saveStored(fresh);
+    fresh.forEach((entry) => current.set(entry.nodeId, entry));
+    return current;
+  }
+
+  private static async loadStored(): Promise<NodeEmbedding[]> {
+    if (!isExtensionPage()) {
+      return relayToBackground<NodeEmbedding[]>("node-embeddings-get", {});
+    }
+    return db.getAllNodeEmbeddings();
+  }
+
+  private static async saveStored(entries: NodeEmbedding[]): Promise<void> {
+    if (entries.length === 0) return;
+    if (!isExtensionPage()) {
+      return relayToBackground("node-embeddings-save", { entries });
+    }
+    return db.saveNodeEmbeddings(entries);
+  }
+
+  private static async deleteStored(nodeIds: string[]): Promise<void> {
+    if (nodeIds.length === 0) return;
+    if (!isExtensionPage()) {
+      return relayToBackground("node-embeddings-delete", { nodeIds });
+    }
+    return db.deleteNodeEmbeddings(nodeIds);
+  }
+
+  /**
+   * Model key for the configured provider's embeddings endpoint, or the
+   * local TF-IDF fallback
+   */
+  private static async getActiveModel(): Promise<{
+    model: string;
+    llmService: LLMService | null;
+  }> {
+    try {
+      const config = await LLMConfigManager.loadConfig();
+      const embeddingModel = getProviderConfig(config.provider)?.embeddingModel;
+      if (embeddingModel) {
+        const llmService = await LLMConfigManager.getLLMService();
+        if (llmService && (await llmService.isAvailable())) {
+          return { model: `${config.provider}:${embeddingModel}`, llmService };
+        }
+      }
+    } catch (error) {
+      // Fall back to local matching
+    }
+    return { model: TFIDF_MODEL, llmService: null };
+  }
+
+  private static getText(node: ChatNode): string {
+    return [node.title, (node.tags || []).join(" "), node.summary || ""]
+      .filter(Boolean)
+      .join("\n")
+      .slice(0, MAX_EMBED_CHARS);
+  }
+
+  private static hash(text: string): string {
+    let hash = 5381;
+    for (const char of text) {
+      hash = ((hash << 5) + hash + char.charCodeAt(0)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  private static buildTfIdfEntries(
+    trees: Record<string, ChatTree>,
+  ): Map<string, NodeEmbedding> {
+    const entries = new Map<string, NodeEmbedding>();
+    Object.values(trees).forEach((tree) => {
+      Object.values(tree.nodes).forEach((node) => {
+        const text = this.getText(node);
+        entries.set(
+          node.id,
+          this.toTfIdfEntry({
+            node,
+            treeId: tree.id,
+            text,
+            sourceHash: this.hash(text),
+          }),
+        );
+      });
+    });
+    return entries;
+  }
+
+  private static toTfIdfEntry(item: {
+    node: ChatNode;
+    treeId: string;
+    text: string;
+    sourceHash: string;
+  }): NodeEmbedding {
+    const terms: Record<string, number> = {};
+    const count = (text: string, weight: number) => {
+      text
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((term) => term.length >= 3 && !STOP_WORDS.has(term))
+        .forEach((term) => {
+          terms[term] = (terms[term] || 0) + weight;
+        });
+    };
+    // Titles say the most about a chat's topic
+    count(item.node.title, 2);
+    count(item.text, 1);
+
+    return {
+      nodeId: item.node.id,
+      treeId: item.treeId,
+      model: TFIDF_MODEL,
+      sourceHash: item.sourceHash,
+      terms,
+      embeddedAt: Date.now(),
+    };
+  }
+
+  private static getIdf(entries: NodeEmbedding[]): Map<string, number> {
+    const documentFrequency = new Map<string, number>();
+    entries.forEach((entry) => {
+      Object.keys(entry.terms || {}).forEach((term) => {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      });
+    });
+
+    const idf = new Map<string, number>();
+    documentFrequency.forEach((frequency, term) => {
+      idf.set(term, Math.log((entries.length + 1) / (frequency + 1)) + 1);
+    });
+    return idf;
+  }
+
+  private static weigh(
+    terms: Record<string, number>,
+    idf: Map<string, number>,
+  ): Map<string, number> {
+    const weights = new Map<string, number>();
+    Object.entries(terms).forEach(([term, count]) => {
+      weights.set(term, (1 + Math.log(count)) * (idf.get(term) || 1));
+    });
+    return weights;
+  }
+
+  private static cosineSparse(
+    a: Map<string, number>,
+    b: Map<string, number>,
+  ): number {
+    let dot = 0;
+    a.forEach((weight, term) => {
+      dot += weight * (b.get(term) || 0);
+    });
+    const norm = (weights: Map<string, number>) =>
+      Math.sqrt(
+        Array.from(weights.values()).reduce((sum, w) => sum + w * w, 0),
+      );
+    const denominator = norm(a) * norm(b);
+    return denominator > 0 ? dot / denominator : 0;
+  }
+
+  private static cosine(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) return 0;
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+    return denominator > 0 ? dot / denominator : 0;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * NodeSummarizer - Generates the summary stored on a ChatNode
+ * Uses the configured LLM provider, falling back to a text-based summary
+ */
+
+import type { Message } from "./ContextFormatter";
+import { MessageProcessor } from "./MessageProcessor";
+import { TokenEstimator } from "./llm/TokenEstimator";
+import { LLMConfigManager } from "./llm/LLMConfigManager";
+
+// Stored summaries are shown on hover cards and sidebar subtitles
+const SUMMARY_MAX_LENGTH = 300;
+
+export interface NodeSummaryResult {
+  summary: string;
+  usedLLM: boolean;
+}
+
+export class NodeSummarizer {
+  static async summarize(messages: Message[]): Promise<NodeSummaryResult> {
+    const validMessages = MessageProcessor.filterValidMessages(messages);
+    if (validMessages.length === 0) {
+      throw new Error("No messages to summarize");
+    }
+
+    try {
+      const llmService = await LLMConfigManager.getLLMService();
+      if (llmService && (await llmService.isAvailable())) {
+        // Keep the most recent messages that fit the provider's input limit
+        const fitCount = TokenEstimator.findMaxMessagesThatFit(
+          validMessages,
+          SUMMARY_MAX_LENGTH,
+        );
+        const summary = await llmService.summarize(
+          validMessages.slice(-Math.max(1, fitCount)),
+          { maxLength: SUMMARY_MAX_LENGTH, style: "brief" },
+        );
+        if (summary.trim()) {
+          return { summary: summary.trim(), usedLLM: true };
+        }
+      }
+    } catch (error) {
+      console.warn(
+        "🌳 Arbor: LLM summary failed, using text-based summary:",
+        error,
+      );
+    }
+
+    return {
+      summary: MessageProcessor.generateBriefSummary(
+        validMessages,
+        SUMMARY_MAX_LENGTH,
+      ),
+      usedLLM: false,
+    };
+  }
+}
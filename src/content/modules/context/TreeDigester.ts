@@ -0,0 +1,227 @@
+/**
+ * TreeDigester - Synthesizes a whole tree into one project brief
+ *
+ * Node summaries are laid out along the parent/child structure, with each
+ * connection label spelled out ("goes deeper into", "raises questions about"),
+ * and sent to the configured provider. Outlines larger than the provider's
+ * input limit are digested in chunks, then the partial digests are merged.
+ */
+
+import type { ChatTree, ConnectionType, TreeDigest } from "../../../types";
+import type { LLMService } from "./llm/LLMService";
+import { TokenEstimator } from "./llm/TokenEstimator";
+import { LLMConfigManager } from "./llm/LLMConfigManager";
+
+// Target length of the digest and of each partial digest
+const DIGEST_MAX_WORDS = 400;
+const DIGEST_MAX_TOKENS = 1500;
+
+// Room left in each request for the instructions around the outline
+const PROMPT_OVERHEAD_TOKENS = 500;
+
+const CONNECTION_PHRASES: Record<ConnectionType, string> = {
+  deepens: "goes deeper into",
+  explores: "explores a related aspect of",
+  contrasts: "considers an alternative to",
+  examples: "works through examples of",
+  applies: "applies in practice",
+  questions: "raises questions about",
+  extends: "extends",
+  summarizes: "consolidates",
+  custom: "branches from",
+};
+
+export class TreeDigester {
+  /**
+   * One outline line per node, depth-first from the root
+   */
+  static buildOutline(tree: ChatTree): string[] {
+    const lines: string[] = [];
+    const visited = new Set<string>();
+
+    const walk = (nodeId: string, depth: number) => {
+      const node = tree.nodes[nodeId];
+      if (!node || visited.has(nodeId)) return;
+      visited.add(nodeId);
+
+      const parent = node.parentId ? tree.nodes[node.parentId] : undefined;
+      const relation = parent
+        ? ` (${CONNECTION_PHRASES[node.connectionLabel || "extends"]} "${parent.title}")`
+        : "";
+      const tags =
+        node.tags && node.tags.length > 0
+          ? ` [${node.tags.map((tag) => `#${tag}`).join(" ")}]`
+          : "";
+      const summary = node.summary
+        ? `: ${node.summary.replace(/\s+/g, " ").trim()}`
+        : "";
+
+      lines.push(
+        `${"  ".repeat(depth)}- ${node.title}${relation}${tags}${summary}`,
+      );
+      node.children.forEach((childId) => walk(childId, depth + 1));
+    };
+
+    walk(tree.rootNodeId, 0);
+    Object.keys(tree.nodes).forEach((nodeId) => walk(nodeId, 0));
+
+    return lines;
+  }
+
+  /**
+   * Fingerprint of the digest's input, to tell when a digest is out of date
+   */
+  static getSourceHash(tree: ChatTree): string {
+    let hash = 5381;
+    for (const char of this.buildOutline(tree).join("\n")) {
+      hash = ((hash << 5) + hash + char.charCodeAt(0)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  static isStale(tree: ChatTree): boolean {
+    return !!tree.digest && tree.digest.sourceHash !== this.getSourceHash(tree);
+  }
+
+  /**
+   * Build a digest with the configured provider
+   * Falls back to the plain outline when no provider is available
+   */
+  static async generate(
+    tree: ChatTree,
+    onProgress?: (message: string) => void,
+  ): Promise<TreeDigest> {
+    const outline = this.buildOutline(tree);
+    const digest = {
+      generatedAt: new Date().toISOString(),
+      nodeCount: Object.keys(tree.nodes).length,
+      sourceHash: this.getSourceHash(tree),
+    };
+
+    const llmService = await LLMConfigManager.getLLMService();
+    if (!llmService || !(await llmService.isAvailable())) {
+      return {
+        ...digest,
+        text: `"${tree.name}" covers ${outline.length} conversation${outline.length === 1 ? "" : "s"}:\n\n${outline.join("\n")}`,
+        usedLLM: false,
+      };
+    }
+
+    const budget = TokenEstimator.getMaxInputTokens() - PROMPT_OVERHEAD_TOKENS;
+    let chunks = this.chunk(outline, budget);
+
+    if (chunks.length === 1) {
+      onProgress?.("Writing digest...");
+      return {
+        ...digest,
+        text: await this.digestOutline(llmService, tree.name, chunks[0]),
+        usedLLM: true,
+      };
+    }
+
+    // Map: digest each part of the outline on its own
+    let partials: string[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress?.(`Digesting part ${i + 1} of ${chunks.length}...`);
+      partials.push(
+        await this.digestOutline(llmService, tree.name, chunks[i], {
+          part: i + 1,
+          total: chunks.length,
+        }),
+      );
+    }
+
+    // Reduce: merge partial digests until they fit in one request
+    while (partials.length > 1) {
+      chunks = this.chunk(partials, budget);
+      onProgress?.(`Merging ${partials.length} partial digests...`);
+      const merged: string[] = [];
+      for (const group of chunks) {
+        merged.push(await this.mergeDigests(llmService, tree.name, group));
+      }
+      // Guard against partials too large to ever share a request
+      if (merged.length >= partials.length) {
+        partials = [merged.join("\n\n")];
+        break;
+      }
+      partials = merged;
+    }
+
+    return { ...digest, text: partials[0], usedLLM: true };
+  }
+
+  /**
+   * Brief ready to paste into a fresh chat
+   */
+  static toMarkdown(tree: ChatTree): string {
+    const lines = [`# ${tree.name}`, ""];
+    if (tree.digest) {
+      lines.push("## Digest", "", tree.digest.text, "");
+    }
+    lines.push("## Conversation map", "", ...this.buildOutline(tree), "");
+    return lines.join("\n");
+  }
+
+  /**
+   * Group items so each group's estimated tokens stay within the budget
+   * An item larger than the budget on its own is truncated
+   */
+  private static chunk(items: string[], budget: number): string[][] {
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    for (const item of items) {
+      let text = item;
+      let tokens = TokenEstimator.estimateTokens(text);
+      if (tokens > budget) {
+        text = text.slice(0, budget * 4);
+        tokens = TokenEstimator.estimateTokens(text);
+      }
+
+      if (current.length > 0 && currentTokens + tokens > budget) {
+        chunks.push(current);
+        current = [];
+        currentTokens = 0;
+      }
+      current.push(text);
+      currentTokens += tokens;
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  private static digestOutline(
+    llmService: LLMService,
+    treeName: string,
+    lines: string[],
+    part?: { part: number; total: number },
+  ): Promise<string> {
+    const scope = part
+      ? `This is part ${part.part} of ${part.total} of the outline.`
+      : "";
+    const prompt = `Below is an outline of related AI chat conversations in a project called "${treeName}". Indentation shows which conversation branched from which; the phrase in parentheses says how each branch relates to its parent, followed by its tags and a summary. ${scope}
+
+Write a project brief of around ${DIGEST_MAX_WORDS} words that someone could paste into a new chat to catch it up. Cover the overall goal, the main threads and how they relate, key decisions and conclusions, alternatives that were considered, and open questions. Write in prose, not as a copy of the outline.
+
+Outline:
+${lines.join("\n")}`;
+
+    return llmService.complete(prompt, DIGEST_MAX_TOKENS);
+  }
+
+  private static mergeDigests(
+    llmService: LLMService,
+    treeName: string,
+    partials: string[],
+  ): Promise<string> {
+    const prompt = `The following are partial briefs, each covering part of the conversations in a project called "${treeName}". Merge them into a single project brief of around ${DIGEST_MAX_WORDS} words covering the overall goal, the main threads and how they relate, key decisions, alternatives considered, and open questions. Remove repetition.
+
+${partials.map((partial, i) => `Part ${i + 1}:\n${partial}`).join("\n\n")}`;
+
+    return llmService.complete(prompt, DIGEST_MAX_TOKENS);
+  }
+}
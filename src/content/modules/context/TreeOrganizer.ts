@@ -0,0 +1,213 @@
+/**
+ * TreeOrganizer - Asks the configured provider how a tree's chats fit together
+ *
+ * Node titles and summaries are sent as a numbered list; the provider answers
+ * with a parent and a connection type for each chat. The answer is checked
+ * (unknown nodes, cycles and unsuggestable types are dropped) and returned as
+ * a list of changes plus a copy of the tree with them applied, so the graph
+ * can preview it before anything is saved.
+ */
+
+import type { ChatNode, ChatTree, ConnectionType } from "../../../types";
+import { TokenEstimator } from "./llm/TokenEstimator";
+import { LLMConfigManager } from "./llm/LLMConfigManager";
+import { getSuggestableConnectionTypes } from "./connectionTypes";
+
+// Summaries are cut to this many characters, and left out entirely if the
+// list still doesn't fit in one request
+const SUMMARY_MAX_CHARS = 240;
+
+// Room left in the request for the instructions around the list
+const PROMPT_OVERHEAD_TOKENS = 600;
+
+// The answer is one short line per chat
+const TOKENS_PER_NODE = 20;
+const MAX_ANSWER_TOKENS = 8000;
+
+export interface OrganizeChange {
+  nodeId: string;
+  fromParentId: string | null;
+  toParentId: string; // Same as fromParentId if only the label changes
+  connectionLabel?: ConnectionType;
+}
+
+export interface OrganizeProposal {
+  treeId: string;
+  changes: OrganizeChange[];
+  preview: ChatTree; // The tree as it would look with every change applied
+}
+
+export class TreeOrganizer {
+  /**
+   * Get a proposed hierarchy for the tree from the configured provider
+   */
+  static async propose(
+    tree: ChatTree,
+    onProgress?: (message: string) => void,
+  ): Promise<OrganizeProposal> {
+    const llmService = await LLMConfigManager.getLLMService();
+    if (!llmService || !(await llmService.isAvailable())) {
+      throw new Error(
+        "Auto-organize needs an AI provider. Add an API key in Settings.",
+      );
+    }
+
+    const nodes = this.getOrderedNodes(tree);
+    if (nodes.length < 3) {
+      throw new Error("Add a few more chats to the tree first");
+    }
+
+    // Short keys keep the prompt and the answer small
+    const keys = new Map(nodes.map((node, i) => [`n${i + 1}`, node.id]));
+
+    onProgress?.(`Reading ${nodes.length} chats...`);
+    const answer = await llmService.complete(
+      this.buildPrompt(tree, nodes),
+      Math.min(MAX_ANSWER_TOKENS, 200 + nodes.length * TOKENS_PER_NODE),
+    );
+
+    onProgress?.("Checking the proposed structure...");
+    return this.parseProposal(tree, answer, keys);
+  }
+
+  /**
+   * Order in which to apply changes so each new parent is already in its
+   * final place, which keeps every intermediate tree free of cycles
+   */
+  static getApplyOrder(proposal: OrganizeProposal): OrganizeChange[] {
+    const depth = (nodeId: string) =>
+      this.getAncestry(proposal.preview, nodeId).length;
+
+    return [...proposal.changes].sort(
+      (a, b) => depth(a.nodeId) - depth(b.nodeId),
+    );
+  }
+
+  /**
+   * The node followed by its parent, grandparent and so on up to the root
+   */
+  private static getAncestry(tree: ChatTree, nodeId: string): string[] {
+    const ancestry: string[] = [];
+    let currentId: string | null = nodeId;
+    while (currentId && tree.nodes[currentId] && !ancestry.includes(currentId)) {
+      ancestry.push(currentId);
+      currentId = tree.nodes[currentId].parentId;
+    }
+    return ancestry;
+  }
+
+  /**
+   * Root first, then depth-first, so related chats stay next to each other
+   */
+  private static getOrderedNodes(tree: ChatTree): ChatNode[] {
+    const ordered: ChatNode[] = [];
+    const visited = new Set<string>();
+
+    const walk = (nodeId: string) => {
+      const node = tree.nodes[nodeId];
+      if (!node || visited.has(nodeId)) return;
+      visited.add(nodeId);
+      ordered.push(node);
+      node.children.forEach(walk);
+    };
+
+    walk(tree.rootNodeId);
+    Object.keys(tree.nodes).forEach(walk);
+
+    return ordered;
+  }
+
+  private static buildPrompt(tree: ChatTree, nodes: ChatNode[]): string {
+    const types = getSuggestableConnectionTypes();
+    const line = (node: ChatNode, i: number, withSummary: boolean) => {
+      const summary =
+        withSummary && node.summary
+          ? `: ${node.summary.replace(/\s+/g, " ").trim().slice(0, SUMMARY_MAX_CHARS)}`
+          : "";
+      return `n${i + 1}. ${node.title.replace(/\s+/g, " ")}${summary}`;
+    };
+
+    let list = nodes.map((node, i) => line(node, i, true));
+    const budget = TokenEstimator.getMaxInputTokens() - PROMPT_OVERHEAD_TOKENS;
+    if (TokenEstimator.estimateTokens(list.join("\n")) > budget) {
+      list = nodes.map((node, i) => line(node, i, false));
+    }
+
+    return `Below are AI chat conversations saved in a project called "${tree.name}", one per line with a key, a title and sometimes a summary. n1 is the project's starting chat.
+
+Organize them into a tree: for every chat except n1, pick the chat it most naturally follows on from as its parent, and say how it relates to that parent using exactly one of these types: ${types.join(", ")}. Group related chats under a common parent rather than putting everything under n1, but don't invent relationships between unrelated chats; those stay under n1.
+
+Answer with JSON only, no commentary, in this form:
+{"nodes": [{"id": "n2", "parent": "n1", "type": "${types[0]}"}]}
+
+Chats:
+${list.join("\n")}`;
+  }
+
+  private static parseProposal(
+    tree: ChatTree,
+    answer: string,
+    keys: Map<string, string>,
+  ): OrganizeProposal {
+    const json = answer.match(/\{[\s\S]*\}/);
+    let entries: Array<{ id?: unknown; parent?: unknown; type?: unknown }>;
+    try {
+      entries = JSON.parse(json ? json[0] : answer).nodes;
+      if (!Array.isArray(entries)) throw new Error("No nodes");
+    } catch (error) {
+      throw new Error("The AI provider's answer wasn't a structure Arbor could read");
+    }
+
+    const suggestable = getSuggestableConnectionTypes();
+    const preview: ChatTree = JSON.parse(JSON.stringify(tree));
+    const changes: OrganizeChange[] = [];
+
+    const isAncestor = (ancestorId: string, nodeId: string) =>
+      this.getAncestry(preview, nodeId).includes(ancestorId);
+
+    for (const entry of entries) {
+      const nodeId = keys.get(String(entry.id));
+      const parentId = keys.get(String(entry.parent));
+      if (!nodeId || !parentId || nodeId === tree.rootNodeId) continue;
+      if (changes.some((change) => change.nodeId === nodeId)) continue;
+
+      const node = preview.nodes[nodeId];
+      const type = String(entry.type).toLowerCase() as ConnectionType;
+      const label = suggestable.includes(type) ? type : undefined;
+
+      // Moving a chat under its own descendant would cut the branch loose
+      const moved =
+        parentId !== node.parentId &&
+        parentId !== nodeId &&
+        !isAncestor(nodeId, parentId);
+      // Labels the user picked are only replaced when the chat moves
+      const relabeled =
+        !!label &&
+        label !== node.connectionLabel &&
+        (moved || (!!node.parentId && !node.connectionLabel));
+      if (!moved && !relabeled) continue;
+
+      const fromParentId = node.parentId;
+      if (moved) {
+        if (fromParentId && preview.nodes[fromParentId]) {
+          const oldParent = preview.nodes[fromParentId];
+          oldParent.children = oldParent.children.filter((id) => id !== nodeId);
+        }
+        preview.nodes[parentId].children.push(nodeId);
+        node.parentId = parentId;
+      }
+      if (relabeled) {
+        node.connectionLabel = label;
+      }
+
+      changes.push({
+        nodeId,
+        fromParentId,
+        toParentId: node.parentId!,
+        connectionLabel: relabeled ? label : undefined,
+      });
+    }
+
+    return { treeId: tree.id, changes, preview };
+  }
+}
@@ -31,7 +31,9 @@ export class HybridFormatter implements ContextFormatter {
     );
 
     // Generate brief summary from all messages (not just recent)
-    const summary = MessageProcessor.generateBriefSummary(validMessages, 250);
+    const summary =
+      options.nodeSummary ||
+      MessageProcessor.generateBriefSummary(validMessages, 250);
 
     // Group into pairs for better readability
     const pairs = MessageProcessor.groupIntoPairs(processedMessages);
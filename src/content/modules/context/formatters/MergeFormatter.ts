@@ -0,0 +1,90 @@
+/**
+ * MergeFormatter - Consolidates several branch conversations into one context
+ * Used to close out exploratory branches in a new "summarizes" chat
+ */
+
+import type {
+  ContextFormatter,
+  FormatOptions,
+  Message,
+} from "../ContextFormatter";
+import { MessageProcessor } from "../MessageProcessor";
+
+export interface MergeSource {
+  title: string;
+  summary?: string; // Saved node summary, preferred over a text-based one
+  messages: Message[];
+}
+
+export interface MergeFormatOptions {
+  treeName?: string;
+  messageLength?: number | "full"; // Per message in each branch's excerpt
+  messageCount?: number; // Recent messages quoted from each branch
+}
+
+export class MergeFormatter implements ContextFormatter {
+  /**
+   * Single-conversation form, for use wherever a ContextFormatter is expected
+   */
+  format(messages: Message[], options: FormatOptions): string {
+    return this.formatSources(
+      [
+        {
+          title: options.parentTitle,
+          summary: options.nodeSummary,
+          messages,
+        },
+      ],
+      {
+        messageLength: options.messageLength,
+        messageCount: options.messageCount,
+      },
+    );
+  }
+
+  formatSources(
+    sources: MergeSource[],
+    options: MergeFormatOptions = {},
+  ): string {
+    const { treeName, messageLength = 500, messageCount = 4 } = options;
+
+    let context = treeName
+      ? `I explored several branches of "${treeName}" in separate conversations. Here is where each one ended up.\n\n`
+      : "I explored several branches of a topic in separate conversations. Here is where each one ended up.\n\n";
+
+    sources.forEach((source, index) => {
+      const validMessages = MessageProcessor.filterValidMessages(
+        source.messages,
+      );
+      const summary =
+        source.summary ||
+        (validMessages.length > 0
+          ? MessageProcessor.generateBriefSummary(validMessages, 250)
+          : "");
+
+      context += `## Branch ${index + 1}: "${source.title}"\n\n`;
+      if (summary) {
+        context += `Summary:\n${summary}\n\n`;
+      }
+
+      const excerpt = MessageProcessor.processMessages(
+        MessageProcessor.getRecentMessages(validMessages, messageCount),
+        messageLength,
+      );
+      if (excerpt.length > 0) {
+        context += `Where it ended:\n\n`;
+        excerpt.forEach((msg) => {
+          const roleLabel = msg.role === "user" ? "User" : "Assistant";
+          context += `${roleLabel}: ${msg.content}\n\n`;
+        });
+      }
+    });
+
+    context +=
+      "Let's summarize and consolidate what we've discussed across these branches. ";
+    context +=
+      "Compare them, point out where they agree or conflict, and pull together the conclusions, decisions and open questions into one picture.";
+
+    return context;
+  }
+}
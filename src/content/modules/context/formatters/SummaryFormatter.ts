@@ -113,7 +113,7 @@ export class SummaryFormatter implements ContextFormatter {
     let llmService: LLMService | null = this.llmService;
 
     // If we don't have an LLM service, try to get it dynamically
-    if (!llmService) {
+    if (!llmService && !options.nodeSummary) {
       try {
         llmService = await LLMConfigManager.getLLMService();
       } catch (error) {
@@ -121,7 +121,10 @@ export class SummaryFormatter implements ContextFormatter {
       }
     }
 
-    if (llmService) {
+    if (options.nodeSummary) {
+      // The parent node already has a summary; don't pay for another one
+      summary = options.nodeSummary;
+    } else if (llmService) {
       try {
         const isAvailable = await llmService.isAvailable();
         
@@ -197,7 +200,9 @@ export class SummaryFormatter implements ContextFormatter {
     const { parentTitle, selectedText, connectionType } = options;
 
     const validMessages = MessageProcessor.filterValidMessages(messages);
-    const summary = MessageProcessor.generateBriefSummary(validMessages, 400);
+    const summary =
+      options.nodeSummary ||
+      MessageProcessor.generateBriefSummary(validMessages, 400);
 
     // Build context
     let context = `This is a continuation of our previous conversation: "${parentTitle}".\n\n`;
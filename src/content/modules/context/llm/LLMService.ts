@@ -21,6 +21,21 @@ export interface LLMService {
    */
   summarize(messages: Message[], options?: SummaryOptions): Promise<string>;
 
+  /**
+   * Run a free-form prompt through the provider
+   * @param prompt - Complete prompt text
+   * @param maxTokens - Maximum response tokens
+   * @returns Promise resolving to the response text
+   */
+  complete(prompt: string, maxTokens?: number): Promise<string>;
+
+  /**
+   * Embed texts with the provider's embeddings endpoint
+   * @param texts - Texts to embed
+   * @returns Promise resolving to one vector per text and the model used
+   */
+  embed(texts: string[]): Promise<{ vectors: number[][]; model: string }>;
+
   /**
    * Extract key points from conversation
    * @param messages - Array of conversation messages
@@ -159,6 +159,102 @@ export abstract class BaseLLMService implements LLMService {
     }
   }
 
+  async complete(prompt: string, maxTokens: number = 1000): Promise<string> {
+    if (!isExtensionContextAvailable()) {
+      throw new Error(
+        "Extension context not available. Please reload the page."
+      );
+    }
+
+    const response = await new Promise<any>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error("Request timeout"));
+      }, 60000);
+
+      chrome.runtime.sendMessage(
+        {
+          action: "llm-api-call",
+          payload: {
+            provider: this.provider,
+            model: this.config.model,
+            prompt,
+            maxTokens,
+          },
+        },
+        (response) => {
+          clearTimeout(timeout);
+          if (chrome.runtime.lastError) {
+            reject(new Error(chrome.runtime.lastError.message));
+            return;
+          }
+          if (!response) {
+            reject(
+              new Error(
+                "Extension context invalidated. Please reload the page."
+              )
+            );
+            return;
+          }
+          resolve(response);
+        }
+      );
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || "Request failed");
+    }
+
+    return response.text?.trim() || "";
+  }
+
+  async embed(
+    texts: string[]
+  ): Promise<{ vectors: number[][]; model: string }> {
+    if (!isExtensionContextAvailable()) {
+      throw new Error(
+        "Extension context not available. Please reload the page."
+      );
+    }
+
+    const response = await new Promise<any>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error("Request timeout"));
+      }, 60000);
+
+      chrome.runtime.sendMessage(
+        {
+          action: "embed-texts",
+          payload: {
+            provider: this.provider,
+            texts,
+          },
+        },
+        (response) => {
+          clearTimeout(timeout);
+          if (chrome.runtime.lastError) {
+            reject(new Error(chrome.runtime.lastError.message));
+            return;
+          }
+          if (!response) {
+            reject(
+              new Error(
+                "Extension context invalidated. Please reload the page."
+              )
+            );
+            return;
+          }
+          resolve(response);
+        }
+      );
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || "Embedding failed");
+    }
+
+    return { vectors: response.vectors, model: response.model };
+  }
+
   async extractKeyPoints(messages: Message[]): Promise<string[]> {
     const conversationText = this.formatConversation(messages);
 
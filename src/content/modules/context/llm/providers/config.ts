@@ -32,6 +32,7 @@ export interface ProviderConfig {
   models: ProviderModel[];
   metadata: ProviderMetadata;
   validationModel?: string; // Model to use for API key validation
+  embeddingModel?: string; // Model for the embeddings endpoint (related chat suggestions)
 }
 
 export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
@@ -39,6 +40,7 @@ export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
     defaultModel: "gemini-3-flash-preview",
     apiBaseUrl: "https://generativelanguage.googleapis.com/v1beta",
     validationModel: "gemini-3-flash-preview",
+    embeddingModel: "gemini-embedding-001",
     models: [
       { value: "gemini-3-flash-preview", label: "Gemini 3 Flash (Preview) - Latest" },
       { value: "gemini-3-pro-preview", label: "Gemini 3 Pro (Preview) - Most Intelligent" },
@@ -65,6 +67,7 @@ export const PROVIDER_CONFIGS: Record<LLMProvider, ProviderConfig> = {
   openai: {
     defaultModel: "gpt-5.2",
     apiBaseUrl: "https://api.openai.com/v1",
+    embeddingModel: "text-embedding-3-small",
     models: [
       { value: "gpt-5.2", label: "GPT-5.2 - Latest (Best for Coding & Agents)" },
       { value: "gpt-5.2-pro", label: "GPT-5.2 Pro - Smarter Version" },
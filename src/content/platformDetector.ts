@@ -4,34 +4,18 @@
  */
 
 import { PlatformFactory } from '../platforms/factory';
+import type { PlatformId } from '../types';
 
-export function detectPlatform(): "chatgpt" | "gemini" | "claude" | "perplexity" | null {
+export function detectPlatform(): PlatformId | null {
   const activePlatform = PlatformFactory.getActivePlatform();
-  if (!activePlatform) return null;
-  
-  return activePlatform.name as "chatgpt" | "gemini" | "claude" | "perplexity";
+  return activePlatform ? activePlatform.name : null;
 }
 
-export function getPlatformName(
-  platform: "chatgpt" | "gemini" | "claude" | "perplexity"
-): string {
-  const names = {
-    chatgpt: "ChatGPT",
-    gemini: "Google Gemini",
-    claude: "Claude",
-    perplexity: "Perplexity AI",
-  };
-  return names[platform];
+// Chats from platforms that are no longer registered keep their raw ID
+export function getPlatformName(platform: PlatformId): string {
+  return PlatformFactory.getPlatformByName(platform)?.displayName || platform;
 }
 
-export function getPlatformEmoji(
-  platform: "chatgpt" | "gemini" | "claude" | "perplexity"
-): string {
-  const emojis = {
-    chatgpt: "🤖",
-    gemini: "✨",
-    claude: "🧠",
-    perplexity: "🔍",
-  };
-  return emojis[platform];
+export function getPlatformEmoji(platform: PlatformId): string {
+  return PlatformFactory.getPlatformByName(platform)?.emoji || '💬';
 }
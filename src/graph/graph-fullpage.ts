@@ -6,8 +6,25 @@
 import { db } from "../storage/indexeddb";
 import { GraphRenderer } from "../content/modules/GraphRenderer";
 import { GraphPanZoom } from "../content/modules/GraphPanZoom";
+import { TreeArchiveService } from "../storage/treeArchive";
+import { MarkdownExporter } from "../storage/markdownExport";
+import { SearchIndex, type SearchResult } from "../storage/searchIndex";
+import { SearchPanel } from "../content/modules/SearchPanel";
+import { TreeConflictDialog } from "../content/modules/TreeConflictDialog";
+import { TreeHistory } from "../storage/treeHistory";
+import { TreeVersions } from "../storage/treeVersions";
+import { CustomPlatforms } from "../platforms/custom";
+import { loadTagFilter } from "../utils/tags";
 import type { ChatTree } from "../types";
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 class FullPageGraphView {
   private currentTreeId: string | null = null;
   private trees: Record<string, ChatTree> = {};
@@ -15,6 +32,11 @@ class FullPageGraphView {
   private graphPanZoom: GraphPanZoom;
   private isTreeSelectorOpen: boolean = false;
   private storageListenerActive: boolean = false;
+  private toastTimer: number | null = null;
+
+  // Version history preview (the tree as it was at a past version)
+  private previewTree: ChatTree | null = null;
+  private previewVersion: { id: string; date: string } | null = null;
 
   constructor() {
     // Initialize graph renderer and pan/zoom
@@ -59,6 +81,9 @@ class FullPageGraphView {
         throw dbError;
       }
 
+      // Names and badges for chats from user-defined platforms
+      await CustomPlatforms.load();
+
       // Get tree ID from URL parameters
       const urlParams = new URLSearchParams(window.location.search);
       const treeId = urlParams.get("treeId");
@@ -275,7 +300,7 @@ Please select another tree from the dropdown, or create a new tree in the sideba
     }
   }
 
-  private async loadTree(treeId: string) {
+  private async loadTree(treeId: string, focusNodeId?: string) {
     try {
       // Check extension context before attempting database access
       if (!this.isExtensionContextValid()) {
@@ -323,13 +348,20 @@ Please select another tree from the dropdown, or create a new tree in the sideba
       this.currentTreeId = treeId;
       console.log("🌳 Arbor Graph: Tree loaded successfully");
 
+      // Leave any version preview and show the new tree's history
+      this.clearPreview();
+      if (document.getElementById("history-panel")?.classList.contains("open")) {
+        this.renderHistoryPanel();
+      }
+
       // Update tree selector
       this.updateTreeSelector();
 
       // Set current tree in renderer
       console.log("🌳 Arbor Graph: Setting current tree in renderer");
       await this.graphRenderer.setCurrentTree(treeId);
-      this.graphRenderer.setCurrentNode(null);
+      this.graphRenderer.setCurrentNode(focusNodeId ?? null);
+      await this.syncTagFilter();
 
       // Render the graph
       console.log("🌳 Arbor Graph: Rendering graph");
@@ -343,6 +375,10 @@ Please select another tree from the dropdown, or create a new tree in the sideba
         this.updateZoomLevel();
         // Check reset button visibility after initialization
         this.checkResetButtonVisibility();
+
+        if (focusNodeId) {
+          this.graphRenderer.focusNode(focusNodeId);
+        }
       }, 100);
 
       // Set up reset layout listener
@@ -567,6 +603,44 @@ Please select another tree from the dropdown, or create a new tree in the sideba
       }
     });
 
+    // Search across all trees
+    const searchContainer = document.getElementById("graph-search");
+    if (searchContainer) {
+      const searchPanel = new SearchPanel({
+        onSearch: (query) => SearchIndex.search(query, this.trees),
+        onSelect: (result) => this.openSearchResult(result),
+      });
+      searchPanel.mount(searchContainer);
+    }
+
+    // Version history
+    document
+      .getElementById("history-btn")
+      ?.addEventListener("click", () => this.toggleHistoryPanel());
+    document
+      .getElementById("close-history-btn")
+      ?.addEventListener("click", () => this.toggleHistoryPanel(false));
+    document
+      .getElementById("restore-version-btn")
+      ?.addEventListener("click", () => this.restorePreview());
+    document
+      .getElementById("fork-version-btn")
+      ?.addEventListener("click", () => this.forkPreview());
+    document
+      .getElementById("exit-preview-btn")
+      ?.addEventListener("click", () => this.exitPreview());
+
+    // Archive export/import
+    document
+      .getElementById("export-tree-btn")
+      ?.addEventListener("click", () => this.exportCurrentTree());
+    document
+      .getElementById("export-markdown-btn")
+      ?.addEventListener("click", () => this.exportMarkdown());
+    document
+      .getElementById("import-trees-btn")
+      ?.addEventListener("click", () => this.importTrees());
+
     // Close window button
     const closeWindowBtn = document.getElementById("close-window-btn");
     closeWindowBtn?.addEventListener("click", () => {
@@ -589,6 +663,27 @@ Please select another tree from the dropdown, or create a new tree in the sideba
       }
     });
 
+    // Undo/redo: Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z or Ctrl+Y
+    document.addEventListener("keydown", (e) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement;
+      if (
+        target.isContentEditable ||
+        ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      const isUndo = key === "z" && !e.shiftKey;
+      const isRedo = (key === "z" && e.shiftKey) || (key === "y" && e.ctrlKey);
+      if (!isUndo && !isRedo) return;
+
+      e.preventDefault();
+      this.applyHistory(isRedo ? "redo" : "undo");
+    });
+
     // Handle browser back/forward
     window.addEventListener("popstate", () => {
       const urlParams = new URLSearchParams(window.location.search);
@@ -600,6 +695,71 @@ Please select another tree from the dropdown, or create a new tree in the sideba
     });
   }
 
+  private async openSearchResult(result: SearchResult) {
+    if (result.treeId === this.currentTreeId) {
+      this.handleNodeClick(result.nodeId);
+      this.graphRenderer.focusNode(result.nodeId);
+      return;
+    }
+
+    const url = new URL(window.location.href);
+    url.searchParams.set("treeId", result.treeId);
+    window.history.pushState({}, "", url.toString());
+
+    this.showLoading();
+    await this.loadTree(result.treeId, result.nodeId);
+    this.hideLoading();
+  }
+
+  private async exportCurrentTree() {
+    if (!this.currentTreeId) {
+      alert("Select a tree to export first.");
+      return;
+    }
+
+    const result = await TreeArchiveService.exportToFile([this.currentTreeId]);
+    if (result.success) {
+      this.showToast(result.message);
+    } else {
+      alert(result.message);
+    }
+  }
+
+  private exportMarkdown() {
+    const tree = this.currentTreeId ? this.trees[this.currentTreeId] : null;
+    if (!tree) {
+      alert("Select a tree to export first.");
+      return;
+    }
+
+    try {
+      MarkdownExporter.download(tree);
+    } catch (error) {
+      console.error("🌳 Arbor Graph: Markdown export failed:", error);
+      alert("Failed to export Markdown.");
+    }
+  }
+
+  private async importTrees() {
+    const result = await TreeArchiveService.importFromFile();
+    if (!result) return;
+    if (!result.success || !result.currentTreeId) {
+      alert(result.message);
+      return;
+    }
+    this.showToast(result.message);
+
+    // Show the imported tree
+    const url = new URL(window.location.href);
+    url.searchParams.set("treeId", result.currentTreeId);
+    window.history.pushState({}, "", url.toString());
+
+    this.showLoading();
+    await this.loadAllTrees();
+    await this.loadTree(result.currentTreeId);
+    this.hideLoading();
+  }
+
   private toggleTreeSelector() {
     const trigger = document.getElementById("tree-selector-trigger");
     const menu = document.getElementById("tree-selector-menu");
@@ -648,44 +808,56 @@ Please select another tree from the dropdown, or create a new tree in the sideba
         );
         this.reloadCurrentTree();
       }
-    });
 
-    // Also poll for database changes as backup (every 3 seconds)
-    const checkInterval = setInterval(async () => {
-      if (!this.currentTreeId) return;
-
-      try {
-        // Fetch the latest version of the current tree from database
-        const updatedTree = await db.getTree(this.currentTreeId);
-
-        if (!updatedTree) {
-          console.log("🌳 Arbor Graph: Tree was deleted, clearing view");
-          clearInterval(checkInterval);
-          this.storageListenerActive = false;
-          return;
-        }
-
-        const cachedTree = this.trees[this.currentTreeId];
-
-        // Check if tree changed (check updatedAt timestamp)
-        if (cachedTree && updatedTree.updatedAt !== cachedTree.updatedAt) {
-          console.log("🌳 Arbor Graph: Tree changed, reloading");
-          await this.reloadCurrentTree();
-        }
-      } catch (error) {
-        console.error("🌳 Arbor Graph: Error checking for updates:", error);
+      if (message.action === "tree-history-applied") {
+        this.reloadAfterHistory(message.payload.treeId, false);
       }
-    }, 3000); // Check every 3 seconds (less frequent since we have message listener)
+    });
+
+    // Trees saved or deleted by any tab (or this window) arrive here; a save
+    // of ours that raced one is merged, and the user settles what can't be
+    const unsubscribe = db.onTreeChanged((treeId, tree) =>
+      this.applyRemoteTreeChange(treeId, tree),
+    );
+    db.setConflictHandler((conflict) => TreeConflictDialog.show(conflict));
 
     // Clean up on page unload
     window.addEventListener("beforeunload", () => {
-      clearInterval(checkInterval);
+      unsubscribe();
       this.storageListenerActive = false;
     });
   }
 
+  /**
+   * Adopt a tree saved or deleted elsewhere
+   * Our own saves come back at the revision we already hold and are skipped
+   */
+  private async applyRemoteTreeChange(treeId: string, tree: ChatTree | null) {
+    const cachedTree = this.trees[treeId];
+
+    if (!tree) {
+      if (cachedTree) {
+        console.log("🌳 Arbor Graph: Tree was deleted elsewhere");
+        await this.reloadAfterHistory(treeId, false);
+      }
+      return;
+    }
+
+    if (cachedTree && (cachedTree.revision ?? 0) >= (tree.revision ?? 0)) {
+      return;
+    }
+
+    this.trees[treeId] = tree;
+    if (treeId === this.currentTreeId) {
+      console.log("🌳 Arbor Graph: Tree changed, reloading");
+      await this.reloadCurrentTree();
+    } else {
+      this.updateTreeSelector();
+    }
+  }
+
   private async reloadCurrentTree() {
-    if (!this.currentTreeId) return;
+    if (!this.currentTreeId || this.previewTree) return;
 
     try {
       console.log("🌳 Arbor Graph: Reloading tree data from database");
@@ -703,6 +875,7 @@ Please select another tree from the dropdown, or create a new tree in the sideba
 
       // Update the tree selector display (shows tree name)
       this.updateTreeSelector();
+      await this.syncTagFilter();
 
       // Re-render the graph (will show updated node titles)
       this.graphRenderer.renderGraph(updatedTree, "graph-content");
@@ -713,6 +886,268 @@ Please select another tree from the dropdown, or create a new tree in the sideba
     }
   }
 
+  private async applyHistory(direction: "undo" | "redo") {
+    try {
+      const entry =
+        direction === "undo"
+          ? await TreeHistory.undo()
+          : await TreeHistory.redo();
+
+      if (!entry) {
+        this.showToast(
+          direction === "undo" ? "Nothing to undo" : "Nothing to redo",
+        );
+        return;
+      }
+
+      await this.reloadAfterHistory(entry.treeId, true);
+      this.showToast(
+        `${direction === "undo" ? "Undid" : "Redid"}: ${entry.label}`,
+      );
+    } catch (error) {
+      console.error(`🌳 Arbor Graph: Failed to ${direction}:`, error);
+      this.showToast(`Failed to ${direction}`);
+    }
+  }
+
+  /**
+   * Pick up a tree after its history was applied
+   *
+   * @param focus - switch to the tree (when the undo happened here)
+   */
+  private async reloadAfterHistory(treeId: string, focus: boolean) {
+    await this.loadAllTrees();
+
+    if (treeId === this.currentTreeId) {
+      if (!this.trees[treeId]) {
+        this.updateTreeSelector();
+        this.showError(
+          "Tree deleted",
+          "This tree was deleted. Press Ctrl+Z to restore it, or select another tree from the dropdown.",
+        );
+        return;
+      }
+
+      await this.graphRenderer.setCurrentTree(treeId);
+      this.hideLoading();
+      await this.reloadCurrentTree();
+      this.checkResetButtonVisibility();
+    } else if (focus && this.trees[treeId]) {
+      const url = new URL(window.location.href);
+      url.searchParams.set("treeId", treeId);
+      window.history.pushState({}, "", url.toString());
+      await this.loadTree(treeId);
+      this.hideLoading();
+    } else {
+      this.updateTreeSelector();
+    }
+  }
+
+  private showToast(message: string) {
+    let toast = document.getElementById("graph-toast");
+    if (!toast) {
+      toast = document.createElement("div");
+      toast.id = "graph-toast";
+      toast.className = "graph-toast";
+      document.body.appendChild(toast);
+    }
+
+    toast.textContent = message;
+    toast.style.opacity = "1";
+
+    if (this.toastTimer !== null) {
+      clearTimeout(this.toastTimer);
+    }
+    this.toastTimer = window.setTimeout(() => {
+      toast!.style.opacity = "0";
+      this.toastTimer = null;
+    }, 2500);
+  }
+
+  private toggleHistoryPanel(open?: boolean) {
+    const panel = document.getElementById("history-panel");
+    if (!panel) return;
+
+    const shouldOpen = open ?? !panel.classList.contains("open");
+    panel.classList.toggle("open", shouldOpen);
+    if (shouldOpen) {
+      this.renderHistoryPanel();
+    }
+  }
+
+  /**
+   * List the current tree's versions and any deleted trees
+   */
+  private async renderHistoryPanel() {
+    const body = document.getElementById("history-panel-body");
+    if (!body) return;
+
+    try {
+      const [versions, deletedTrees] = await Promise.all([
+        this.currentTreeId ? TreeVersions.list(this.currentTreeId) : [],
+        TreeVersions.listDeletedTrees(),
+      ]);
+
+      const tree = this.currentTreeId ? this.trees[this.currentTreeId] : null;
+      let html = `<div class="history-section-title">${
+        tree ? escapeHtml(tree.name) : "No tree selected"
+      }</div>`;
+
+      if (versions.length === 0) {
+        html += `<div class="history-empty">No versions yet. Versions are saved as you edit, at most every 10 minutes.</div>`;
+      } else {
+        html += versions
+          .map((version, index) => {
+            const label = version.deleted
+              ? "Deleted"
+              : index === 0
+                ? "Current"
+                : "";
+            return `
+          <div class="history-item ${version.id === this.previewVersion?.id ? "active" : ""}" data-tree-id="${version.treeId}" data-version-id="${version.id}" data-date="${version.savedAt}">
+            <div class="history-item-date">${new Date(version.savedAt).toLocaleString()}</div>
+            <div class="history-item-meta">${[label, `${version.nodeCount} nodes`, escapeHtml(version.name)].filter(Boolean).join(" · ")}</div>
+          </div>
+        `;
+          })
+          .join("");
+      }
+
+      if (deletedTrees.length > 0) {
+        html += `<div class="history-section-title">Deleted trees</div>`;
+        html += deletedTrees
+          .map(
+            (deleted) => `
+          <div class="history-item ${deleted.versionId === this.previewVersion?.id ? "active" : ""}" data-tree-id="${deleted.treeId}" data-version-id="${deleted.versionId}" data-date="${deleted.deletedAt}">
+            <div class="history-item-date">${escapeHtml(deleted.name)}</div>
+            <div class="history-item-meta">Deleted ${new Date(deleted.deletedAt).toLocaleString()} · ${deleted.nodeCount} nodes</div>
+          </div>
+        `,
+          )
+          .join("");
+      }
+
+      body.innerHTML = html;
+
+      body.querySelectorAll(".history-item").forEach((item) => {
+        item.addEventListener("click", () => {
+          const { treeId, versionId, date } = (item as HTMLElement).dataset;
+          if (treeId && versionId && date) {
+            this.previewVersionAt(treeId, versionId, date);
+          }
+        });
+      });
+    } catch (error) {
+      console.error("🌳 Arbor Graph: Error loading version history:", error);
+      body.innerHTML = `<div class="history-empty">Couldn't load version history.</div>`;
+    }
+  }
+
+  private async previewVersionAt(
+    treeId: string,
+    versionId: string,
+    date: string,
+  ) {
+    const tree = await TreeVersions.getTreeAt(treeId, versionId);
+    if (!tree) {
+      this.showToast("This version could not be rebuilt");
+      return;
+    }
+
+    this.previewTree = tree;
+    this.previewVersion = { id: versionId, date };
+
+    const text = document.getElementById("history-preview-text");
+    if (text) {
+      text.textContent = `Previewing "${tree.name}" as of ${new Date(date).toLocaleString()}`;
+    }
+    document.getElementById("history-preview-bar")?.classList.add("open");
+
+    this.hideLoading();
+    await this.graphRenderer.setCurrentTree(treeId);
+    this.graphRenderer.setCurrentNode(null);
+    this.graphRenderer.renderGraph(tree, "graph-content");
+    this.renderHistoryPanel();
+  }
+
+  private clearPreview() {
+    this.previewTree = null;
+    this.previewVersion = null;
+    document.getElementById("history-preview-bar")?.classList.remove("open");
+  }
+
+  private async exitPreview() {
+    this.clearPreview();
+
+    if (this.currentTreeId && this.trees[this.currentTreeId]) {
+      await this.graphRenderer.setCurrentTree(this.currentTreeId);
+      await this.reloadCurrentTree();
+    }
+    this.renderHistoryPanel();
+  }
+
+  private async restorePreview() {
+    if (!this.previewTree || !this.previewVersion) return;
+
+    const tree = this.previewTree;
+    const date = this.previewVersion.date;
+    if (
+      !confirm(
+        `Restore "${tree.name}" to how it was on ${new Date(date).toLocaleString()}?\n\nYou can undo this with Ctrl+Z.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await TreeVersions.restore(tree, date);
+      await this.showRestoredTree(tree.id);
+      this.showToast(`Restored "${tree.name}"`);
+    } catch (error) {
+      console.error("🌳 Arbor Graph: Restore failed:", error);
+      alert("Failed to restore this version.");
+    }
+  }
+
+  private async forkPreview() {
+    if (!this.previewTree || !this.previewVersion) return;
+
+    try {
+      const forked = await TreeVersions.fork(
+        this.previewTree,
+        this.previewVersion.date,
+      );
+      await this.showRestoredTree(forked.id);
+      this.showToast(`Created "${forked.name}"`);
+    } catch (error) {
+      console.error("🌳 Arbor Graph: Fork failed:", error);
+      alert("Failed to fork this version.");
+    }
+  }
+
+  private async showRestoredTree(treeId: string) {
+    this.clearPreview();
+
+    const url = new URL(window.location.href);
+    url.searchParams.set("treeId", treeId);
+    window.history.pushState({}, "", url.toString());
+
+    await this.loadAllTrees();
+    await this.loadTree(treeId);
+    this.hideLoading();
+  }
+
+  /**
+   * Apply the tag filter chosen in the sidebar
+   */
+  private async syncTagFilter() {
+    try {
+      this.graphRenderer.setTagFilter(await loadTagFilter());
+    } catch (error) {
+      console.error("🌳 Arbor Graph: Error loading tag filter:", error);
+    }
+  }
+
   private checkResetButtonVisibility() {
     if (this.graphRenderer && this.graphPanZoom) {
       this.graphRenderer.checkAndShowResetButton(this.graphPanZoom);
@@ -724,11 +1159,11 @@ Please select another tree from the dropdown, or create a new tree in the sideba
     this.graphRenderer.setCurrentNode(nodeId);
 
     // Re-render to show active state
-    if (this.currentTreeId && this.trees[this.currentTreeId]) {
-      this.graphRenderer.renderGraph(
-        this.trees[this.currentTreeId],
-        "graph-content",
-      );
+    const tree =
+      this.previewTree ||
+      (this.currentTreeId ? this.trees[this.currentTreeId] : null);
+    if (tree) {
+      this.graphRenderer.renderGraph(tree, "graph-content");
     }
   }
 
@@ -9,7 +9,19 @@ import {
   type LLMProvider,
 } from "../content/modules/context/llm/LLMServiceFactory";
 import { getProviderMetadata } from "../content/modules/context/llm/providers/config";
+import { MessageArchive } from "../storage/messageArchive";
+import { db } from "../storage/indexeddb";
+import { TreeColdStorage } from "../storage/treeColdStorage";
+import { TitleSync } from "../content/modules/TitleSync";
+import type { IntegrityIssue } from "../types";
 import { logger } from "../utils/logger";
+import { PlatformFactory } from "../platforms/factory";
+import {
+  CUSTOM_PLATFORM_PRESETS,
+  CustomPlatforms,
+  type CustomPlatformDraft,
+  type CustomPlatformProfile,
+} from "../platforms/custom";
 
 // DOM elements
 const configForm = document.getElementById("configForm") as HTMLFormElement;
@@ -44,10 +56,65 @@ const dismissBannerBtn = document.getElementById(
 const providerInfoList = document.getElementById(
   "providerInfoList",
 ) as HTMLUListElement;
+const archiveEnabledCheckbox = document.getElementById(
+  "archiveEnabled",
+) as HTMLInputElement;
+const archiveStatus = document.getElementById(
+  "archiveStatus",
+) as HTMLDivElement;
+const clearArchiveBtn = document.getElementById(
+  "clearArchiveBtn",
+) as HTMLButtonElement;
+const titleSyncEnabledCheckbox = document.getElementById(
+  "titleSyncEnabled",
+) as HTMLInputElement;
+const storageStatus = document.getElementById(
+  "storageStatus",
+) as HTMLDivElement;
+const storageTrees = document.getElementById(
+  "storageTrees",
+) as HTMLUListElement;
+const archivedTreesHeading = document.getElementById(
+  "archivedTreesHeading",
+) as HTMLHeadingElement;
+const archivedTrees = document.getElementById(
+  "archivedTrees",
+) as HTMLUListElement;
+const refreshStorageBtn = document.getElementById(
+  "refreshStorageBtn",
+) as HTMLButtonElement;
+const integrityStatus = document.getElementById(
+  "integrityStatus",
+) as HTMLDivElement;
+const integrityIssues = document.getElementById(
+  "integrityIssues",
+) as HTMLUListElement;
+const checkStorageBtn = document.getElementById(
+  "checkStorageBtn",
+) as HTMLButtonElement;
+const repairAllBtn = document.getElementById(
+  "repairAllBtn",
+) as HTMLButtonElement;
+const customPlatformList = document.getElementById(
+  "customPlatforms",
+) as HTMLUListElement;
+const customPlatformForm = document.getElementById(
+  "customPlatformForm",
+) as HTMLFormElement;
+const customPlatformStatus = document.getElementById(
+  "customPlatformStatus",
+) as HTMLDivElement;
+const addCustomPlatformBtn = document.getElementById(
+  "addCustomPlatformBtn",
+) as HTMLButtonElement;
+const deleteCustomPlatformBtn = document.getElementById(
+  "deleteCustomPlatformBtn",
+) as HTMLButtonElement;
 
 // State
 let isPasswordVisible = false;
 let currentProvider: LLMProvider = "gemini";
+let editingCustomPlatform: CustomPlatformProfile | null = null;
 
 /**
  * Show status message
@@ -63,6 +130,208 @@ function showStatus(message: string, type: "success" | "error" | "info") {
   }
 }
 
+/**
+ * Show archive toggle state and size
+ */
+async function loadArchiveSettings() {
+  try {
+    archiveEnabledCheckbox.checked = await MessageArchive.isEnabled();
+    const stats = await MessageArchive.getStats();
+    archiveStatus.textContent = `${stats.chats} chat${stats.chats === 1 ? "" : "s"} archived (${stats.messages} unique message${stats.messages === 1 ? "" : "s"})`;
+    archiveStatus.className = "status-message info show";
+    clearArchiveBtn.disabled = stats.chats === 0 && stats.messages === 0;
+  } catch (error) {
+    logger.error("Failed to load archive settings:", error);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function createStorageItem(
+  title: string,
+  detail: string,
+  action: { label: string; onClick: (button: HTMLButtonElement) => void },
+): HTMLLIElement {
+  const item = document.createElement("li");
+  item.className = "storage-item";
+
+  const text = document.createElement("span");
+  const name = document.createElement("strong");
+  name.textContent = title;
+  const meta = document.createElement("small");
+  meta.textContent = detail;
+  text.append(name, meta);
+
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = "btn btn-secondary";
+  button.textContent = action.label;
+  button.addEventListener("click", () => action.onClick(button));
+
+  item.append(text, button);
+  return item;
+}
+
+/**
+ * Show space used per tree, with archive/restore actions
+ */
+async function loadStorageUsage() {
+  try {
+    const usage = await TreeColdStorage.getUsage();
+
+    storageStatus.textContent = [
+      `${formatBytes(usage.storageBytes)} in extension storage`,
+      usage.indexedDbBytes !== null
+        ? `${formatBytes(usage.indexedDbBytes)} in IndexedDB (history, search, archived messages)`
+        : "",
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    storageStatus.className = "status-message info show";
+
+    storageTrees.innerHTML = "";
+    usage.trees.forEach((tree) => {
+      const details = [
+        `${tree.nodeCount} chat${tree.nodeCount === 1 ? "" : "s"}`,
+        `${formatBytes(tree.treeBytes)} tree`,
+        tree.layoutBytes > 0 ? `${formatBytes(tree.layoutBytes)} layout` : "",
+        tree.historyBytes > 0
+          ? `~${formatBytes(tree.historyBytes)} history`
+          : "",
+      ].filter(Boolean);
+
+      storageTrees.appendChild(
+        createStorageItem(tree.name, details.join(" · "), {
+          label: "Archive",
+          onClick: async (button) => {
+            button.disabled = true;
+            button.textContent = "⏳ Archiving...";
+            try {
+              await TreeColdStorage.archive(tree.treeId);
+            } catch (error) {
+              logger.error("Failed to archive tree:", error);
+              alert(
+                `Couldn't archive "${tree.name}": ${
+                  error instanceof Error ? error.message : "Unknown error"
+                }`,
+              );
+            }
+            await loadStorageUsage();
+          },
+        }),
+      );
+    });
+
+    archivedTreesHeading.style.display =
+      usage.archived.length > 0 ? "block" : "none";
+    archivedTrees.innerHTML = "";
+    usage.archived.forEach((tree) => {
+      const details = [
+        `${tree.nodeCount} chat${tree.nodeCount === 1 ? "" : "s"}`,
+        `${formatBytes(tree.bytes)} (${formatBytes(tree.originalBytes)} uncompressed)`,
+        `archived ${new Date(tree.archivedAt).toLocaleDateString()}`,
+      ];
+
+      archivedTrees.appendChild(
+        createStorageItem(tree.name, details.join(" · "), {
+          label: "Restore",
+          onClick: async (button) => {
+            button.disabled = true;
+            button.textContent = "⏳ Restoring...";
+            try {
+              await TreeColdStorage.restore(tree.treeId);
+            } catch (error) {
+              logger.error("Failed to restore tree:", error);
+              alert(
+                `Couldn't restore "${tree.name}": ${
+                  error instanceof Error ? error.message : "Unknown error"
+                }`,
+              );
+            }
+            await loadStorageUsage();
+          },
+        }),
+      );
+    });
+  } catch (error) {
+    logger.error("Failed to load storage usage:", error);
+  }
+}
+
+/**
+ * Run the storage integrity check and list what it found
+ */
+async function checkStorage() {
+  checkStorageBtn.disabled = true;
+  checkStorageBtn.textContent = "⏳ Checking...";
+  integrityIssues.innerHTML = "";
+  repairAllBtn.style.display = "none";
+
+  try {
+    const { trees, issues } = await db.verifyDatabase();
+
+    if (issues.length === 0) {
+      integrityStatus.textContent = `✅ No problems found in ${trees} tree${trees === 1 ? "" : "s"}`;
+      integrityStatus.className = "status-message success show";
+      return;
+    }
+
+    integrityStatus.textContent = `Found ${issues.length} problem${issues.length === 1 ? "" : "s"} in ${trees} tree${trees === 1 ? "" : "s"}`;
+    integrityStatus.className = "status-message error show";
+
+    issues.forEach((issue) => {
+      const item = document.createElement("li");
+      item.className = "integrity-issue";
+
+      const text = document.createElement("span");
+      if (issue.treeName) {
+        const treeName = document.createElement("strong");
+        treeName.textContent = `${issue.treeName}: `;
+        text.appendChild(treeName);
+      }
+      text.appendChild(document.createTextNode(issue.message));
+
+      const repairBtn = document.createElement("button");
+      repairBtn.type = "button";
+      repairBtn.className = "btn btn-secondary";
+      repairBtn.textContent = "Repair";
+      repairBtn.addEventListener("click", () => repairStorage([issue]));
+
+      item.append(text, repairBtn);
+      integrityIssues.appendChild(item);
+    });
+
+    repairAllBtn.style.display = "inline-flex";
+    repairAllBtn.onclick = () => repairStorage(issues);
+  } catch (error) {
+    logger.error("Storage check failed:", error);
+    integrityStatus.textContent = "Storage check failed. See the console for details.";
+    integrityStatus.className = "status-message error show";
+  } finally {
+    checkStorageBtn.disabled = false;
+    checkStorageBtn.textContent = "Check Storage";
+  }
+}
+
+/**
+ * Repair issues, then check again to show what's left
+ */
+async function repairStorage(issues: IntegrityIssue[]) {
+  repairAllBtn.disabled = true;
+  try {
+    await db.repairDatabase(issues);
+  } catch (error) {
+    logger.error("Storage repair failed:", error);
+  } finally {
+    repairAllBtn.disabled = false;
+  }
+  await checkStorage();
+}
+
 /**
  * Update UI based on selected provider
  */
@@ -234,22 +503,198 @@ async function updateApiKeyBanner() {
   }
 }
 
+// Custom platform form fields, by profile property
+const customPlatformFields = {
+  displayName: "customPlatformName",
+  emoji: "customPlatformEmoji",
+  hostname: "customPlatformHostname",
+  newChatUrl: "customPlatformNewChatUrl",
+  chatIdPattern: "customPlatformChatIdPattern",
+  chatUrlTemplate: "customPlatformChatUrlTemplate",
+  inputType: "customPlatformInputType",
+  inputSelectors: "customPlatformInputSelectors",
+  userMessageSelectors: "customPlatformUserSelectors",
+  assistantMessageSelectors: "customPlatformAssistantSelectors",
+  sidebarLinkSelectors: "customPlatformSidebarSelectors",
+  titleSelectors: "customPlatformTitleSelectors",
+} as const;
+
+function getCustomPlatformField(
+  key: keyof typeof customPlatformFields,
+): HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement {
+  return document.getElementById(customPlatformFields[key]) as
+    | HTMLInputElement
+    | HTMLTextAreaElement
+    | HTMLSelectElement;
+}
+
+function showCustomPlatformStatus(message: string, type: "success" | "error") {
+  customPlatformStatus.textContent = message;
+  customPlatformStatus.className = `status-message ${type} show`;
+}
+
+/**
+ * Fill the custom platform form (blank when adding a new one)
+ */
+function fillCustomPlatformForm(profile: Partial<CustomPlatformDraft>) {
+  (Object.keys(customPlatformFields) as Array<keyof typeof customPlatformFields>)
+    .forEach((key) => {
+      const value = profile[key];
+      getCustomPlatformField(key).value = Array.isArray(value)
+        ? value.join("\n")
+        : value || (key === "inputType" ? "textarea" : "");
+    });
+}
+
+function readCustomPlatformForm(): CustomPlatformDraft {
+  const text = (key: keyof typeof customPlatformFields) =>
+    getCustomPlatformField(key).value.trim();
+  const lines = (key: keyof typeof customPlatformFields) =>
+    text(key)
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  return {
+    id: editingCustomPlatform?.id,
+    displayName: text("displayName"),
+    emoji: text("emoji"),
+    hostname: text("hostname"),
+    newChatUrl: text("newChatUrl"),
+    chatIdPattern: text("chatIdPattern"),
+    chatUrlTemplate: text("chatUrlTemplate"),
+    inputType: text("inputType") as CustomPlatformDraft["inputType"],
+    inputSelectors: lines("inputSelectors"),
+    userMessageSelectors: lines("userMessageSelectors"),
+    assistantMessageSelectors: lines("assistantMessageSelectors"),
+    sidebarLinkSelectors: lines("sidebarLinkSelectors"),
+    titleSelectors: lines("titleSelectors"),
+  };
+}
+
+function openCustomPlatformForm(profile: CustomPlatformProfile | null) {
+  editingCustomPlatform = profile;
+  fillCustomPlatformForm(profile || {});
+  (document.getElementById("customPlatformPreset") as HTMLSelectElement).value =
+    "";
+  customPlatformStatus.className = "status-message";
+  deleteCustomPlatformBtn.style.display = profile ? "inline-block" : "none";
+  customPlatformForm.style.display = "block";
+  addCustomPlatformBtn.style.display = "none";
+}
+
+function closeCustomPlatformForm() {
+  editingCustomPlatform = null;
+  customPlatformForm.style.display = "none";
+  addCustomPlatformBtn.style.display = "inline-block";
+}
+
+/**
+ * List custom platforms and whether Arbor has been allowed onto each host
+ */
+async function loadCustomPlatforms() {
+  try {
+    const profiles = await CustomPlatforms.list();
+    customPlatformList.innerHTML = "";
+
+    for (const profile of profiles) {
+      const granted = await chrome.permissions.contains({
+        origins: [CustomPlatforms.getOriginPattern(profile)],
+      });
+      customPlatformList.appendChild(
+        createStorageItem(
+          `${profile.emoji || "💬"} ${profile.displayName}`,
+          `${profile.hostname} · ${granted ? "active" : "access not granted, save again to allow it"}`,
+          {
+            label: "Edit",
+            onClick: () => openCustomPlatformForm(profile),
+          },
+        ),
+      );
+    }
+  } catch (error) {
+    logger.error("Failed to load custom platforms:", error);
+  }
+}
+
+/**
+ * Validate and save the form, asking for access to the platform's host
+ */
+async function saveCustomPlatform(event: SubmitEvent) {
+  event.preventDefault();
+
+  const draft = readCustomPlatformForm();
+  const error = CustomPlatforms.validate(draft);
+  if (error) {
+    showCustomPlatformStatus(error, "error");
+    return;
+  }
+
+  try {
+    // Ask before anything else: the prompt needs the click that submitted the form
+    const granted = await chrome.permissions.request({
+      origins: [CustomPlatforms.getOriginPattern(draft)],
+    });
+
+    const previous = editingCustomPlatform;
+    const profile = await CustomPlatforms.save(draft);
+    if (previous && previous.hostname !== profile.hostname) {
+      await chrome.permissions.remove({
+        origins: [CustomPlatforms.getOriginPattern(previous)],
+      });
+    }
+
+    closeCustomPlatformForm();
+    await loadCustomPlatforms();
+    if (!granted) {
+      alert(
+        `${profile.displayName} was saved, but Arbor can't run on ${profile.hostname} until you allow access. Edit and save it again to retry.`,
+      );
+    }
+  } catch (error) {
+    logger.error("Failed to save custom platform:", error);
+    showCustomPlatformStatus(
+      error instanceof Error ? error.message : "Failed to save platform",
+      "error",
+    );
+  }
+}
+
+async function deleteCustomPlatform() {
+  const profile = editingCustomPlatform;
+  if (
+    !profile ||
+    !confirm(
+      `Remove ${profile.displayName}? Chats you've already added to trees stay where they are.`,
+    )
+  ) {
+    return;
+  }
+
+  try {
+    await CustomPlatforms.remove(profile.id);
+    await chrome.permissions.remove({
+      origins: [CustomPlatforms.getOriginPattern(profile)],
+    });
+  } catch (error) {
+    logger.error("Failed to remove custom platform:", error);
+  }
+  closeCustomPlatformForm();
+  await loadCustomPlatforms();
+}
+
 /**
  * Navigate back to chat platform
  */
 async function navigateBackToChat() {
-  const platformUrls = [
-    "https://chatgpt.com",
-    "https://gemini.google.com/app",
-    "https://claude.ai/new",
-    "https://www.perplexity.ai",
-  ];
+  const platforms = PlatformFactory.getAllPlatforms();
 
   try {
     // Try to find an existing tab with one of the supported platforms
     const tabs = await chrome.tabs.query({});
     const platformTab = tabs.find(
-      (tab) => tab.url && platformUrls.some((url) => tab.url?.startsWith(url)),
+      (tab) =>
+        tab.url && platforms.some((platform) => platform.isPlatformUrl(tab.url!)),
     );
 
     if (platformTab && platformTab.id) {
@@ -273,6 +718,7 @@ async function navigateBackToChat() {
 async function init() {
   // Load existing configuration
   await loadConfig();
+  await CustomPlatforms.load();
 
   // Check and show API key missing banner
   await updateApiKeyBanner();
@@ -283,9 +729,67 @@ async function init() {
     backToChatBtn.addEventListener("click", navigateBackToChat);
   }
 
+  await loadArchiveSettings();
+
   // Event listeners
   toggleVisibilityBtn.addEventListener("click", togglePasswordVisibility);
 
+  archiveEnabledCheckbox.addEventListener("change", async () => {
+    await MessageArchive.setEnabled(archiveEnabledCheckbox.checked);
+    await loadArchiveSettings();
+  });
+
+  titleSyncEnabledCheckbox.checked = await TitleSync.isEnabled();
+  titleSyncEnabledCheckbox.addEventListener("change", async () => {
+    await TitleSync.setEnabled(titleSyncEnabledCheckbox.checked);
+  });
+
+  await loadCustomPlatforms();
+  addCustomPlatformBtn.addEventListener("click", () =>
+    openCustomPlatformForm(null),
+  );
+  document
+    .getElementById("cancelCustomPlatformBtn")
+    ?.addEventListener("click", closeCustomPlatformForm);
+  deleteCustomPlatformBtn.addEventListener("click", deleteCustomPlatform);
+  customPlatformForm.addEventListener("submit", saveCustomPlatform);
+  document
+    .getElementById("customPlatformPreset")
+    ?.addEventListener("change", (event) => {
+      const preset = (event.target as HTMLSelectElement)
+        .value as keyof typeof CUSTOM_PLATFORM_PRESETS;
+      if (preset) {
+        // Keep the host the user may have typed already
+        const { hostname, newChatUrl } = readCustomPlatformForm();
+        fillCustomPlatformForm({
+          ...CUSTOM_PLATFORM_PRESETS[preset],
+          hostname,
+          newChatUrl,
+        });
+      }
+    });
+
+  await loadStorageUsage();
+  refreshStorageBtn.addEventListener("click", loadStorageUsage);
+  checkStorageBtn.addEventListener("click", checkStorage);
+
+  clearArchiveBtn.addEventListener("click", async () => {
+    if (
+      !confirm(
+        "Delete all archived messages from this device? Your trees are not affected.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      await MessageArchive.clear();
+    } catch (error) {
+      logger.error("Failed to clear archive:", error);
+    }
+    await loadArchiveSettings();
+  });
+
   dismissBannerBtn.addEventListener("click", () => {
     apiKeyMissingBanner.style.display = "none";
     localStorage.setItem("arbor_api_key_banner_dismissed", "true");
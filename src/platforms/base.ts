@@ -1,8 +1,15 @@
-import { Platform } from "../types";
+import { Platform, PlatformId, SelectorProbe } from "../types";
 import { PlatformConfig } from "./config";
+import { SelectorHealth } from "./diagnostics";
 import * as domUtils from "./utils/dom";
 import * as reactUtils from "./utils/react";
-import { debounce, findBestMatch, isElementVisible } from "./utils/dom";
+import {
+  debounce,
+  findBestMatch,
+  findScrollParent,
+  getAncestorSelector,
+  isElementVisible,
+} from "./utils/dom";
 import {
   setInputValue,
   setContentEditableValue,
@@ -12,12 +19,40 @@ import { setSessionStorage } from "../utils/sessionStorage";
 
 /**
  * Abstract base class with shared functionality for all platform adapters
+ * Everything is driven by the PlatformConfig; subclasses override only what
+ * selectors can't express
  */
 export abstract class BasePlatform implements Platform {
-  abstract name: string;
-  config?: PlatformConfig; // Optional - for future configuration-based implementation
+  constructor(readonly config: PlatformConfig) {}
+
+  get name(): PlatformId {
+    return this.config.id;
+  }
+
+  get displayName(): string {
+    return this.config.displayName;
+  }
+
+  get emoji(): string {
+    return this.config.emoji;
+  }
+
+  get supportsRename(): boolean {
+    return !!this.config.supportsRename;
+  }
+
+  get titleFallback(): string {
+    return this.config.titleFallback;
+  }
 
-  abstract renameChat(chatUrl: string, newTitle: string): Promise<boolean>;
+  /**
+   * Rename a conversation on the platform itself
+   * Not available unless an adapter overrides it
+   */
+  async renameChat(chatUrl: string, newTitle: string): Promise<boolean> {
+    console.warn(`🌳 Arbor: Renaming chats isn't supported on ${this.displayName}`);
+    return false;
+  }
 
   // Cleanup tracking
   protected cleanupFunctions: Array<() => void> = [];
@@ -240,14 +275,7 @@ export abstract class BasePlatform implements Platform {
 
   // ========== Common implementations using config ==========
 
-  /**
-   * Get config with type safety
-   * Since config is abstract and must be provided by subclasses, it's always defined
-   */
   protected getConfig(): PlatformConfig {
-    if (!this.config) {
-      throw new Error(`Platform ${this.name} must provide a config`);
-    }
     return this.config;
   }
 
@@ -255,9 +283,37 @@ export abstract class BasePlatform implements Platform {
    * Check if we're on this platform
    */
   isActive(): boolean {
-    const config = this.getConfig();
-    const hostname = window.location.hostname;
-    const pattern = config.hostnamePattern;
+    return this.matchesHostname(window.location.hostname);
+  }
+
+  /**
+   * Check if a URL points to a conversation on this platform
+   */
+  isChatUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return (
+        this.matchesHostname(parsed.hostname) &&
+        this.getConfig().chatIdPattern.test(parsed.pathname)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check if a URL is anywhere on this platform's site
+   */
+  isPlatformUrl(url: string): boolean {
+    try {
+      return this.matchesHostname(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  private matchesHostname(hostname: string): boolean {
+    const pattern = this.getConfig().hostnamePattern;
 
     if (typeof pattern === "string") {
       return hostname.includes(pattern);
@@ -314,6 +370,7 @@ export abstract class BasePlatform implements Platform {
         arbor_branch_context: context,
         arbor_branch_parent_node_id: parentNodeId || null,
         arbor_branch_parent_tree_id: parentTreeId || null,
+        arbor_branch_target_platform: this.name,
         arbor_branch_timestamp: Date.now().toString(),
       }).catch((error) => {
         console.error("Failed to store branch context:", error);
@@ -322,6 +379,13 @@ export abstract class BasePlatform implements Platform {
     window.location.href = config.newChatUrl;
   }
 
+  /**
+   * URL of a fresh conversation on this platform
+   */
+  getNewChatUrl(): string {
+    return this.getConfig().newChatUrl;
+  }
+
   /**
    * Watch for URL changes (SPA navigation)
    * Returns a cleanup function to stop observing
@@ -422,6 +486,7 @@ export abstract class BasePlatform implements Platform {
         if (element && this.isValidInputElement(element, inputType)) {
           await focusElement(element as HTMLElement);
           this.setInputValueByType(element as HTMLElement, text, inputType);
+          SelectorHealth.recordMatch(this.name, "pasteIntoInput", cached.selector);
           console.log(
             `🌳 Arbor: Context pasted into ${this.name} input field (cached)`,
           );
@@ -443,6 +508,7 @@ export abstract class BasePlatform implements Platform {
 
           await focusElement(element as HTMLElement);
           this.setInputValueByType(element as HTMLElement, text, inputType);
+          SelectorHealth.recordMatch(this.name, "pasteIntoInput", selector!);
 
           return true;
         }
@@ -455,6 +521,7 @@ export abstract class BasePlatform implements Platform {
       console.warn(
         `🌳 Arbor: Could not find ${this.name} input field to paste context`,
       );
+      SelectorHealth.recordMiss(this.name, "pasteIntoInput");
       return false;
     } catch (error) {
       console.error(`🌳 Arbor: Error pasting into ${this.name} input:`, error);
@@ -471,6 +538,7 @@ export abstract class BasePlatform implements Platform {
     const selectors = config.sidebarLinkSelectors;
     const pattern = config.sidebarLinkPattern;
     const seenIds = new Set<string>();
+    let matchedSelector: string | null = null;
 
     for (const selector of selectors) {
       try {
@@ -499,6 +567,7 @@ export abstract class BasePlatform implements Platform {
 
         // If we found chats, we can stop trying other strategies
         if (chats.length > 0) {
+          matchedSelector = selector;
           break;
         }
       } catch (error) {
@@ -509,11 +578,83 @@ export abstract class BasePlatform implements Platform {
       }
     }
 
-    // No chats found - this is normal on some pages
+    if (chats.length > 0) {
+      SelectorHealth.recordMatch(
+        this.name,
+        "getAllChatsFromSidebar",
+        matchedSelector!,
+      );
+    } else if (!this.getSidebarContainer()) {
+      // No chats is normal (new account, empty sidebar); only a sidebar that
+      // can't be found counts as a miss
+      SelectorHealth.recordMiss(this.name, "getAllChatsFromSidebar");
+    }
 
     return chats;
   }
 
+  /**
+   * Element holding the provider's chat list, to watch for new titles
+   * Found from a chat link, or while the list is empty, from the ancestor
+   * part of the link selectors ("nav" in "nav a[href]")
+   */
+  getSidebarContainer(): Element | null {
+    const selectors = this.getConfig().sidebarLinkSelectors;
+    for (const selector of selectors) {
+      try {
+        const link = document.querySelector(selector);
+        if (link) {
+          return (
+            link.closest('nav, aside, [role="navigation"]') ||
+            link.parentElement
+          );
+        }
+      } catch (error) {
+        // Invalid selector - try the next one
+      }
+    }
+
+    for (const selector of selectors) {
+      const ancestor = getAncestorSelector(selector);
+      if (!ancestor) continue;
+      try {
+        const container = document.querySelector(ancestor);
+        if (container) return container;
+      } catch (error) {
+        // Invalid selector - try the next one
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Scroll the provider's chat list to its end so it loads older chats
+   * Resolves to whether more chats showed up
+   */
+  async loadMoreSidebarChats(): Promise<boolean> {
+    const container = this.getSidebarContainer();
+    // The container can hold a non-scrolling header, so start from a chat link
+    const link = container?.querySelector("a[href]") || container;
+    const scroller = link && findScrollParent(link);
+    if (!scroller) {
+      return false;
+    }
+
+    const before = this.getAllChatsFromSidebar().length;
+
+    scroller.scrollTop = scroller.scrollHeight;
+
+    // Providers fetch the next page once the list is scrolled near its end
+    const deadline = Date.now() + 3000;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 250));
+      if (this.getAllChatsFromSidebar().length > before) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Extract chat title from DOM using config selectors
    */
@@ -530,6 +671,7 @@ export abstract class BasePlatform implements Platform {
           if (href.includes(chatId)) {
             const title = link.textContent?.trim();
             if (title && title.length > 0) {
+              SelectorHealth.recordMatch(this.name, "detectChatTitle", selector);
               return title.length > 100
                 ? title.substring(0, 97) + "..."
                 : title;
@@ -562,11 +704,20 @@ export abstract class BasePlatform implements Platform {
             title = title.substring(0, 97) + "...";
           }
 
+          SelectorHealth.recordMatch(
+            this.name,
+            "detectChatTitle",
+            titleConfig.selector,
+          );
           return title;
         }
       }
     }
 
+    // New chats have no title yet; only a conversation without one is a miss
+    if (chatId) {
+      SelectorHealth.recordMiss(this.name, "detectChatTitle");
+    }
     return config.titleFallback;
   }
 
@@ -578,6 +729,7 @@ export abstract class BasePlatform implements Platform {
     const platformConfig = this.getConfig();
     const config = platformConfig.messageSelectors;
     const seen = new Set<string>(); // Track seen content to avoid duplicates
+    const sources = new Set<string>(); // Selectors that produced messages
 
     // Helper to add message if not duplicate
     const addMessage = (role: "user" | "assistant", content: string, source: string) => {
@@ -586,6 +738,7 @@ export abstract class BasePlatform implements Platform {
       
       messages.push({ role, content: trimmed });
       seen.add(trimmed);
+      sources.add(source);
       return true;
     };
 
@@ -675,11 +828,50 @@ export abstract class BasePlatform implements Platform {
     
     if (messages.length === 0) {
       console.error(`🌳 Arbor: ⚠️ NO MESSAGES EXTRACTED!`);
+      if (this.isInConversation()) {
+        SelectorHealth.recordMiss(this.name, "extractMessages");
+      }
+    } else {
+      SelectorHealth.recordMatch(
+        this.name,
+        "extractMessages",
+        Array.from(sources).join(", "),
+      );
     }
 
     return messages;
   }
 
+  /**
+   * Count what each configured selector matches on the current page
+   * Used for the diagnostic report when the site's markup changes
+   */
+  probeSelectors(): SelectorProbe[] {
+    const config = this.getConfig();
+    const lists: Record<string, string[]> = {
+      inputSelectors: config.inputSelectors,
+      "messageSelectors.user": config.messageSelectors.user,
+      "messageSelectors.assistant": config.messageSelectors.assistant,
+      "messageSelectors.container": config.messageSelectors.container || [],
+      titleSelectors: config.titleSelectors.map(({ selector }) => selector),
+      sidebarLinkSelectors: config.sidebarLinkSelectors,
+    };
+
+    return Object.entries(lists).flatMap(([list, selectors]) =>
+      selectors.map((selector) => {
+        try {
+          return {
+            list,
+            selector,
+            matches: document.querySelectorAll(selector).length,
+          };
+        } catch {
+          return { list, selector, matches: -1 };
+        }
+      }),
+    );
+  }
+
   // ========== Helper methods ==========
 
   /**
@@ -2,93 +2,100 @@
 import { BasePlatform } from "./base";
 import { PlatformConfig } from "./config";
 
-export class ChatGPTPlatform extends BasePlatform {
-  name = "chatgpt";
-
-  config: PlatformConfig = {
-    // URL patterns
-    chatIdPattern: /\/c\/([a-zA-Z0-9-]+)/,
-    baseUrl: "https://chatgpt.com",
-    newChatUrl: "https://chatgpt.com/",
-    chatUrlTemplate: (chatId: string) => `https://chatgpt.com/c/${chatId}`,
-
-    // Hostname detection
-    hostnamePattern: /chatgpt\.com|openai\.com/,
-
-    // Input field selectors
-    inputSelectors: [
-      'textarea[data-id="root"]',
-      'textarea[placeholder*="Message"]',
-      'textarea[placeholder*="message"]',
-      'textarea[placeholder*="Send a message"]',
-      'textarea[id*="prompt"]',
-      'textarea[role="textbox"]',
-      'textarea[tabindex="0"]',
-      "textarea",
-    ],
-    inputType: "textarea",
-
-    // Sidebar chat link selectors
-    sidebarLinkSelectors: ['nav a[href*="/c/"]'],
-    sidebarLinkPattern: /\/c\/([a-zA-Z0-9-]+)/,
-
-    // Title detection selectors
-    titleSelectors: [
-      {
-        selector: 'nav a[aria-current="page"]',
-        extractor: (el) => {
-          const titleElement = el.querySelector('[class*="line-clamp"]') || el;
-          return titleElement.textContent?.trim() || null;
-        },
-      },
-      {
-        selector: "title",
-      },
-      {
-        selector: "h1",
-      },
-      {
-        selector: '[data-message-author-role="user"] [class*="markdown"]',
+export const chatgptConfig: PlatformConfig = {
+  // Identity
+  id: "chatgpt",
+  displayName: "ChatGPT",
+  emoji: "🤖",
+
+  // URL patterns
+  chatIdPattern: /\/c\/([a-zA-Z0-9-]+)/,
+  baseUrl: "https://chatgpt.com",
+  newChatUrl: "https://chatgpt.com/",
+  chatUrlTemplate: (chatId: string) => `https://chatgpt.com/c/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: /chatgpt\.com|openai\.com/,
+
+  // Input field selectors
+  inputSelectors: [
+    'textarea[data-id="root"]',
+    'textarea[placeholder*="Message"]',
+    'textarea[placeholder*="message"]',
+    'textarea[placeholder*="Send a message"]',
+    'textarea[id*="prompt"]',
+    'textarea[role="textbox"]',
+    'textarea[tabindex="0"]',
+    "textarea",
+  ],
+  inputType: "textarea",
+
+  // Sidebar chat link selectors
+  sidebarLinkSelectors: ['nav a[href*="/c/"]'],
+  sidebarLinkPattern: /\/c\/([a-zA-Z0-9-]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: 'nav a[aria-current="page"]',
+      extractor: (el) => {
+        const titleElement = el.querySelector('[class*="line-clamp"]') || el;
+        return titleElement.textContent?.trim() || null;
       },
-    ],
-    titleFallback: "Untitled Chat",
-    pageTitleCleanup: (title: string) =>
-      title.replace(/\s*\|\s*ChatGPT.*$/, ""),
-
-    // Message extraction selectors
-    // Based on ChatGPT's actual HTML structure (as of Jan 2026):
-    // User messages: <div data-message-author-role="user"><div class="user-message-bubble-color"><div class="whitespace-pre-wrap">TEXT</div></div></div>
-    // Assistant messages: <div data-message-author-role="assistant"><div class="markdown prose">...</div></div>
-    messageSelectors: {
-      user: [
-        '[data-message-author-role="user"]',  // Get the parent container with the role
-      ],
-      assistant: [
-        '[data-message-author-role="assistant"]',  // Get the parent container with the role
-      ],
     },
-    messageRoleDetector: (element) => {
-      // Check the element itself
-      const role = element.getAttribute("data-message-author-role");
-      if (role === "user" || role === "assistant") {
-        return role;
-      }
-      
-      // Check parent element
-      const parent = element.closest('[data-message-author-role]');
-      if (parent) {
-        const parentRole = parent.getAttribute("data-message-author-role");
-        if (parentRole === "user" || parentRole === "assistant") {
-          return parentRole as "user" | "assistant";
-        }
-      }
-      
-      return null;
+    {
+      selector: "title",
+    },
+    {
+      selector: "h1",
     },
+    {
+      selector: '[data-message-author-role="user"] [class*="markdown"]',
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) =>
+    title.replace(/\s*\|\s*ChatGPT.*$/, ""),
+
+  // Message extraction selectors
+  // Based on ChatGPT's actual HTML structure (as of Jan 2026):
+  // User messages: <div data-message-author-role="user"><div class="user-message-bubble-color"><div class="whitespace-pre-wrap">TEXT</div></div></div>
+  // Assistant messages: <div data-message-author-role="assistant"><div class="markdown prose">...</div></div>
+  messageSelectors: {
+    user: [
+      '[data-message-author-role="user"]',  // Get the parent container with the role
+    ],
+    assistant: [
+      '[data-message-author-role="assistant"]',  // Get the parent container with the role
+    ],
+  },
+  messageRoleDetector: (element) => {
+    // Check the element itself
+    const role = element.getAttribute("data-message-author-role");
+    if (role === "user" || role === "assistant") {
+      return role;
+    }
+    
+    // Check parent element
+    const parent = element.closest('[data-message-author-role]');
+    if (parent) {
+      const parentRole = parent.getAttribute("data-message-author-role");
+      if (parentRole === "user" || parentRole === "assistant") {
+        return parentRole as "user" | "assistant";
+      }
+    }
+    
+    return null;
+  },
+
+  // Rename support
+  supportsRename: true,
+};
 
-    // Rename support
-    supportsRename: true,
-  };
+export class ChatGPTPlatform extends BasePlatform {
+  constructor() {
+    super(chatgptConfig);
+  }
 
   /**
    * Attempt to rename a chat in ChatGPT by triggering the native rename UI
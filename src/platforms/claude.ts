@@ -1,64 +1,92 @@
-import { BasePlatform } from './base';
+import { createPlatform } from './generic';
 import { PlatformConfig } from './config';
 
-export class ClaudePlatform extends BasePlatform {
-  name = 'claude';
+export const claudeConfig: PlatformConfig = {
+  // Identity
+  id: 'claude',
+  displayName: 'Claude',
+  emoji: '🧠',
 
-  config: PlatformConfig = {
-    // URL patterns
-    chatIdPattern: /\/chat\/([a-f0-9-]+)/,
-    baseUrl: 'https://claude.ai',
-    newChatUrl: 'https://claude.ai/new',
-    chatUrlTemplate: (chatId: string) => `https://claude.ai/chat/${chatId}`,
+  // URL patterns
+  chatIdPattern: /\/chat\/([a-f0-9-]+)/,
+  baseUrl: 'https://claude.ai',
+  newChatUrl: 'https://claude.ai/new',
+  chatUrlTemplate: (chatId: string) => `https://claude.ai/chat/${chatId}`,
 
-    // Hostname detection
-    hostnamePattern: 'claude.ai',
+  // Hostname detection
+  hostnamePattern: 'claude.ai',
 
-    // Input field selectors
-    inputSelectors: [
-      'div[contenteditable="true"][placeholder*="Talk"]',
-      'div[contenteditable="true"][placeholder*="Reply"]',
-      'fieldset div[contenteditable="true"]',
-      'div[contenteditable="true"]',
-    ],
-    inputType: 'contenteditable',
+  // Input field selectors
+  inputSelectors: [
+    'div[contenteditable="true"][placeholder*="Talk"]',
+    'div[contenteditable="true"][placeholder*="Reply"]',
+    'fieldset div[contenteditable="true"]',
+    'div[contenteditable="true"]',
+  ],
+  inputType: 'contenteditable',
 
-    // Sidebar chat link selectors
-    sidebarLinkSelectors: ['nav a[href^="/chat/"]'],
-    sidebarLinkPattern: /\/chat\/([a-f0-9-]+)/,
+  // Sidebar chat link selectors
+  sidebarLinkSelectors: ['nav a[href^="/chat/"]'],
+  sidebarLinkPattern: /\/chat\/([a-f0-9-]+)/,
 
-    // Title detection selectors
-    titleSelectors: [
-      {
-        selector: 'title',
-      },
-      {
-        selector: '.font-user-message, [data-is-author-user="true"]',
-      },
-    ],
-    titleFallback: 'Untitled Chat',
-    pageTitleCleanup: (title: string) => title.replace(/\s*[|•]\s*Claude.*$/, '').trim(),
-
-    // Message extraction selectors
-    messageSelectors: {
-      user: ['[data-test-id="message"][data-is-author-user="true"]', '[class*="font-user-message"]'],
-      assistant: ['[class*="font-claude-message"]'],
-      container: ['[data-test-id="message"]'],
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: 'title',
     },
-    messageRoleDetector: (element) => {
-      const isUser = element.getAttribute('data-is-author-user') === 'true' || 
-                     element.className.includes('user-message');
-      return isUser ? 'user' : 'assistant';
+    {
+      selector: '.font-user-message, [data-is-author-user="true"]',
     },
+  ],
+  titleFallback: 'Untitled Chat',
+  pageTitleCleanup: (title: string) => title.replace(/\s*[|•]\s*Claude.*$/, '').trim(),
+
+  // Message extraction selectors
+  messageSelectors: {
+    user: ['[data-test-id="message"][data-is-author-user="true"]', '[class*="font-user-message"]'],
+    assistant: ['[class*="font-claude-message"]'],
+    container: ['[data-test-id="message"]'],
+  },
+  messageRoleDetector: (element) => {
+    const isUser = element.getAttribute('data-is-author-user') === 'true' || 
+                   element.className.includes('user-message');
+    return isUser ? 'user' : 'assistant';
+  },
 
-    // Rename support
-    supportsRename: false,
-  };
+  // Rename support
+  supportsRename: true,
+};
 
+export const claudePlatform = createPlatform(claudeConfig, {
+  /**
+   * Rename through claude.ai's own API, which the page is already signed in to
+   * The organization comes from the lastActiveOrg cookie the web app sets
+   */
   async renameChat(chatUrl: string, newTitle: string): Promise<boolean> {
-    console.warn('Claude chat renaming not yet implemented');
-    return false;
-  }
-}
+    const chatId = chatUrl.match(this.config.chatIdPattern)?.[1];
+    const orgId = document.cookie.match(/(?:^|;\s*)lastActiveOrg=([^;]+)/)?.[1];
+    if (!chatId || !orgId) {
+      console.warn('🌳 Arbor: Could not find the Claude chat or organization to rename');
+      return false;
+    }
 
-export const claudePlatform = new ClaudePlatform();
+    try {
+      const response = await fetch(
+        `/api/organizations/${orgId}/chat_conversations/${chatId}`,
+        {
+          method: 'PUT',
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: newTitle }),
+        },
+      );
+      if (!response.ok) {
+        console.warn(`🌳 Arbor: Claude rename failed with status ${response.status}`);
+      }
+      return response.ok;
+    } catch (error) {
+      console.error('🌳 Arbor: Error renaming chat in Claude:', error);
+      return false;
+    }
+  },
+});
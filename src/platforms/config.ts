@@ -1,8 +1,15 @@
+import type { PlatformId } from '../types';
+
 /**
  * Platform configuration interface
  * Contains all platform-specific selectors, URL patterns, and settings
  */
 export interface PlatformConfig {
+  // Identity
+  id: PlatformId; // Registry key, stored on every node from this platform
+  displayName: string; // e.g. "Google Gemini"
+  emoji: string; // Badge shown next to chats from this platform
+
   // URL patterns
   chatIdPattern: RegExp; // Regex to extract chat ID from URL
   baseUrl: string; // Base URL for the platform
@@ -0,0 +1,69 @@
+import { createPlatform } from "./generic";
+import { PlatformConfig } from "./config";
+
+export const copilotConfig: PlatformConfig = {
+  // Identity
+  id: "copilot",
+  displayName: "Microsoft Copilot",
+  emoji: "🪁",
+
+  // URL patterns
+  chatIdPattern: /\/chats\/([a-zA-Z0-9-_]+)/,
+  baseUrl: "https://copilot.microsoft.com",
+  newChatUrl: "https://copilot.microsoft.com/",
+  chatUrlTemplate: (chatId: string) => `https://copilot.microsoft.com/chats/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: "copilot.microsoft.com",
+
+  // Input field selectors
+  inputSelectors: [
+    "textarea#userInput",
+    'textarea[data-testid="composer-input"]',
+    'textarea[placeholder*="Message"]',
+    "textarea",
+  ],
+  inputType: "textarea",
+
+  // Sidebar chat link selectors - recent conversations in the side panel
+  sidebarLinkSelectors: [
+    'nav a[href*="/chats/"]',
+    'aside a[href*="/chats/"]',
+    'a[href*="/chats/"]',
+  ],
+  sidebarLinkPattern: /\/chats\/([a-zA-Z0-9-_]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: 'a[href*="/chats/"][aria-current="page"]',
+    },
+    {
+      selector: "title",
+    },
+    {
+      selector: '[data-content="user-message"]',
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) =>
+    title.replace(/\s*[|-]\s*(Microsoft )?Copilot.*$/, "").trim(),
+
+  // Message extraction selectors
+  messageSelectors: {
+    user: ['[data-content="user-message"]'],
+    assistant: ['[data-content="ai-message"]'],
+    container: ['[data-testid*="message"]'],
+  },
+  messageRoleDetector: (element) => {
+    const content = element.closest("[data-content]")?.getAttribute("data-content");
+    if (content === "user-message") return "user";
+    if (content === "ai-message") return "assistant";
+    return null;
+  },
+
+  // Rename support
+  supportsRename: false,
+};
+
+export const copilotPlatform = createPlatform(copilotConfig);
@@ -0,0 +1,277 @@
+/**
+ * Custom Platforms - user-defined profiles for self-hosted chat UIs
+ *
+ * A profile is the serialisable part of a PlatformConfig (regexes and
+ * templates as strings), saved from the options page. Each one is turned into
+ * a generic adapter and registered with PlatformFactory; the background
+ * worker registers content.js for the profile's host once the user grants the
+ * optional host permission.
+ */
+
+import type { PlatformId } from "../types";
+import { PlatformConfig } from "./config";
+import { PlatformFactory } from "./factory";
+import { createPlatform } from "./generic";
+
+export const CUSTOM_PLATFORMS_KEY = "arbor_custom_platforms";
+const ID_PREFIX = "custom-";
+
+export interface CustomPlatformProfile {
+  id: PlatformId; // Always starts with "custom-", so it can't shadow a built-in
+  displayName: string;
+  emoji: string;
+  hostname: string; // e.g. "chat.internal.example.com" or "*.example.com"
+  chatIdPattern: string; // Regex source, first capture group is the chat ID
+  chatUrlTemplate: string; // Chat URL with "{id}" in place of the chat ID
+  newChatUrl: string;
+  inputType: PlatformConfig["inputType"];
+  inputSelectors: string[];
+  sidebarLinkSelectors: string[];
+  userMessageSelectors: string[];
+  assistantMessageSelectors: string[];
+  titleSelectors: string[];
+}
+
+export type CustomPlatformDraft = Omit<CustomPlatformProfile, "id"> & {
+  id?: PlatformId;
+};
+
+/**
+ * Starting points for common self-hosted UIs
+ * Selectors follow each project's current markup and can be edited
+ */
+export const CUSTOM_PLATFORM_PRESETS: Record<
+  "open-webui" | "librechat",
+  Omit<CustomPlatformDraft, "hostname" | "newChatUrl">
+> = {
+  "open-webui": {
+    displayName: "Open WebUI",
+    emoji: "🦙",
+    chatIdPattern: "/c/([a-f0-9-]+)",
+    chatUrlTemplate: "/c/{id}",
+    inputType: "contenteditable",
+    inputSelectors: ['#chat-input[contenteditable="true"]', "textarea#chat-input"],
+    sidebarLinkSelectors: ['#sidebar a[href^="/c/"]', 'a[href^="/c/"]'],
+    userMessageSelectors: [".user-message"],
+    assistantMessageSelectors: [".chat-assistant"],
+    titleSelectors: ['#sidebar a[href^="/c/"].selected'],
+  },
+  librechat: {
+    displayName: "LibreChat",
+    emoji: "🗨️",
+    chatIdPattern: "/c/([a-f0-9-]{36})",
+    chatUrlTemplate: "/c/{id}",
+    inputType: "textarea",
+    inputSelectors: ["textarea#prompt-textarea", "textarea"],
+    sidebarLinkSelectors: ['nav a[href^="/c/"]'],
+    userMessageSelectors: [".user-turn .message-content"],
+    assistantMessageSelectors: [".agent-turn .message-content"],
+    titleSelectors: ['nav a[href^="/c/"][aria-current="page"]'],
+  },
+};
+
+export class CustomPlatforms {
+  /**
+   * All saved profiles
+   */
+  static async list(): Promise<CustomPlatformProfile[]> {
+    const result = await chrome.storage.local.get(CUSTOM_PLATFORMS_KEY);
+    return result[CUSTOM_PLATFORMS_KEY] || [];
+  }
+
+  /**
+   * Register every saved profile with PlatformFactory
+   * Call before detecting the active platform
+   */
+  static async load(): Promise<void> {
+    try {
+      const profiles = await this.list();
+      profiles.forEach((profile) =>
+        PlatformFactory.register(createPlatform(this.toConfig(profile))),
+      );
+    } catch (error) {
+      console.error("🌳 Arbor: Failed to load custom platforms:", error);
+    }
+  }
+
+  /**
+   * Save a new or edited profile and register it on this page
+   */
+  static async save(draft: CustomPlatformDraft): Promise<CustomPlatformProfile> {
+    const error = this.validate(draft);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const profile: CustomPlatformProfile = {
+      ...draft,
+      id: draft.id || `${ID_PREFIX}${Date.now().toString(36)}`,
+      hostname: draft.hostname.trim().toLowerCase(),
+    };
+    const profiles = await this.list();
+    const index = profiles.findIndex((p) => p.id === profile.id);
+    if (index === -1) {
+      profiles.push(profile);
+    } else {
+      profiles[index] = profile;
+    }
+
+    await chrome.storage.local.set({ [CUSTOM_PLATFORMS_KEY]: profiles });
+    PlatformFactory.register(createPlatform(this.toConfig(profile)));
+    return profile;
+  }
+
+  /**
+   * Delete a profile
+   * Chats already saved from it keep their platform ID
+   */
+  static async remove(id: PlatformId): Promise<void> {
+    const profiles = await this.list();
+    await chrome.storage.local.set({
+      [CUSTOM_PLATFORMS_KEY]: profiles.filter((p) => p.id !== id),
+    });
+    PlatformFactory.unregister(id);
+  }
+
+  /**
+   * Host permission pattern the profile needs, e.g. "*://chat.example.com/*"
+   */
+  static getOriginPattern(profile: Pick<CustomPlatformProfile, "hostname">): string {
+    return `*://${profile.hostname.trim().toLowerCase()}/*`;
+  }
+
+  /**
+   * Why a draft can't be saved, or null if it's fine
+   */
+  static validate(draft: CustomPlatformDraft): string | null {
+    if (!draft.displayName.trim()) {
+      return "Give the platform a name";
+    }
+
+    const hostname = draft.hostname.trim().toLowerCase();
+    if (!/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(hostname)) {
+      return 'Hostname should look like "chat.example.com" or "*.example.com" (no scheme, port or path)';
+    }
+    const sampleUrl = `https://${hostname.replace(/^\*\./, "")}/`;
+    const existing = PlatformFactory.getAllPlatforms().find(
+      (platform) => platform.name !== draft.id && platform.isPlatformUrl(sampleUrl),
+    );
+    if (existing) {
+      return `${existing.displayName} already uses this hostname`;
+    }
+
+    let newChatUrl: URL;
+    try {
+      newChatUrl = new URL(draft.newChatUrl);
+    } catch {
+      return `"${draft.newChatUrl}" isn't a valid URL`;
+    }
+    if (!matchesHostname(hostname, newChatUrl.hostname)) {
+      return "New chat URL should be on the platform's hostname";
+    }
+
+    try {
+      if (!/\((?!\?)/.test(draft.chatIdPattern)) {
+        return "Chat ID pattern needs a capture group around the ID";
+      }
+      new RegExp(draft.chatIdPattern);
+    } catch {
+      return "Chat ID pattern isn't a valid regular expression";
+    }
+
+    if (!draft.chatUrlTemplate.includes("{id}")) {
+      return 'Chat URL template needs "{id}" where the chat ID goes';
+    }
+    try {
+      new URL(this.resolveUrl(draft.chatUrlTemplate, draft.newChatUrl));
+    } catch {
+      return `"${draft.chatUrlTemplate}" isn't a valid URL or path`;
+    }
+
+    if (draft.inputSelectors.length === 0) {
+      return "Add at least one input selector";
+    }
+    const selectors = [
+      ...draft.inputSelectors,
+      ...draft.sidebarLinkSelectors,
+      ...draft.userMessageSelectors,
+      ...draft.assistantMessageSelectors,
+      ...draft.titleSelectors,
+    ];
+    const fragment = document.createDocumentFragment();
+    for (const selector of selectors) {
+      try {
+        fragment.querySelector(selector);
+      } catch {
+        return `"${selector}" isn't a valid CSS selector`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the adapter config for a profile
+   */
+  static toConfig(profile: CustomPlatformProfile): PlatformConfig {
+    const hostname = profile.hostname.trim().toLowerCase();
+    const chatIdPattern = new RegExp(profile.chatIdPattern);
+    const chatUrlTemplate = this.resolveUrl(
+      profile.chatUrlTemplate,
+      profile.newChatUrl,
+    );
+
+    return {
+      id: profile.id,
+      displayName: profile.displayName,
+      emoji: profile.emoji || "💬",
+
+      chatIdPattern,
+      baseUrl: new URL(profile.newChatUrl).origin,
+      newChatUrl: profile.newChatUrl,
+      chatUrlTemplate: (chatId: string) =>
+        chatUrlTemplate.replace("{id}", encodeURIComponent(chatId)),
+
+      hostnamePattern: hostnameRegExp(hostname),
+
+      inputSelectors: profile.inputSelectors,
+      inputType: profile.inputType,
+
+      sidebarLinkSelectors: profile.sidebarLinkSelectors,
+      sidebarLinkPattern: chatIdPattern,
+
+      titleSelectors: [...profile.titleSelectors, "title"].map((selector) => ({
+        selector,
+      })),
+      titleFallback: "Untitled Chat",
+
+      messageSelectors: {
+        user: profile.userMessageSelectors,
+        assistant: profile.assistantMessageSelectors,
+      },
+
+      supportsRename: false,
+    };
+  }
+
+  /**
+   * Chat URL templates may be a path on the new chat URL's origin ("/c/{id}")
+   */
+  private static resolveUrl(template: string, newChatUrl: string): string {
+    return template.startsWith("/")
+      ? `${new URL(newChatUrl).origin}${template}`
+      : template;
+  }
+}
+
+// "*.example.com" matches example.com and any subdomain, like a match pattern
+function hostnameRegExp(hostname: string): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return hostname.startsWith("*.")
+    ? new RegExp(`(^|\\.)${escape(hostname.slice(2))}$`)
+    : new RegExp(`^${escape(hostname)}$`);
+}
+
+function matchesHostname(pattern: string, hostname: string): boolean {
+  return hostnameRegExp(pattern).test(hostname);
+}
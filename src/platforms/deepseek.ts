@@ -0,0 +1,58 @@
+import { createPlatform } from "./generic";
+import { PlatformConfig } from "./config";
+
+export const deepseekConfig: PlatformConfig = {
+  // Identity
+  id: "deepseek",
+  displayName: "DeepSeek",
+  emoji: "🐋",
+
+  // URL patterns
+  chatIdPattern: /\/a\/chat\/s\/([a-zA-Z0-9-]+)/,
+  baseUrl: "https://chat.deepseek.com",
+  newChatUrl: "https://chat.deepseek.com/",
+  chatUrlTemplate: (chatId: string) => `https://chat.deepseek.com/a/chat/s/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: "chat.deepseek.com",
+
+  // Input field selectors
+  inputSelectors: [
+    "textarea#chat-input",
+    'textarea[placeholder*="DeepSeek"]',
+    "textarea",
+  ],
+  inputType: "textarea",
+
+  // Sidebar chat link selectors - DeepSeek's class names are hashed, so match on href
+  sidebarLinkSelectors: [
+    'nav a[href*="/a/chat/s/"]',
+    'a[href*="/a/chat/s/"]',
+  ],
+  sidebarLinkPattern: /\/a\/chat\/s\/([a-zA-Z0-9-]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: "title",
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) => title.replace(/\s*-\s*DeepSeek.*$/, "").trim(),
+
+  // Message extraction selectors
+  // Answers render inside .ds-markdown; prompts are the messages without it
+  messageSelectors: {
+    user: [],
+    assistant: [],
+    container: [".ds-message", '[class*="ds-message"]'],
+  },
+  messageRoleDetector: (element) => {
+    return element.querySelector(".ds-markdown") ? "assistant" : "user";
+  },
+
+  // Rename support
+  supportsRename: false,
+};
+
+export const deepseekPlatform = createPlatform(deepseekConfig);
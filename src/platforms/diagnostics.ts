@@ -0,0 +1,186 @@
+/**
+ * Selector Health - notice when a platform's DOM no longer fits its config
+ *
+ * Platform adapters report which configured selector worked for each
+ * operation, or that none did. When a site ships a redesign the operations
+ * start failing in a row; listeners are told once per breakage so the
+ * content script can warn the user instead of branching with blank context.
+ */
+
+import type { Platform, PlatformId } from "../types";
+
+export type DiagnosedOperation =
+  | "extractMessages"
+  | "detectChatTitle"
+  | "pasteIntoInput"
+  | "getAllChatsFromSidebar";
+
+export interface OperationHealth {
+  operation: DiagnosedOperation;
+  matchedSelector: string | null; // What worked last time it worked
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  consecutiveFailures: number;
+}
+
+type DegradedListener = (
+  platform: PlatformId,
+  operation: DiagnosedOperation,
+) => void;
+
+// Failures in a row before an operation counts as broken; a single miss is
+// usually a page that hasn't finished rendering
+const DEGRADED_AFTER = 3;
+
+export const OPERATION_LABELS: Record<DiagnosedOperation, string> = {
+  extractMessages: "reading messages",
+  detectChatTitle: "detecting chat titles",
+  pasteIntoInput: "pasting into the message box",
+  getAllChatsFromSidebar: "listing sidebar chats",
+};
+
+// Collapsed or empty sidebars are normal, so this one never raises the alarm
+const CRITICAL_OPERATIONS: DiagnosedOperation[] = [
+  "extractMessages",
+  "detectChatTitle",
+  "pasteIntoInput",
+];
+
+export class SelectorHealth {
+  private static health = new Map<string, OperationHealth>();
+  private static listeners = new Set<DegradedListener>();
+
+  /**
+   * An operation worked, using the given selector(s)
+   */
+  static recordMatch(
+    platform: PlatformId,
+    operation: DiagnosedOperation,
+    selector: string,
+  ): void {
+    const entry = this.getEntry(platform, operation);
+    entry.matchedSelector = selector;
+    entry.lastSuccessAt = Date.now();
+    entry.consecutiveFailures = 0;
+  }
+
+  /**
+   * No configured selector worked for an operation
+   */
+  static recordMiss(platform: PlatformId, operation: DiagnosedOperation): void {
+    const entry = this.getEntry(platform, operation);
+    entry.lastFailureAt = Date.now();
+    entry.consecutiveFailures++;
+
+    if (
+      entry.consecutiveFailures === DEGRADED_AFTER &&
+      CRITICAL_OPERATIONS.includes(operation)
+    ) {
+      console.warn(
+        `🌳 Arbor: ${platform} integration degraded, ${OPERATION_LABELS[operation]} keeps failing`,
+      );
+      this.listeners.forEach((listener) => listener(platform, operation));
+    }
+  }
+
+  /**
+   * Be told when an operation starts failing repeatedly
+   * Returns a function that stops listening
+   */
+  static onDegraded(listener: DegradedListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Operations currently failing repeatedly
+   */
+  static getDegraded(platform: PlatformId): DiagnosedOperation[] {
+    return CRITICAL_OPERATIONS.filter(
+      (operation) =>
+        (this.health.get(`${platform}:${operation}`)?.consecutiveFailures || 0) >=
+        DEGRADED_AFTER,
+    );
+  }
+
+  static getHealth(platform: PlatformId): OperationHealth[] {
+    return (Object.keys(OPERATION_LABELS) as DiagnosedOperation[])
+      .map((operation) => this.health.get(`${platform}:${operation}`))
+      .filter((entry): entry is OperationHealth => !!entry);
+  }
+
+  /**
+   * Plain-text report for a bug ticket: what has been working, what hasn't,
+   * and how every configured selector fares on the current page
+   * Contains no chat content
+   */
+  static buildReport(platform: Platform): string {
+    const time = (timestamp: number | null) =>
+      timestamp ? new Date(timestamp).toISOString() : "never";
+
+    const lines = [
+      "Arbor diagnostic report",
+      `Generated: ${new Date().toISOString()}`,
+      `Extension: ${chrome.runtime.getManifest().version}`,
+      `Platform: ${platform.displayName} (${platform.name})`,
+      `Page: ${location.origin}${location.pathname}`,
+      `In conversation: ${platform.isInConversation() ? "yes" : "no"}`,
+      `Browser: ${navigator.userAgent}`,
+      "",
+      "Operations:",
+    ];
+
+    const health = this.getHealth(platform.name);
+    if (health.length === 0) {
+      lines.push("  Nothing attempted on this page yet");
+    }
+    health.forEach((entry) => {
+      const status =
+        entry.consecutiveFailures >= DEGRADED_AFTER
+          ? "FAILING"
+          : entry.consecutiveFailures > 0
+            ? "flaky"
+            : "ok";
+      lines.push(
+        `  [${status}] ${OPERATION_LABELS[entry.operation]}`,
+        `    last worked: ${time(entry.lastSuccessAt)}${entry.matchedSelector ? ` via ${entry.matchedSelector}` : ""}`,
+        `    last failed: ${time(entry.lastFailureAt)} (${entry.consecutiveFailures} in a row)`,
+      );
+    });
+
+    lines.push("", "Selectors (matches on this page):");
+    let currentList = "";
+    platform.probeSelectors().forEach(({ list, selector, matches }) => {
+      if (list !== currentList) {
+        currentList = list;
+        lines.push(`  ${list}`);
+      }
+      lines.push(
+        `    ${matches === -1 ? "invalid" : String(matches).padStart(3)}  ${selector}`,
+      );
+    });
+
+    return lines.join("\n");
+  }
+
+  private static getEntry(
+    platform: PlatformId,
+    operation: DiagnosedOperation,
+  ): OperationHealth {
+    const key = `${platform}:${operation}`;
+    let entry = this.health.get(key);
+    if (!entry) {
+      entry = {
+        operation,
+        matchedSelector: null,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        consecutiveFailures: 0,
+      };
+      this.health.set(key, entry);
+    }
+    return entry;
+  }
+}
@@ -1,25 +1,58 @@
-import { Platform } from "../types";
+import { Platform, PlatformId } from "../types";
 import { chatgptPlatform } from "./chatgpt";
 import { geminiPlatform } from "./gemini";
 import { claudePlatform } from "./claude";
 import { perplexityPlatform } from "./perplexity";
+import { copilotPlatform } from "./copilot";
+import { deepseekPlatform } from "./deepseek";
+import { mistralPlatform } from "./mistral";
+import { grokPlatform } from "./grok";
+import { poePlatform } from "./poe";
 
 /**
- * Platform factory - returns the active platform adapter
+ * Platform registry - every site Arbor runs on, keyed by platform ID
+ *
+ * Adding a site takes a PlatformConfig in its own file, wrapped with
+ * createPlatform() (plus overrides if selectors aren't enough), listed in
+ * BUILT_IN_PLATFORMS, and its URLs in manifest.json. User-defined profiles
+ * for self-hosted UIs are registered at runtime (see CustomPlatforms).
  */
+const BUILT_IN_PLATFORMS: Platform[] = [
+  chatgptPlatform,
+  geminiPlatform,
+  claudePlatform,
+  perplexityPlatform,
+  copilotPlatform,
+  deepseekPlatform,
+  mistralPlatform,
+  grokPlatform,
+  poePlatform,
+];
+
 export class PlatformFactory {
-  private static platforms: Platform[] = [
-    chatgptPlatform,
-    geminiPlatform,
-    claudePlatform,
-    perplexityPlatform,
-  ];
+  private static platforms = new Map<PlatformId, Platform>(
+    BUILT_IN_PLATFORMS.map((platform) => [platform.name, platform]),
+  );
+
+  /**
+   * Add a platform, replacing any registered under the same ID
+   */
+  static register(platform: Platform): void {
+    this.platforms.set(platform.name, platform);
+  }
+
+  /**
+   * Remove a platform, e.g. a deleted custom profile
+   */
+  static unregister(name: PlatformId): void {
+    this.platforms.delete(name);
+  }
 
   /**
    * Get the currently active platform
    */
   static getActivePlatform(): Platform | null {
-    for (const platform of this.platforms) {
+    for (const platform of this.platforms.values()) {
       if (platform.isActive()) {
         return platform;
       }
@@ -29,18 +62,23 @@ export class PlatformFactory {
   }
 
   /**
-   * Get platform by name
+   * Get platform by ID
+   */
+  static getPlatformByName(name: PlatformId): Platform | null {
+    return this.platforms.get(name) || null;
+  }
+
+  /**
+   * Get the platform a conversation URL belongs to
    */
-  static getPlatformByName(
-    name: "chatgpt" | "gemini" | "claude" | "perplexity",
-  ): Platform | null {
-    return this.platforms.find((p) => p.name === name) || null;
+  static getPlatformForUrl(url: string): Platform | null {
+    return this.getAllPlatforms().find((p) => p.isChatUrl(url)) || null;
   }
 
   /**
    * Get all registered platforms
    */
   static getAllPlatforms(): Platform[] {
-    return this.platforms;
+    return Array.from(this.platforms.values());
   }
 }
@@ -1,74 +1,124 @@
 import { BasePlatform } from "./base";
 import { PlatformConfig } from "./config";
+import { renameThroughMenu } from "./utils/rename";
 
-export class GeminiPlatform extends BasePlatform {
-  name = "gemini";
-
-  config: PlatformConfig = {
-    // URL patterns
-    chatIdPattern: /\/app\/([a-f0-9]+)/,
-    baseUrl: "https://gemini.google.com",
-    newChatUrl: "https://gemini.google.com/app",
-    chatUrlTemplate: (chatId: string) => `https://gemini.google.com/app/${chatId}`,
-
-    // Hostname detection
-    hostnamePattern: "gemini.google.com",
-
-    // Input field selectors
-    inputSelectors: [
-      'rich-textarea[contenteditable="true"]',
-      'div[contenteditable="true"][role="textbox"]',
-      'div[contenteditable="true"]',
-    ],
-    inputType: "contenteditable",
-
-    // Sidebar chat link selectors - Gemini uses data-test-id="conversation"
-    sidebarLinkSelectors: [
-      'a[data-test-id="conversation"][href*="/app/"]',
-      'nav a[href*="/app/"]',
-      'aside a[href*="/app/"]',
-    ],
-    sidebarLinkPattern: /\/app\/([a-f0-9]+)/,
-
-    // Title detection selectors
-    titleSelectors: [
-      {
-        selector: 'title',
-      },
-      {
-        selector: '[data-test-id="user-message"]',
-      },
-      {
-        selector: '[class*="user-message"]',
-      },
-      {
-        selector: '[class*="UserMessage"]',
-      },
-    ],
-    titleFallback: "Untitled Chat",
-    pageTitleCleanup: (title: string) => title.replace(/\s*-\s*Gemini.*$/, "").trim(),
-
-    // Message extraction selectors
-    messageSelectors: {
-      user: ['[data-test-id="user-message"]'],
-      assistant: ['[data-test-id="model-message"]', '[data-test-id="assistant-message"]'],
-      container: ['message-content', '[class*="conversation-turn"]'],
+export const geminiConfig: PlatformConfig = {
+  // Identity
+  id: "gemini",
+  displayName: "Google Gemini",
+  emoji: "✨",
+
+  // URL patterns
+  chatIdPattern: /\/app\/([a-f0-9]+)/,
+  baseUrl: "https://gemini.google.com",
+  newChatUrl: "https://gemini.google.com/app",
+  chatUrlTemplate: (chatId: string) => `https://gemini.google.com/app/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: "gemini.google.com",
+
+  // Input field selectors
+  inputSelectors: [
+    'rich-textarea[contenteditable="true"]',
+    'div[contenteditable="true"][role="textbox"]',
+    'div[contenteditable="true"]',
+  ],
+  inputType: "contenteditable",
+
+  // Sidebar chat link selectors - Gemini uses data-test-id="conversation"
+  sidebarLinkSelectors: [
+    'a[data-test-id="conversation"][href*="/app/"]',
+    'nav a[href*="/app/"]',
+    'aside a[href*="/app/"]',
+  ],
+  sidebarLinkPattern: /\/app\/([a-f0-9]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: 'title',
     },
-    messageRoleDetector: (element) => {
-      const parentClasses = element.parentElement?.className || "";
-      const isUser = parentClasses.includes("user") || parentClasses.includes("User");
-      const isAI = parentClasses.includes("model") || 
-                   parentClasses.includes("assistant") || 
-                   parentClasses.includes("gemini");
-      
-      if (isUser) return 'user';
-      if (isAI) return 'assistant';
-      return null;
+    {
+      selector: '[data-test-id="user-message"]',
+    },
+    {
+      selector: '[class*="user-message"]',
     },
+    {
+      selector: '[class*="UserMessage"]',
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) => title.replace(/\s*-\s*Gemini.*$/, "").trim(),
+
+  // Message extraction selectors
+  messageSelectors: {
+    user: ['[data-test-id="user-message"]'],
+    assistant: ['[data-test-id="model-message"]', '[data-test-id="assistant-message"]'],
+    container: ['message-content', '[class*="conversation-turn"]'],
+  },
+  messageRoleDetector: (element) => {
+    const parentClasses = element.parentElement?.className || "";
+    const isUser = parentClasses.includes("user") || parentClasses.includes("User");
+    const isAI = parentClasses.includes("model") || 
+                 parentClasses.includes("assistant") || 
+                 parentClasses.includes("gemini");
+    
+    if (isUser) return 'user';
+    if (isAI) return 'assistant';
+    return null;
+  },
 
-    // Rename support
-    supportsRename: false,
-  };
+  // Rename support
+  supportsRename: true,
+};
+
+export class GeminiPlatform extends BasePlatform {
+  constructor() {
+    super(geminiConfig);
+  }
+
+  /**
+   * Rename a chat through the "more" menu on its sidebar entry
+   * The chat has to be listed in the sidebar
+   */
+  async renameChat(chatUrl: string, newTitle: string): Promise<boolean> {
+    try {
+      const chatId = chatUrl.match(this.config.chatIdPattern)?.[1];
+      const link = chatId
+        ? document.querySelector(
+            `a[data-test-id="conversation"][href*="${chatId}"]`,
+          )
+        : null;
+      if (!link) {
+        console.warn("🌳 Arbor: Could not find chat in Gemini's sidebar:", chatUrl);
+        return false;
+      }
+
+      return await renameThroughMenu(
+        {
+          container:
+            link.closest('[class*="conversation-items-container"]') ||
+            link.parentElement ||
+            link,
+          menuButtonSelector:
+            'button[data-test-id="actions-menu-button"], button[aria-haspopup="menu"]',
+          renameItemSelector: 'button[data-test-id="rename-button"]',
+          renameItemText: "rename",
+          inputSelector:
+            'input[data-test-id="edit-title-input"], mat-dialog-container input',
+          confirmSelector: 'button[data-test-id="save-btn"]',
+          readTitle: () =>
+            this.getAllChatsFromSidebar().find((chat) => chat.id === chatId)
+              ?.title ?? null,
+        },
+        newTitle,
+      );
+    } catch (error) {
+      console.error("🌳 Arbor: Error renaming chat in Gemini:", error);
+      return false;
+    }
+  }
 
   /**
    * Override getAllChatsFromSidebar to properly extract Gemini chat titles
@@ -225,12 +275,7 @@ export class GeminiPlatform extends BasePlatform {
       return fullText.length > 100 ? fullText.substring(0, 97) + '...' : fullText;
     }
 
-    return this.config!.titleFallback;
-  }
-
-  async renameChat(chatUrl: string, newTitle: string): Promise<boolean> {
-    console.warn("Gemini chat renaming not yet implemented");
-    return false;
+    return this.config.titleFallback;
   }
 }
 
@@ -0,0 +1,35 @@
+import { Platform } from "../types";
+import { BasePlatform } from "./base";
+import { PlatformConfig } from "./config";
+
+/**
+ * Behaviour a config-only platform can replace, for sites whose DOM or API
+ * selectors can't describe (e.g. renaming through the site's own API)
+ */
+export type PlatformOverrides = Partial<
+  Pick<
+    Platform,
+    | "renameChat"
+    | "getAllChatsFromSidebar"
+    | "detectChatTitle"
+    | "extractMessages"
+    | "pasteIntoInput"
+  >
+>;
+
+/**
+ * Generic adapter driven entirely by a PlatformConfig
+ */
+export class ConfigPlatform extends BasePlatform {}
+
+/**
+ * Build an adapter from a config plus optional overrides
+ * Overrides run with `this` bound to the adapter, so they can fall back on
+ * the config-driven behaviour
+ */
+export function createPlatform(
+  config: PlatformConfig,
+  overrides: PlatformOverrides & ThisType<ConfigPlatform> = {},
+): Platform {
+  return Object.assign(new ConfigPlatform(config), overrides);
+}
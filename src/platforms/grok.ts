@@ -0,0 +1,58 @@
+import { createPlatform } from "./generic";
+import { PlatformConfig } from "./config";
+
+export const grokConfig: PlatformConfig = {
+  // Identity
+  id: "grok",
+  displayName: "Grok",
+  emoji: "⚡",
+
+  // URL patterns
+  chatIdPattern: /\/c\/([a-zA-Z0-9-]+)/,
+  baseUrl: "https://grok.com",
+  newChatUrl: "https://grok.com/",
+  chatUrlTemplate: (chatId: string) => `https://grok.com/c/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: /(^|\.)grok\.com$/,
+
+  // Input field selectors
+  inputSelectors: [
+    'div.ProseMirror[contenteditable="true"]',
+    'div[contenteditable="true"]',
+  ],
+  inputType: "contenteditable",
+
+  // Sidebar chat link selectors
+  sidebarLinkSelectors: [
+    'nav a[href^="/c/"]',
+    'aside a[href^="/c/"]',
+    'a[href^="/c/"]',
+  ],
+  sidebarLinkPattern: /\/c\/([a-zA-Z0-9-]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: "title",
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) => title.replace(/\s*[|-]\s*Grok.*$/, "").trim(),
+
+  // Message extraction selectors
+  // Both sides use .message-bubble; the user's bubbles are right-aligned (items-end)
+  messageSelectors: {
+    user: [],
+    assistant: [],
+    container: [".message-bubble", '[class*="message-bubble"]'],
+  },
+  messageRoleDetector: (element) => {
+    return element.closest(".items-end") ? "user" : "assistant";
+  },
+
+  // Rename support
+  supportsRename: false,
+};
+
+export const grokPlatform = createPlatform(grokConfig);
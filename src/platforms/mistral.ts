@@ -0,0 +1,65 @@
+import { createPlatform } from "./generic";
+import { PlatformConfig } from "./config";
+
+export const mistralConfig: PlatformConfig = {
+  // Identity
+  id: "mistral",
+  displayName: "Mistral Le Chat",
+  emoji: "🌬️",
+
+  // URL patterns
+  chatIdPattern: /\/chat\/([a-f0-9-]+)/,
+  baseUrl: "https://chat.mistral.ai",
+  newChatUrl: "https://chat.mistral.ai/chat",
+  chatUrlTemplate: (chatId: string) => `https://chat.mistral.ai/chat/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: "chat.mistral.ai",
+
+  // Input field selectors
+  inputSelectors: [
+    'div.ProseMirror[contenteditable="true"]',
+    'div[contenteditable="true"][role="textbox"]',
+    'div[contenteditable="true"]',
+  ],
+  inputType: "contenteditable",
+
+  // Sidebar chat link selectors
+  sidebarLinkSelectors: [
+    'nav a[href^="/chat/"]',
+    'aside a[href^="/chat/"]',
+  ],
+  sidebarLinkPattern: /\/chat\/([a-f0-9-]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: "title",
+    },
+    {
+      selector: '[data-message-author-role="user"]',
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) =>
+    title.replace(/\s*[|-]\s*(Le Chat|Mistral).*$/, "").trim(),
+
+  // Message extraction selectors
+  messageSelectors: {
+    user: ['[data-message-author-role="user"]'],
+    assistant: ['[data-message-author-role="assistant"]'],
+    container: ["[data-message-author-role]"],
+  },
+  messageRoleDetector: (element) => {
+    const role = element
+      .closest("[data-message-author-role]")
+      ?.getAttribute("data-message-author-role");
+    if (role === "user" || role === "assistant") return role;
+    return null;
+  },
+
+  // Rename support
+  supportsRename: false,
+};
+
+export const mistralPlatform = createPlatform(mistralConfig);
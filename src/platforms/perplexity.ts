@@ -1,90 +1,120 @@
-import { BasePlatform } from "./base";
+import { createPlatform } from "./generic";
 import { PlatformConfig } from "./config";
+import { renameThroughMenu } from "./utils/rename";
 
-export class PerplexityPlatform extends BasePlatform {
-  name = "perplexity";
+export const perplexityConfig: PlatformConfig = {
+  // Identity
+  id: "perplexity",
+  displayName: "Perplexity AI",
+  emoji: "🔍",
 
-  config: PlatformConfig = {
-    // URL patterns
-    chatIdPattern: /\/search\/([a-zA-Z0-9-_.]+)/,
-    baseUrl: "https://www.perplexity.ai",
-    newChatUrl: "https://www.perplexity.ai/",
-    chatUrlTemplate: (chatId: string) => `https://www.perplexity.ai/search/${chatId}`,
+  // URL patterns
+  chatIdPattern: /\/search\/([a-zA-Z0-9-_.]+)/,
+  baseUrl: "https://www.perplexity.ai",
+  newChatUrl: "https://www.perplexity.ai/",
+  chatUrlTemplate: (chatId: string) => `https://www.perplexity.ai/search/${chatId}`,
 
-    // Hostname detection
-    hostnamePattern: "perplexity.ai",
+  // Hostname detection
+  hostnamePattern: "perplexity.ai",
 
-    // Input field selectors
-    inputSelectors: [
-      'textarea[placeholder*="Ask"]',
-      'textarea[placeholder*="Follow-up"]',
-      'input[placeholder*="Ask"]',
-      "textarea",
-    ],
-    inputType: "input",
+  // Input field selectors
+  inputSelectors: [
+    'textarea[placeholder*="Ask"]',
+    'textarea[placeholder*="Follow-up"]',
+    'input[placeholder*="Ask"]',
+    "textarea",
+  ],
+  inputType: "input",
 
-    // Sidebar chat link selectors
-    sidebarLinkSelectors: [
-      'a[href^="/search/"]',
-      '[class*="ThreadItem"] a',
-      '[class*="thread"] a[href*="/search/"]',
-      'aside a[href*="/search/"]',
-      'nav a[href*="/search/"]',
-      '[role="navigation"] a[href*="/search/"]',
-      'a[href*="/search/"]',
-    ],
-    sidebarLinkPattern: /\/search\/([a-zA-Z0-9-_.]+)/,
+  // Sidebar chat link selectors
+  sidebarLinkSelectors: [
+    'a[href^="/search/"]',
+    '[class*="ThreadItem"] a',
+    '[class*="thread"] a[href*="/search/"]',
+    'aside a[href*="/search/"]',
+    'nav a[href*="/search/"]',
+    '[role="navigation"] a[href*="/search/"]',
+    'a[href*="/search/"]',
+  ],
+  sidebarLinkPattern: /\/search\/([a-zA-Z0-9-_.]+)/,
 
-    // Title detection selectors
-    titleSelectors: [
-      {
-        selector: 'title',
-      },
-      {
-        selector: '[class*="UserMessage"]',
-      },
-      {
-        selector: '[class*="QueryText"]',
-      },
-      {
-        selector: '[class*="user-message"]',
-      },
-      {
-        selector: '[data-testid*="query"]',
-      },
-      {
-        selector: '[data-testid*="user-message"]',
-      },
-    ],
-    titleFallback: "Untitled Search",
-    pageTitleCleanup: (title: string) => title.replace(/\s*[|-]\s*Perplexity.*$/, "").trim(),
-
-    // Message extraction selectors
-    messageSelectors: {
-      user: ['[class*="UserMessage"]'],
-      assistant: ['[class*="AssistantMessage"]', '[class*="AnswerSection"]'],
-      container: ['[class*="ConversationItem"]', '[data-testid="conversation-item"]'],
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: 'title',
+    },
+    {
+      selector: '[class*="UserMessage"]',
+    },
+    {
+      selector: '[class*="QueryText"]',
     },
-    messageRoleDetector: (element) => {
-      const isUser = element.className.includes("UserMessage") ||
-                     element.querySelector('[class*="UserMessage"]');
-      const isAssistant = element.className.includes("AssistantMessage") ||
-                          element.className.includes("AnswerSection") ||
-                          element.querySelector('[class*="AssistantMessage"], [class*="AnswerSection"]');
-      
-      if (isUser) return 'user';
-      if (isAssistant) return 'assistant';
-      return null;
+    {
+      selector: '[class*="user-message"]',
     },
+    {
+      selector: '[data-testid*="query"]',
+    },
+    {
+      selector: '[data-testid*="user-message"]',
+    },
+  ],
+  titleFallback: "Untitled Search",
+  pageTitleCleanup: (title: string) => title.replace(/\s*[|-]\s*Perplexity.*$/, "").trim(),
+
+  // Message extraction selectors
+  messageSelectors: {
+    user: ['[class*="UserMessage"]'],
+    assistant: ['[class*="AssistantMessage"]', '[class*="AnswerSection"]'],
+    container: ['[class*="ConversationItem"]', '[data-testid="conversation-item"]'],
+  },
+  messageRoleDetector: (element) => {
+    const isUser = element.className.includes("UserMessage") ||
+                   element.querySelector('[class*="UserMessage"]');
+    const isAssistant = element.className.includes("AssistantMessage") ||
+                        element.className.includes("AnswerSection") ||
+                        element.querySelector('[class*="AssistantMessage"], [class*="AnswerSection"]');
+    
+    if (isUser) return 'user';
+    if (isAssistant) return 'assistant';
+    return null;
+  },
 
-    // Rename support
-    supportsRename: false,
-  };
+  // Rename support
+  supportsRename: true,
+};
 
+export const perplexityPlatform = createPlatform(perplexityConfig, {
+  /**
+   * Rename a thread through the menu on its sidebar or library entry
+   */
   async renameChat(chatUrl: string, newTitle: string): Promise<boolean> {
-    console.warn("Perplexity chat renaming not yet implemented");
-    return false;
-  }
-}
+    try {
+      const chatId = chatUrl.match(this.config.chatIdPattern)?.[1];
+      const link = chatId
+        ? document.querySelector(`a[href*="/search/${chatId}"]`)
+        : null;
+      if (!link) {
+        console.warn("🌳 Arbor: Could not find thread in Perplexity's sidebar:", chatUrl);
+        return false;
+      }
 
-export const perplexityPlatform = new PerplexityPlatform();
+      return await renameThroughMenu(
+        {
+          container: link.closest('li, [class*="group"]') || link.parentElement || link,
+          menuButtonSelector: 'button[aria-haspopup="menu"], button[data-testid*="menu"]',
+          renameItemText: "rename",
+          inputSelector: 'div[role="dialog"] input[type="text"], input[type="text"]',
+          confirmSelector: 'div[role="dialog"] button[type="submit"]',
+          readTitle: () =>
+            this.getAllChatsFromSidebar().find((chat) => chat.id === chatId)
+              ?.title ?? null,
+        },
+        newTitle,
+      );
+    } catch (error) {
+      console.error("🌳 Arbor: Error renaming thread in Perplexity:", error);
+      return false;
+    }
+  },
+});
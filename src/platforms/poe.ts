@@ -0,0 +1,62 @@
+import { createPlatform } from "./generic";
+import { PlatformConfig } from "./config";
+
+export const poeConfig: PlatformConfig = {
+  // Identity
+  id: "poe",
+  displayName: "Poe",
+  emoji: "🅿️",
+
+  // URL patterns
+  chatIdPattern: /\/chat\/([a-zA-Z0-9]+)/,
+  baseUrl: "https://poe.com",
+  newChatUrl: "https://poe.com/",
+  chatUrlTemplate: (chatId: string) => `https://poe.com/chat/${chatId}`,
+
+  // Hostname detection
+  hostnamePattern: /(^|\.)poe\.com$/,
+
+  // Input field selectors
+  inputSelectors: [
+    'textarea[class*="GrowingTextArea"]',
+    'textarea[placeholder*="Message"]',
+    "textarea",
+  ],
+  inputType: "textarea",
+
+  // Sidebar chat link selectors - Poe's CSS module names keep a readable prefix
+  sidebarLinkSelectors: [
+    'a[class*="ChatHistoryListItem"][href^="/chat/"]',
+    'a[href^="/chat/"]',
+  ],
+  sidebarLinkPattern: /\/chat\/([a-zA-Z0-9]+)/,
+
+  // Title detection selectors
+  titleSelectors: [
+    {
+      selector: '[class*="ChatHeader_titleText"]',
+    },
+    {
+      selector: "title",
+    },
+  ],
+  titleFallback: "Untitled Chat",
+  pageTitleCleanup: (title: string) => title.replace(/\s*-\s*Poe.*$/, "").trim(),
+
+  // Message extraction selectors
+  messageSelectors: {
+    user: ['[class*="Message_rightSideMessageBubble"]'],
+    assistant: ['[class*="Message_leftSideMessageBubble"]'],
+    container: ['[class*="ChatMessage_chatMessage"]'],
+  },
+  messageRoleDetector: (element) => {
+    if (element.querySelector('[class*="rightSideMessage"]')) return "user";
+    if (element.querySelector('[class*="leftSideMessage"]')) return "assistant";
+    return null;
+  },
+
+  // Rename support
+  supportsRename: false,
+};
+
+export const poePlatform = createPlatform(poeConfig);
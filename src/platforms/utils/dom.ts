@@ -132,3 +132,58 @@ export function debounce<T extends (...args: any[]) => any>(
     }, wait);
   };
 }
+
+/**
+ * Find the nearest ancestor (or the element itself) that scrolls vertically
+ * 
+ * @param element - Element inside the scrolling area
+ * @returns The scrolling element, or null if none scrolls
+ */
+export function findScrollParent(element: Element): HTMLElement | null {
+  let current: Element | null = element;
+
+  while (current && current !== document.body) {
+    const overflowY = getComputedStyle(current).overflowY;
+    if (
+      (overflowY === "auto" || overflowY === "scroll") &&
+      current.scrollHeight > current.clientHeight
+    ) {
+      return current as HTMLElement;
+    }
+    current = current.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * The ancestor part of a descendant selector: "nav" for "nav a[href]",
+ * "#sidebar > ul" for "#sidebar > ul li a"
+ * 
+ * @param selector - Selector with a descendant or child combinator
+ * @returns The part before the last combinator, or null if there is none
+ */
+export function getAncestorSelector(selector: string): string | null {
+  let depth = 0;
+  let quote: string | null = null;
+  let split = -1;
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "[" || char === "(") {
+      depth++;
+    } else if (char === "]" || char === ")") {
+      depth--;
+    } else if (depth === 0 && (char === " " || char === ">")) {
+      split = i;
+    }
+  }
+
+  if (split < 0) return null;
+  const ancestor = selector.slice(0, split).replace(/[\s>]+$/, "").trim();
+  return ancestor || null;
+}
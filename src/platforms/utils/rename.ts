@@ -0,0 +1,139 @@
+/**
+ * Rename a chat through the provider's own UI
+ * For sites without a usable API: open the chat's "more" menu, pick Rename,
+ * type the new title and confirm, the way a user would
+ */
+
+import { focusElement, setInputValue } from "./react";
+
+export interface MenuRenameSteps {
+  // Element the menu belongs to, e.g. the chat's sidebar row
+  container: Element;
+  // Button inside the container that opens the chat's menu
+  menuButtonSelector: string;
+  // Menu entry for renaming, by selector or by its (lowercase) label
+  renameItemSelector?: string;
+  renameItemText: string;
+  // The title field that appears afterwards; only matches inside the
+  // container or a dialog count, so the page's prompt box is never typed into
+  inputSelector: string;
+  // Button that saves the title; Enter is pressed if there is none
+  confirmSelector?: string;
+  // The chat's title as the sidebar shows it now, to check the rename took
+  readTitle: () => string | null;
+}
+
+// Where the menu and rename field may live besides the chat's own row;
+// nothing outside these is clicked or typed into
+const DIALOG_SELECTOR = '[role="dialog"], [role="menu"], mat-dialog-container';
+
+// How long the sidebar gets to show the new title
+const CONFIRM_TIMEOUT = 3000;
+const POLL_INTERVAL = 200;
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function renameThroughMenu(
+  steps: MenuRenameSteps,
+  newTitle: string,
+): Promise<boolean> {
+  const menuButton = steps.container.querySelector(
+    steps.menuButtonSelector,
+  ) as HTMLElement | null;
+  if (!menuButton) {
+    console.warn("🌳 Arbor: Could not find the chat's menu button");
+    return false;
+  }
+  menuButton.click();
+
+  let renameItem: HTMLElement | null = null;
+  if (steps.renameItemSelector) {
+    renameItem = await findInScope(steps, steps.renameItemSelector);
+  }
+  if (!renameItem) {
+    renameItem = await findInScope(
+      steps,
+      '[role="menuitem"], [role="option"], button',
+      (item) =>
+        !!item.textContent
+          ?.trim()
+          .toLowerCase()
+          .startsWith(steps.renameItemText),
+    );
+  }
+  if (!renameItem) {
+    console.warn("🌳 Arbor: Could not find Rename in the chat's menu");
+    document.dispatchEvent(
+      new KeyboardEvent("keydown", { key: "Escape", bubbles: true }),
+    );
+    return false;
+  }
+  renameItem.click();
+
+  const input = (await findInScope(
+    steps,
+    steps.inputSelector,
+    (element) =>
+      element instanceof HTMLInputElement ||
+      element instanceof HTMLTextAreaElement,
+  )) as HTMLInputElement | HTMLTextAreaElement | null;
+  if (!input) {
+    console.warn("🌳 Arbor: Could not find the rename field");
+    return false;
+  }
+
+  await focusElement(input);
+  setInputValue(input, newTitle);
+
+  const confirmButton = steps.confirmSelector
+    ? await findInScope(steps, steps.confirmSelector, () => true, 0)
+    : null;
+  if (confirmButton) {
+    confirmButton.click();
+  } else {
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", {
+        key: "Enter",
+        code: "Enter",
+        keyCode: 13,
+        which: 13,
+        bubbles: true,
+      }),
+    );
+  }
+
+  // Providers can drop a rename silently (too long, rejected by the server)
+  const deadline = Date.now() + CONFIRM_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (steps.readTitle()?.trim() === newTitle.trim()) {
+      return true;
+    }
+    await delay(POLL_INTERVAL);
+  }
+  console.warn("🌳 Arbor: The sidebar did not show the new title after renaming");
+  return false;
+}
+
+/**
+ * Wait for an element inside the chat's row or an open menu or dialog
+ */
+async function findInScope(
+  steps: MenuRenameSteps,
+  selector: string,
+  accept: (element: Element) => boolean = () => true,
+  timeout: number = 2000,
+): Promise<HTMLElement | null> {
+  const deadline = Date.now() + timeout;
+  while (true) {
+    const match = Array.from(document.querySelectorAll(selector)).find(
+      (element) =>
+        (steps.container.contains(element) ||
+          element.closest(DIALOG_SELECTOR) !== null) &&
+        accept(element),
+    );
+    if (match || Date.now() >= deadline) {
+      return (match as HTMLElement | undefined) || null;
+    }
+    await delay(POLL_INTERVAL);
+  }
+}
@@ -1,17 +1,103 @@
 // IndexedDB wrapper for persistent storage
-import { ChatNode, ChatTree, ExtensionState } from '../types';
+import {
+  ArchivedMessage,
+  ChatNode,
+  ChatTree,
+  ExtensionState,
+  IntegrityIssue,
+  IntegrityIssueKind,
+  MessageArchiveSnapshot,
+  NodeEmbedding,
+  SearchIndexEntry,
+  TreeVersion,
+} from '../types';
+import { diffTrees, isEmptyDiff, reconstructTree } from '../utils/treeDiff';
+import { mergeTrees } from '../utils/treeMerge';
+import { checkTree, repairTree } from '../utils/treeIntegrity';
+import type { ConflictResolution, TreeConflict } from '../utils/treeMerge';
+import { isExtensionPage } from '../utils/backgroundRelay';
 
 const DB_NAME = 'ArborDB';
-const DB_VERSION = 2; // Version 2 - stable schema
+const DB_VERSION = 7; // Version 7 - adds node embeddings for related chats
+
+// Trees live in chrome.storage.local (shared by content scripts and extension
+// pages), one key per tree plus an index of tree IDs
+const TREE_KEY_PREFIX = 'arbor_tree_';
+const TREE_IDS_KEY = 'arbor_tree_ids';
+// Trees archived to cold storage (see treeColdStorage)
+export const COLD_TREE_IDS_KEY = 'arbor_cold_tree_ids';
+// Original layout: every tree in one blob, rewritten whole on each save
+const LEGACY_TREES_KEY = 'arbor_trees';
+
+const treeKey = (treeId: string) => `${TREE_KEY_PREFIX}${treeId}`;
+const treeIdFromKey = (key: string) =>
+  key.startsWith(TREE_KEY_PREFIX) && key !== TREE_IDS_KEY
+    ? key.slice(TREE_KEY_PREFIX.length)
+    : null;
+
+// Recent stored revisions kept per tree, as merge bases for stale saves
+const MAX_SYNCED_REVISIONS = 5;
+
+// Saves within this window are folded into one version
+const TREE_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+// Store a full snapshot every N versions so restores replay few diffs
+const TREE_SNAPSHOT_INTERVAL = 20;
+// Oldest versions are dropped past this many per tree
+const MAX_TREE_VERSIONS = 200;
+
+interface TreeWrite {
+  type: 'tree';
+  data: ChatTree;
+  overwrite: boolean;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+interface NodeWrite {
+  type: 'node';
+  data: ChatNode;
+  treeId: string;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+type PendingWrite = TreeWrite | NodeWrite;
+
+// A save that needs the user to settle a conflict before it can be written
+interface PendingConflict {
+  conflict: TreeConflict;
+  settle: (resolution: ConflictResolution) => ChatTree | null;
+}
 
 class ArborDatabase {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
   
-  // Batch write optimization (currently unused, kept for future use)
-  private writeQueue: Array<{ type: 'tree' | 'node', data: any, treeId?: string }> = [];
-  private flushTimer: number | null = null;
+  // Batched writes: saves within FLUSH_DELAY share one storage write
+  private writeQueue: PendingWrite[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private activeFlush: Promise<void> = Promise.resolve();
   private readonly FLUSH_DELAY = 50; // ms - reduced from 100ms
+  private legacyTreesPending = false;
+
+  // Optimistic concurrency: copies of each tree as this context last read or
+  // wrote them, by revision, so a stale save can be merged against its base
+  private syncedTrees = new Map<string, ChatTree[]>();
+  private conflictHandler: ((conflict: TreeConflict) => Promise<ConflictResolution>) | null = null;
+
+  constructor() {
+    if (typeof chrome !== 'undefined' && chrome.storage?.onChanged) {
+      chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName !== 'local') return;
+        for (const [key, change] of Object.entries(changes)) {
+          // Deletions keep their bases, so a save racing one is caught
+          if (treeIdFromKey(key) && change.newValue) {
+            this.rememberSynced(change.newValue);
+          }
+        }
+      });
+    }
+  }
 
   async init(): Promise<void> {
     // If already initialized, return immediately
@@ -34,19 +120,37 @@ class ArborDatabase {
         reject(request.error);
       };
       
-      request.onsuccess = () => {
+      request.onsuccess = async () => {
         this.db = request.result;
+
+        // Let another context (e.g. a freshly updated tab) upgrade the schema;
+        // we reopen lazily on the next init()
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+        };
+
+        // Move trees out of the legacy layout before anything reads them
+        try {
+          await this.migrateLegacyStorage();
+        } catch (error) {
+          console.error('🌳 Arbor: Storage migration failed:', error);
+        }
+
         this.initPromise = null;
-        
-        // Log current contents
-        this.logDatabaseContents();
-        
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
 
+        // Databases from before per-tree keys hold this origin's tree copies
+        // in the `trees` store; they are merged into chrome.storage once,
+        // then cleared
+        if (event.oldVersion > 0 && event.oldVersion < 6) {
+          this.legacyTreesPending = true;
+        }
+
         // Create trees store
         if (!db.objectStoreNames.contains('trees')) {
           db.createObjectStore('trees', { keyPath: 'id' });
@@ -65,195 +169,241 @@ class ArborDatabase {
         if (!db.objectStoreNames.contains('state')) {
           db.createObjectStore('state', { keyPath: 'key' });
         }
+
+        // Create full-text search store (one entry per node)
+        if (!db.objectStoreNames.contains('search_index')) {
+          const searchStore = db.createObjectStore('search_index', { keyPath: 'nodeId' });
+          searchStore.createIndex('treeId', 'treeId', { unique: false });
+        }
+
+        // Create message archive stores (snapshots per node, messages by hash)
+        if (!db.objectStoreNames.contains('message_archives')) {
+          const archiveStore = db.createObjectStore('message_archives', { keyPath: 'nodeId' });
+          archiveStore.createIndex('treeId', 'treeId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains('archived_messages')) {
+          db.createObjectStore('archived_messages', { keyPath: 'hash' });
+        }
+
+        // Create tree version history store (snapshots and diffs per tree)
+        if (!db.objectStoreNames.contains('tree_history')) {
+          const historyStore = db.createObjectStore('tree_history', { keyPath: 'id' });
+          historyStore.createIndex('treeId', 'treeId', { unique: false });
+        }
+
+        // Create node embeddings store (one vector per node, for related chats)
+        if (!db.objectStoreNames.contains('node_embeddings')) {
+          const embeddingStore = db.createObjectStore('node_embeddings', { keyPath: 'nodeId' });
+          embeddingStore.createIndex('treeId', 'treeId', { unique: false });
+        }
       };
     });
 
     return this.initPromise;
   }
 
-  // Helper to log database contents (for debugging)
-  private async logDatabaseContents(): Promise<void> {
-    try {
-      // Check chrome.storage.local
-      try {
-        const result = await chrome.storage.local.get('arbor_trees');
-        const storedTrees = result.arbor_trees || {};
-        const treeArray = Object.values(storedTrees) as ChatTree[];
-        if (treeArray.length > 0) {
-          // Migrate trees to chrome.storage.local if not already there
-          // Check IndexedDB
-          if (!this.db) return;
-          
-          const transaction = this.db.transaction(['trees'], 'readonly');
-          const store = transaction.objectStore('trees');
-          const trees = await this.promisify<ChatTree[]>(store.getAll());
-          if (trees.length > 0) {
-            await this.migrateTreesToSharedStorage(trees);
-          }
-        }
-      } catch (error) {
-        // Silent fail
+  // Legacy storage migration
+  // Trees used to live in one `arbor_trees` blob, mirrored into each origin's
+  // IndexedDB `trees` store. The blob is authoritative; an IndexedDB copy only
+  // wins when it is newer, or when no shared trees exist at all.
+  private async migrateLegacyStorage(): Promise<void> {
+    const result = await chrome.storage.local.get(LEGACY_TREES_KEY);
+    const blob: Record<string, ChatTree> = result[LEGACY_TREES_KEY] || {};
+
+    let localTrees: ChatTree[] = [];
+    if (this.legacyTreesPending && this.db) {
+      const transaction = this.db.transaction(['trees'], 'readonly');
+      localTrees = await this.promisify<ChatTree[]>(
+        transaction.objectStore('trees').getAll()
+      );
+    }
+
+    if (Object.keys(blob).length === 0 && localTrees.length === 0) {
+      if (result[LEGACY_TREES_KEY]) {
+        await chrome.storage.local.remove(LEGACY_TREES_KEY);
       }
-    } catch (error) {
-      // Silent fail
+      this.legacyTreesPending = false;
+      return;
     }
-  }
 
-  // Migrate trees from IndexedDB to chrome.storage.local (one-time migration)
-  private async migrateTreesToSharedStorage(trees: ChatTree[]): Promise<void> {
-    try {
-      const result = await chrome.storage.local.get('arbor_trees');
-      const storedTrees = result.arbor_trees || {};
-      
-      let migratedCount = 0;
-      let updatedCount = 0;
-      
-      for (const tree of trees) {
-        if (!storedTrees[tree.id]) {
-          storedTrees[tree.id] = tree;
-          migratedCount++;
-        } else {
-          // Update existing tree if IndexedDB version is newer
-          const existingTree = storedTrees[tree.id];
-          if (new Date(tree.updatedAt) > new Date(existingTree.updatedAt)) {
-            storedTrees[tree.id] = tree;
-            updatedCount++;
-          }
-        }
+    const treeIds = await this.getTreeIds();
+    const candidates = Object.values(blob);
+    const allowNew = treeIds.length === 0 && candidates.length === 0;
+    localTrees.forEach((tree) => {
+      if (allowNew || blob[tree.id] || treeIds.includes(tree.id)) {
+        candidates.push(tree);
       }
-      
-      if (migratedCount > 0 || updatedCount > 0) {
-        await chrome.storage.local.set({ arbor_trees: storedTrees });
-      } else {
+    });
+
+    const stored = await chrome.storage.local.get(
+      candidates.map((tree) => treeKey(tree.id))
+    );
+    const updates: Record<string, ChatTree> = {};
+    for (const tree of candidates) {
+      const key = treeKey(tree.id);
+      const existing: ChatTree | undefined = updates[key] || stored[key];
+      if (!existing || new Date(tree.updatedAt) > new Date(existing.updatedAt)) {
+        updates[key] = tree;
       }
-    } catch (error) {
+      if (!treeIds.includes(tree.id)) {
+        treeIds.push(tree.id);
+      }
+    }
+
+    await chrome.storage.local.set({ ...updates, [TREE_IDS_KEY]: treeIds });
+    await chrome.storage.local.remove(LEGACY_TREES_KEY);
+
+    if (this.legacyTreesPending && this.db) {
+      const transaction = this.db.transaction(['trees'], 'readwrite');
+      await this.promisify(transaction.objectStore('trees').clear());
+      this.legacyTreesPending = false;
     }
+
+    console.log(
+      `🌳 Arbor: Migrated ${Object.keys(updates).length} trees to per-tree storage`
+    );
   }
 
   // Public method to force migration (useful for debugging)
   async forceMigration(): Promise<void> {
-    if (!this.db) {
-      await this.init();
-    }
-    
-    if (!this.db) {
-      return;
-    }
-    
-    const transaction = this.db.transaction(['trees'], 'readonly');
-    const store = transaction.objectStore('trees');
-    const trees = await this.promisify<ChatTree[]>(store.getAll());
-    
-    if (trees.length > 0) {
-      await this.migrateTreesToSharedStorage(trees);
-    } else {
-    }
+    await this.init();
+    await this.migrateLegacyStorage();
   }
 
-  // Tree operations
-  async saveTree(tree: ChatTree): Promise<void> {
-    if (!this.db) {
-      throw new Error('Database not initialized');
-    }
-    
-    
-    // Save to chrome.storage.local (shared across all contexts - content script & extension pages)
-    try {
-      const result = await chrome.storage.local.get('arbor_trees');
-      const trees = result.arbor_trees || {};
-      trees[tree.id] = tree;
-      await chrome.storage.local.set({ arbor_trees: trees });
-    } catch (error) {
-    }
-    
-    // Also save to IndexedDB for backward compatibility
-    const transaction = this.db.transaction(['trees'], 'readwrite');
-    const store = transaction.objectStore('trees');
-    await this.promisify(store.put(tree));
+  private async getTreeIds(): Promise<string[]> {
+    const result = await chrome.storage.local.get(TREE_IDS_KEY);
+    return result[TREE_IDS_KEY] || [];
   }
 
-  // Batch save tree (queued)
-  saveTreeBatched(tree: ChatTree): void {
-    this.writeQueue.push({ type: 'tree', data: tree });
-    this.scheduleFlush();
+  // Tree operations
+  // Saves are queued and flushed together, so a burst of edits becomes one
+  // chrome.storage write per tree; the promise settles once it is written.
+  // A save based on an older revision is merged with what's stored (and
+  // `tree` updated in place); `overwrite` writes it as-is, e.g. when undo
+  // brings back a deleted tree.
+  saveTree(tree: ChatTree, options: { overwrite?: boolean } = {}): Promise<void> {
+    return this.enqueueWrite({
+      type: 'tree',
+      data: tree,
+      overwrite: options.overwrite ?? false,
+    });
   }
 
   async getTree(treeId: string): Promise<ChatTree | null> {
-    // Try chrome.storage.local first (shared storage)
-    try {
-      const result = await chrome.storage.local.get('arbor_trees');
-      const trees = result.arbor_trees || {};
-      if (trees[treeId]) {
-        return trees[treeId];
-      }
-    } catch (error) {
+    const key = treeKey(treeId);
+    const result = await chrome.storage.local.get(key);
+    const tree: ChatTree | null = result[key] || null;
+    if (tree) {
+      this.rememberSynced(tree);
     }
-    
-    // Fallback to IndexedDB
-    const transaction = this.db!.transaction(['trees'], 'readonly');
-    const store = transaction.objectStore('trees');
-    const tree = await this.promisify<ChatTree>(store.get(treeId));
-    return tree || null;
+    return tree;
   }
 
   async getAllTrees(): Promise<ChatTree[]> {
-    if (!this.db) {
-      throw new Error('Database not initialized');
+    const treeIds = await this.getTreeIds();
+    if (treeIds.length === 0) {
+      return [];
     }
-    
-    
-    // Try chrome.storage.local first (shared storage)
-    try {
-      const result = await chrome.storage.local.get('arbor_trees');
-      const trees = result.arbor_trees || {};
-      const treeArray = Object.values(trees) as ChatTree[];
-      if (treeArray.length > 0) {
-        return treeArray;
-      }
-    } catch (error) {
-    }
-    
-    // Fallback to IndexedDB
-    const transaction = this.db.transaction(['trees'], 'readonly');
-    const store = transaction.objectStore('trees');
-    const trees = await this.promisify<ChatTree[]>(store.getAll());
+
+    const result = await chrome.storage.local.get(treeIds.map(treeKey));
+    const trees = treeIds
+      .map((treeId) => result[treeKey(treeId)] as ChatTree | undefined)
+      .filter((tree): tree is ChatTree => !!tree);
+    trees.forEach((tree) => this.rememberSynced(tree));
     return trees;
   }
 
+  // Bytes the tree takes up in chrome.storage.local
+  async getTreeBytesInUse(treeId: string): Promise<number> {
+    return chrome.storage.local.getBytesInUse(treeKey(treeId));
+  }
+
+  /**
+   * Watch for trees saved or deleted by any context (tabs, graph window)
+   * `tree` is null when the tree was deleted. Returns an unsubscribe function.
+   */
+  onTreeChanged(listener: (treeId: string, tree: ChatTree | null) => void): () => void {
+    const handleChange = (
+      changes: Record<string, chrome.storage.StorageChange>,
+      areaName: string
+    ) => {
+      if (areaName !== 'local') return;
+      for (const [key, change] of Object.entries(changes)) {
+        const treeId = treeIdFromKey(key);
+        if (treeId) {
+          listener(treeId, change.newValue || null);
+        }
+      }
+    };
+
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }
+
+  /**
+   * Ask the user how to settle edits that couldn't be merged automatically
+   * Without a handler (e.g. in the background) the save being made wins.
+   */
+  setConflictHandler(
+    handler: ((conflict: TreeConflict) => Promise<ConflictResolution>) | null
+  ): void {
+    this.conflictHandler = handler;
+  }
+
   async deleteTree(treeId: string): Promise<void> {
-    // Delete from chrome.storage.local
+    // Don't let a queued save bring the tree back
+    await this.flush();
+    this.syncedTrees.delete(treeId);
+
     try {
-      const result = await chrome.storage.local.get('arbor_trees');
-      const trees = result.arbor_trees || {};
-      delete trees[treeId];
-      await chrome.storage.local.set({ arbor_trees: trees });
+      // Keep the final state so the tree can be restored from its history
+      const tree = await this.getTree(treeId);
+      if (tree) {
+        await this.queueTreeRecords(tree, true);
+      }
+
+      const treeIds = await this.getTreeIds();
+      await chrome.storage.local.set({
+        [TREE_IDS_KEY]: treeIds.filter((id) => id !== treeId),
+      });
+      await chrome.storage.local.remove(treeKey(treeId));
     } catch (error) {
     }
-    
-    // Also delete from IndexedDB
-    const transaction = this.db!.transaction(['trees'], 'readwrite');
-    const store = transaction.objectStore('trees');
-    await this.promisify(store.delete(treeId));
   }
 
-  // Node operations
-  async saveNode(node: ChatNode, treeId: string): Promise<void> {
+  // Take a tree out of the live set without deleting it (e.g. to move it to
+  // cold storage): no tombstone, and its message archives and history stay
+  async detachTree(treeId: string): Promise<void> {
+    await this.flush();
+    this.syncedTrees.delete(treeId);
+
+    const treeIds = await this.getTreeIds();
+    await chrome.storage.local.set({
+      [TREE_IDS_KEY]: treeIds.filter((id) => id !== treeId),
+    });
+    await chrome.storage.local.remove(treeKey(treeId));
+
     if (!this.db) {
-      throw new Error('Database not initialized');
+      await this.init();
+    }
+
+    try {
+      // Rebuilt from the tree when it comes back
+      await this.deleteSearchEntriesByTree(treeId);
+      await this.deleteNodesByTree(treeId);
+    } catch (error) {
     }
-    
-    const transaction = this.db.transaction(['nodes'], 'readwrite');
-    const store = transaction.objectStore('nodes');
-    await this.promisify(store.put({ ...node, treeId }));
   }
 
-  // Batch save node (queued)
-  saveNodeBatched(node: ChatNode, treeId: string): void {
-    this.writeQueue.push({ type: 'node', data: node, treeId });
-    this.scheduleFlush();
+  // Node operations
+  // The nodes store is this origin's lookup index (by tree and URL); trees in
+  // chrome.storage hold the authoritative node data
+  saveNode(node: ChatNode, treeId: string): Promise<void> {
+    return this.enqueueWrite({ type: 'node', data: node, treeId });
   }
 
   async getNode(nodeId: string): Promise<ChatNode | null> {
+    await this.flush();
     const transaction = this.db!.transaction(['nodes'], 'readonly');
     const store = transaction.objectStore('nodes');
     const node = await this.promisify<ChatNode & { treeId: string }>(store.get(nodeId));
@@ -265,6 +415,7 @@ class ArborDatabase {
   }
 
   async getNodesByTree(treeId: string): Promise<ChatNode[]> {
+    await this.flush();
     const transaction = this.db!.transaction(['nodes'], 'readonly');
     const store = transaction.objectStore('nodes');
     const index = store.index('treeId');
@@ -276,11 +427,23 @@ class ArborDatabase {
     return nodes.map(({ treeId, ...node }) => node as ChatNode);
   }
 
+  private async deleteNodesByTree(treeId: string): Promise<void> {
+    const transaction = this.db!.transaction(['nodes'], 'readwrite');
+    const store = transaction.objectStore('nodes');
+    const keys = await this.promisify<IDBValidKey[]>(
+      store.index('treeId').getAllKeys(treeId)
+    );
+    for (const key of keys) {
+      store.delete(key);
+    }
+  }
+
   // Removed unused compound index queries (getNodesByTreeAndPlatform, getRecentNodes)
   // These relied on compound indices that were slowing down writes without providing benefits
   // Can be re-added if needed in the future
 
   async findNodeByUrl(url: string): Promise<ChatNode | null> {
+    await this.flush();
     const transaction = this.db!.transaction(['nodes'], 'readonly');
     const store = transaction.objectStore('nodes');
     const index = store.index('url');
@@ -292,11 +455,441 @@ class ArborDatabase {
   }
 
   async deleteNode(nodeId: string): Promise<void> {
+    await this.flush();
+
     const transaction = this.db!.transaction(['nodes'], 'readwrite');
     const store = transaction.objectStore('nodes');
     await this.promisify(store.delete(nodeId));
   }
 
+  // Tree version history, search entries and message archives
+  // These live in the extension's own IndexedDB, so the graph window and every
+  // chat site see the same ones; content scripts hand saves to the background
+  private async queueTreeRecords(tree: ChatTree, deleted = false): Promise<void> {
+    try {
+      if (isExtensionPage()) {
+        await this.recordTreeSave(tree, deleted);
+        return;
+      }
+
+      chrome.runtime.sendMessage(
+        { action: 'record-tree-save', payload: { tree, deleted } },
+        () => {
+          if (chrome.runtime.lastError) {
+            // Silent fail - background unavailable
+          }
+        }
+      );
+    } catch (error) {
+      // History is best effort - never block a tree save
+    }
+  }
+
+  async recordTreeSave(tree: ChatTree, deleted = false): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    try {
+      // Keep the search index in step with titles, summaries and tags
+      if (deleted) {
+        await this.deleteSearchEntriesByTree(tree.id);
+      } else {
+        await this.syncSearchEntries(tree);
+      }
+    } catch (error) {
+      // Search is best effort - never block recording the version
+    }
+
+    if (deleted) {
+      try {
+        await this.deleteMessageArchivesByTree(tree.id);
+      } catch (error) {
+      }
+
+      try {
+        await this.deleteNodeEmbeddingsByTree(tree.id);
+      } catch (error) {
+      }
+    }
+
+    await this.recordTreeVersion(tree, deleted);
+  }
+
+  async recordTreeVersion(tree: ChatTree, deleted = false): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const versions = await this.getTreeVersions(tree.id);
+    const last = versions[versions.length - 1];
+    const snapshot: ChatTree = JSON.parse(JSON.stringify(tree));
+    const now = new Date().toISOString();
+
+    const version: TreeVersion = {
+      id: `version-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      treeId: tree.id,
+      name: tree.name,
+      nodeCount: Object.keys(tree.nodes).length,
+      createdAt: now,
+      savedAt: now,
+    };
+
+    if (deleted) {
+      await this.putTreeVersion({ ...version, deleted: true, snapshot });
+      return;
+    }
+
+    if (!last || last.deleted) {
+      await this.putTreeVersion({ ...version, snapshot });
+      return;
+    }
+
+    // Fold saves within the throttle window into the latest version
+    if (Date.now() - new Date(last.createdAt).getTime() < TREE_VERSION_INTERVAL_MS) {
+      const base = versions.length > 1
+        ? reconstructTree(versions, versions.length - 2)
+        : null;
+      const folded: TreeVersion = {
+        ...last,
+        name: version.name,
+        nodeCount: version.nodeCount,
+        savedAt: now,
+      };
+      if (last.snapshot || !base) {
+        folded.snapshot = snapshot;
+        delete folded.diff;
+      } else {
+        folded.diff = diffTrees(base, snapshot);
+      }
+      await this.putTreeVersion(folded);
+      return;
+    }
+
+    const previous = reconstructTree(versions, versions.length - 1);
+    const diff = previous ? diffTrees(previous, snapshot) : null;
+    if (diff && isEmptyDiff(diff)) return;
+
+    let sinceSnapshot = 0;
+    for (let i = versions.length - 1; i >= 0 && !versions[i].snapshot; i--) {
+      sinceSnapshot++;
+    }
+
+    if (!diff || sinceSnapshot + 1 >= TREE_SNAPSHOT_INTERVAL) {
+      await this.putTreeVersion({ ...version, snapshot });
+    } else {
+      await this.putTreeVersion({ ...version, diff });
+    }
+
+    await this.pruneTreeVersions(tree.id);
+  }
+
+  // Oldest first
+  async getTreeVersions(treeId: string): Promise<TreeVersion[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['tree_history'], 'readonly');
+    const store = transaction.objectStore('tree_history');
+    const versions = await this.promisify<TreeVersion[]>(
+      store.index('treeId').getAll(treeId)
+    );
+    return versions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getAllTreeVersions(): Promise<TreeVersion[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['tree_history'], 'readonly');
+    const store = transaction.objectStore('tree_history');
+    const versions = await this.promisify<TreeVersion[]>(store.getAll());
+    return versions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private async putTreeVersion(version: TreeVersion): Promise<void> {
+    const transaction = this.db!.transaction(['tree_history'], 'readwrite');
+    const store = transaction.objectStore('tree_history');
+    await this.promisify(store.put(version));
+  }
+
+  // Drop the oldest versions, turning the new oldest into a snapshot
+  private async pruneTreeVersions(treeId: string): Promise<void> {
+    const versions = await this.getTreeVersions(treeId);
+    const excess = versions.length - MAX_TREE_VERSIONS;
+    if (excess <= 0) return;
+
+    const oldest = versions[excess];
+    if (!oldest.snapshot) {
+      const tree = reconstructTree(versions, excess);
+      if (!tree) return;
+      const rebased: TreeVersion = { ...oldest, snapshot: tree };
+      delete rebased.diff;
+      await this.putTreeVersion(rebased);
+    }
+
+    const transaction = this.db!.transaction(['tree_history'], 'readwrite');
+    const store = transaction.objectStore('tree_history');
+    for (const version of versions.slice(0, excess)) {
+      store.delete(version.id);
+    }
+  }
+
+  // Search index operations
+  private async syncSearchEntries(tree: ChatTree): Promise<void> {
+    if (!this.db) return;
+
+    const transaction = this.db.transaction(['search_index'], 'readwrite');
+    const store = transaction.objectStore('search_index');
+    const existing = await this.promisify<SearchIndexEntry[]>(
+      store.index('treeId').getAll(tree.id)
+    );
+    const existingById = new Map(existing.map(entry => [entry.nodeId, entry]));
+
+    for (const node of Object.values(tree.nodes)) {
+      const previous = existingById.get(node.id);
+      const summary = node.summary || '';
+      const tags = node.tags || [];
+      if (
+        previous &&
+        previous.title === node.title &&
+        previous.summary === summary &&
+        previous.tags.join('\u0000') === tags.join('\u0000')
+      ) {
+        continue;
+      }
+
+      store.put({
+        nodeId: node.id,
+        treeId: tree.id,
+        title: node.title,
+        summary,
+        tags,
+        messageText: previous?.messageText || '',
+        messageSignature: previous?.messageSignature,
+        indexedAt: Date.now(),
+      } as SearchIndexEntry);
+    }
+
+    // Drop entries for nodes that left the tree
+    for (const entry of existing) {
+      if (!tree.nodes[entry.nodeId]) {
+        store.delete(entry.nodeId);
+      }
+    }
+  }
+
+  async saveSearchEntry(entry: SearchIndexEntry): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['search_index'], 'readwrite');
+    const store = transaction.objectStore('search_index');
+    await this.promisify(store.put(entry));
+  }
+
+  async getSearchEntry(nodeId: string): Promise<SearchIndexEntry | null> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['search_index'], 'readonly');
+    const store = transaction.objectStore('search_index');
+    const entry = await this.promisify<SearchIndexEntry>(store.get(nodeId));
+    return entry || null;
+  }
+
+  async getAllSearchEntries(): Promise<SearchIndexEntry[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['search_index'], 'readonly');
+    const store = transaction.objectStore('search_index');
+    return this.promisify<SearchIndexEntry[]>(store.getAll());
+  }
+
+  private async deleteSearchEntriesByTree(treeId: string): Promise<void> {
+    const transaction = this.db!.transaction(['search_index'], 'readwrite');
+    const store = transaction.objectStore('search_index');
+    const keys = await this.promisify<IDBValidKey[]>(
+      store.index('treeId').getAllKeys(treeId)
+    );
+    for (const key of keys) {
+      store.delete(key);
+    }
+  }
+
+  // Node embedding operations
+  async saveNodeEmbeddings(entries: NodeEmbedding[]): Promise<void> {
+    if (entries.length === 0) return;
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['node_embeddings'], 'readwrite');
+    const store = transaction.objectStore('node_embeddings');
+    for (const entry of entries) {
+      store.put(entry);
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async getAllNodeEmbeddings(): Promise<NodeEmbedding[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['node_embeddings'], 'readonly');
+    const store = transaction.objectStore('node_embeddings');
+    return this.promisify<NodeEmbedding[]>(store.getAll());
+  }
+
+  async deleteNodeEmbeddings(nodeIds: string[]): Promise<void> {
+    if (nodeIds.length === 0) return;
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['node_embeddings'], 'readwrite');
+    const store = transaction.objectStore('node_embeddings');
+    for (const nodeId of nodeIds) {
+      store.delete(nodeId);
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async deleteNodeEmbeddingsByTree(treeId: string): Promise<void> {
+    const transaction = this.db!.transaction(['node_embeddings'], 'readwrite');
+    const store = transaction.objectStore('node_embeddings');
+    const keys = await this.promisify<IDBValidKey[]>(
+      store.index('treeId').getAllKeys(treeId)
+    );
+    for (const key of keys) {
+      store.delete(key);
+    }
+  }
+
+  // Message archive operations
+  async saveMessageArchive(
+    snapshot: MessageArchiveSnapshot,
+    newMessages: ArchivedMessage[]
+  ): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(
+      ['message_archives', 'archived_messages'],
+      'readwrite'
+    );
+    const messageStore = transaction.objectStore('archived_messages');
+    for (const message of newMessages) {
+      messageStore.put(message);
+    }
+    await this.promisify(transaction.objectStore('message_archives').put(snapshot));
+  }
+
+  async getMessageArchive(nodeId: string): Promise<MessageArchiveSnapshot | null> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['message_archives'], 'readonly');
+    const store = transaction.objectStore('message_archives');
+    const snapshot = await this.promisify<MessageArchiveSnapshot>(store.get(nodeId));
+    return snapshot || null;
+  }
+
+  async getAllMessageArchives(): Promise<MessageArchiveSnapshot[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['message_archives'], 'readonly');
+    const store = transaction.objectStore('message_archives');
+    return this.promisify<MessageArchiveSnapshot[]>(store.getAll());
+  }
+
+  async getArchivedMessages(hashes: string[]): Promise<ArchivedMessage[]> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['archived_messages'], 'readonly');
+    const store = transaction.objectStore('archived_messages');
+    const messages = await Promise.all(
+      hashes.map(hash => this.promisify<ArchivedMessage>(store.get(hash)))
+    );
+    return messages.filter(Boolean);
+  }
+
+  async countArchivedMessages(): Promise<number> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(['archived_messages'], 'readonly');
+    const store = transaction.objectStore('archived_messages');
+    return this.promisify<number>(store.count());
+  }
+
+  async clearMessageArchives(): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const transaction = this.db!.transaction(
+      ['message_archives', 'archived_messages'],
+      'readwrite'
+    );
+    transaction.objectStore('message_archives').clear();
+    await this.promisify(transaction.objectStore('archived_messages').clear());
+  }
+
+  private async deleteMessageArchivesByTree(treeId: string): Promise<void> {
+    const transaction = this.db!.transaction(['message_archives'], 'readwrite');
+    const store = transaction.objectStore('message_archives');
+    const keys = await this.promisify<IDBValidKey[]>(
+      store.index('treeId').getAllKeys(treeId)
+    );
+    if (keys.length === 0) return;
+
+    for (const key of keys) {
+      store.delete(key);
+    }
+    await this.pruneArchivedMessages();
+  }
+
+  // Drop messages no snapshot references any more
+  private async pruneArchivedMessages(): Promise<void> {
+    const transaction = this.db!.transaction(
+      ['message_archives', 'archived_messages'],
+      'readwrite'
+    );
+    const snapshots = await this.promisify<MessageArchiveSnapshot[]>(
+      transaction.objectStore('message_archives').getAll()
+    );
+    const referenced = new Set(snapshots.flatMap(snapshot => snapshot.messageHashes));
+
+    const messageStore = transaction.objectStore('archived_messages');
+    const hashes = await this.promisify<IDBValidKey[]>(messageStore.getAllKeys());
+    for (const hash of hashes) {
+      if (!referenced.has(hash as string)) {
+        messageStore.delete(hash);
+      }
+    }
+  }
+
   // State operations
   async saveState(state: Partial<ExtensionState>): Promise<void> {
     if (!this.db) {
@@ -355,21 +948,34 @@ class ArborDatabase {
   }
 
   // Batch write optimization methods
+  private enqueueWrite(
+    write: Omit<TreeWrite, 'resolve' | 'reject'> | Omit<NodeWrite, 'resolve' | 'reject'>
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.writeQueue.push({ ...write, resolve, reject } as PendingWrite);
+      this.scheduleFlush();
+    });
+  }
+
   private scheduleFlush(): void {
     if (this.flushTimer !== null) {
       return; // Already scheduled
     }
 
-    this.flushTimer = window.setTimeout(() => {
-      this.flushWrites().catch(err => {
-        console.error('Failed to flush writes:', err);
-      });
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushWrites();
     }, this.FLUSH_DELAY);
   }
 
-  private async flushWrites(): Promise<void> {
-    this.flushTimer = null;
+  // Flushes run one after another, so a flush that is still writing can't
+  // land after a later delete
+  private flushWrites(): Promise<void> {
+    this.activeFlush = this.activeFlush.then(() => this.writeQueuedItems());
+    return this.activeFlush;
+  }
 
+  private async writeQueuedItems(): Promise<void> {
     if (this.writeQueue.length === 0) {
       return;
     }
@@ -377,47 +983,69 @@ class ArborDatabase {
     // Take current queue and clear it
     const queue = this.writeQueue.slice();
     this.writeQueue = [];
-
-    if (!this.db) {
-      console.warn('Database not initialized, skipping flush');
-      return;
-    }
+    // Saves waiting on a conflict prompt; they settle on their own
+    const deferred = new Set<PendingWrite>();
 
     try {
-      // Group by store type for efficient transactions
-      const trees = queue.filter(item => item.type === 'tree');
-      const nodes = queue.filter(item => item.type === 'node');
+      if (!this.db) {
+        await this.init();
+      }
 
-      // Batch write trees
-      if (trees.length > 0) {
-        // Write to chrome.storage.local (shared storage)
-        try {
-          const result = await chrome.storage.local.get('arbor_trees');
-          const storedTrees = result.arbor_trees || {};
-          for (const item of trees) {
-            storedTrees[item.data.id] = item.data;
+      // Last queued copy of each tree wins
+      const writes = new Map<string, TreeWrite>();
+      const nodes: NodeWrite[] = [];
+      for (const item of queue) {
+        if (item.type === 'tree') {
+          writes.set(item.data.id, item);
+        } else {
+          nodes.push(item);
+        }
+      }
+
+      // Batch write trees: one key per tree, never the other trees
+      const trees = new Map<string, ChatTree>();
+      if (writes.size > 0) {
+        const stored = await chrome.storage.local.get(
+          Array.from(writes.keys()).map(treeKey)
+        );
+        const updates: Record<string, ChatTree> = {};
+        for (const [treeId, write] of writes) {
+          const current: ChatTree | null = stored[treeKey(treeId)] || null;
+          const result = write.overwrite
+            ? { tree: write.data }
+            : this.reconcile(write.data, current);
+          if ('conflict' in result) {
+            deferred.add(write);
+            this.settleLater(write, result, current);
+            continue;
           }
-          await chrome.storage.local.set({ arbor_trees: storedTrees });
-        } catch (error) {
+          const tree = result.tree;
+          if (!tree) continue; // Dropped in favour of a deletion elsewhere
+
+          // Callers keep working with their copy, so bring it up to date
+          this.replaceContents(write.data, tree);
+          write.data.revision = (current?.revision ?? 0) + 1;
+
+          trees.set(treeId, write.data);
+          updates[treeKey(treeId)] = write.data;
         }
-        
-        // Also write to IndexedDB
-        const transaction = this.db.transaction(['trees'], 'readwrite');
-        const store = transaction.objectStore('trees');
-        
-        for (const item of trees) {
-          store.put(item.data);
+
+        const treeIds = await this.getTreeIds();
+        const newIds = Array.from(trees.keys()).filter((id) => !treeIds.includes(id));
+        if (newIds.length > 0) {
+          await chrome.storage.local.set({
+            ...updates,
+            [TREE_IDS_KEY]: [...treeIds, ...newIds],
+          });
+        } else if (trees.size > 0) {
+          await chrome.storage.local.set(updates);
         }
-        
-        await new Promise<void>((resolve, reject) => {
-          transaction.oncomplete = () => resolve();
-          transaction.onerror = () => reject(transaction.error);
-        });
+        trees.forEach((tree) => this.rememberSynced(tree));
       }
 
       // Batch write nodes
       if (nodes.length > 0) {
-        const transaction = this.db.transaction(['nodes'], 'readwrite');
+        const transaction = this.db!.transaction(['nodes'], 'readwrite');
         const store = transaction.objectStore('nodes');
         
         for (const item of nodes) {
@@ -429,10 +1057,138 @@ class ArborDatabase {
           transaction.onerror = () => reject(transaction.error);
         });
       }
+
+      for (const tree of trees.values()) {
+        await this.queueTreeRecords(tree);
+      }
+
+      queue.filter((item) => !deferred.has(item)).forEach((item) => item.resolve());
     } catch (error) {
       console.error('Error during batch flush:', error);
-      throw error;
+      queue.filter((item) => !deferred.has(item)).forEach((item) => item.reject(error));
+    }
+  }
+
+  /**
+   * Ask the user about a conflicting save outside the flush, so other writes
+   * aren't held up while the prompt is open. The settled tree is queued again
+   * and checked against whatever is stored by then.
+   */
+  private settleLater(
+    write: TreeWrite,
+    pending: PendingConflict,
+    current: ChatTree | null
+  ): void {
+    this.askConflict(pending.conflict)
+      .then((resolution) => {
+        const tree = pending.settle(resolution);
+        if (!tree) {
+          write.resolve();
+          return;
+        }
+
+        this.replaceContents(write.data, tree);
+        if (current) {
+          // Merged with the stored copy, so that is now its base
+          this.rememberSynced(current);
+          write.data.revision = current.revision ?? 0;
+        } else {
+          // Kept despite a deletion elsewhere; save it as a new tree
+          this.syncedTrees.delete(tree.id);
+        }
+        return this.saveTree(write.data).then(write.resolve);
+      })
+      .catch(write.reject);
+  }
+
+  private replaceContents(target: ChatTree, source: ChatTree): void {
+    if (target === source) return;
+    Object.keys(target).forEach((key) => {
+      delete (target as unknown as Record<string, unknown>)[key];
+    });
+    Object.assign(target, source);
+  }
+
+  /**
+   * Settle a save against the stored tree
+   * Returns the tree to write (null to drop the save), or a conflict for the
+   * user to settle
+   */
+  private reconcile(
+    tree: ChatTree,
+    current: ChatTree | null
+  ): { tree: ChatTree | null } | PendingConflict {
+    const base = this.getSynced(tree.id, tree.revision ?? 0);
+
+    if (!current) {
+      // Never stored, or deleted here - nothing to merge with
+      if (!base) return { tree };
+
+      return {
+        conflict: {
+          treeId: tree.id,
+          treeName: tree.name,
+          nodeTitles: [],
+          fields: [],
+          deletedRemotely: true,
+        },
+        settle: (resolution) => (resolution === 'local' ? tree : null),
+      };
+    }
+
+    // Nobody else saved since this copy was read
+    if ((current.revision ?? 0) === (tree.revision ?? 0)) {
+      return { tree };
     }
+
+    const merge = mergeTrees(base, tree, current);
+    if (merge.conflicts.length === 0 && merge.fieldConflicts.length === 0) {
+      console.log(`🌳 Arbor: Merged concurrent edits to "${tree.name}"`);
+      return { tree: merge.tree };
+    }
+
+    return {
+      conflict: {
+        treeId: tree.id,
+        treeName: tree.name,
+        nodeTitles: merge.conflicts.map(
+          (nodeId) => (tree.nodes[nodeId] || current.nodes[nodeId]).title
+        ),
+        fields: merge.fieldConflicts,
+        deletedRemotely: false,
+      },
+      settle: (resolution) =>
+        resolution === 'local'
+          ? merge.tree
+          : mergeTrees(base, tree, current, 'remote').tree,
+    };
+  }
+
+  private async askConflict(conflict: TreeConflict): Promise<ConflictResolution> {
+    if (!this.conflictHandler) {
+      return 'local';
+    }
+
+    try {
+      return await this.conflictHandler(conflict);
+    } catch (error) {
+      console.error('🌳 Arbor: Conflict prompt failed:', error);
+      return 'local';
+    }
+  }
+
+  private rememberSynced(tree: ChatTree): void {
+    const revision = tree.revision ?? 0;
+    const copies = (this.syncedTrees.get(tree.id) || []).filter(
+      (copy) => (copy.revision ?? 0) !== revision
+    );
+    copies.push(JSON.parse(JSON.stringify(tree)));
+    this.syncedTrees.set(tree.id, copies.slice(-MAX_SYNCED_REVISIONS));
+  }
+
+  private getSynced(treeId: string, revision: number): ChatTree | null {
+    const copies = this.syncedTrees.get(treeId) || [];
+    return copies.find((copy) => (copy.revision ?? 0) === revision) || null;
   }
 
   // Force immediate flush (useful for critical operations)
@@ -444,22 +1200,27 @@ class ArborDatabase {
     await this.flushWrites();
   }
 
-  // Public method to verify database contents (for debugging)
+  // Integrity check (fsck)
+  // Checks every tree's structure, the tree index against the per-tree keys,
+  // and this context's node lookup index. The lookup index is per origin, so
+  // only records written from this origin (e.g. extension pages) are seen.
   async verifyDatabase(): Promise<{
     trees: number;
     nodes: number;
     treeDetails: Array<{ id: string; name: string; nodeCount: number }>;
+    issues: IntegrityIssue[];
   }> {
     if (!this.db) {
       await this.init();
     }
+    await this.flush();
 
-    const transaction = this.db!.transaction(['trees', 'nodes'], 'readonly');
-    const treeStore = transaction.objectStore('trees');
+    const trees = await this.getAllTrees();
+    const transaction = this.db!.transaction(['nodes'], 'readonly');
     const nodeStore = transaction.objectStore('nodes');
-
-    const trees = await this.promisify<ChatTree[]>(treeStore.getAll());
-    const nodes = await this.promisify<any[]>(nodeStore.getAll());
+    const nodes = await this.promisify<Array<ChatNode & { treeId: string }>>(
+      nodeStore.getAll()
+    );
 
     const treeDetails = trees.map(tree => ({
       id: tree.id,
@@ -467,13 +1228,139 @@ class ArborDatabase {
       nodeCount: Object.keys(tree.nodes).length
     }));
 
+    const issues = trees.flatMap((tree) => checkTree(tree));
+
+    const treeIds = await this.getTreeIds();
+    const everything = await chrome.storage.local.get(null);
+    const storedIds = Object.keys(everything)
+      .map(treeIdFromKey)
+      .filter((treeId): treeId is string => !!treeId);
+
+    storedIds
+      .filter((treeId) => !treeIds.includes(treeId))
+      .forEach((treeId) => {
+        const tree: ChatTree = everything[treeKey(treeId)];
+        issues.push({
+          kind: 'unindexed-tree',
+          treeId,
+          treeName: tree.name,
+          nodeIds: [],
+          message: `"${tree.name}" is stored but missing from the tree list`,
+        });
+      });
+
+    treeIds
+      .filter((treeId) => !storedIds.includes(treeId))
+      .forEach((treeId) => {
+        issues.push({
+          kind: 'missing-tree',
+          treeId,
+          nodeIds: [],
+          message: `Tree list names a tree that isn't stored (${treeId})`,
+        });
+      });
+
+    const treesById = new Map(
+      storedIds.map((treeId) => [treeId, everything[treeKey(treeId)] as ChatTree])
+    );
+    // Other sites keep lookup records for archived trees until they return
+    const coldIds: string[] = everything[COLD_TREE_IDS_KEY] || [];
+    const orphanedByTree = new Map<string, string[]>();
+    nodes
+      .filter(
+        (node) =>
+          !coldIds.includes(node.treeId) &&
+          !treesById.get(node.treeId)?.nodes[node.id]
+      )
+      .forEach((node) => {
+        orphanedByTree.set(node.treeId, [
+          ...(orphanedByTree.get(node.treeId) || []),
+          node.id,
+        ]);
+      });
+    orphanedByTree.forEach((nodeIds, treeId) => {
+      const tree = treesById.get(treeId);
+      issues.push({
+        kind: 'orphaned-node-record',
+        treeId,
+        treeName: tree?.name,
+        nodeIds,
+        message: tree
+          ? `${nodeIds.length} lookup record${nodeIds.length === 1 ? '' : 's'} for chats no longer in "${tree.name}"`
+          : `${nodeIds.length} lookup record${nodeIds.length === 1 ? '' : 's'} left behind by a deleted tree`,
+      });
+    });
 
     return {
       trees: trees.length,
       nodes: nodes.length,
-      treeDetails
+      treeDetails,
+      issues
     };
   }
+
+  /**
+   * Fix issues found by verifyDatabase
+   * Trees are repaired in place and saved; chats are never deleted
+   */
+  async repairDatabase(issues: IntegrityIssue[]): Promise<void> {
+    if (!this.db) {
+      await this.init();
+    }
+
+    const treeKinds = new Map<string, Set<IntegrityIssueKind>>();
+    const unindexed: string[] = [];
+    const missing: string[] = [];
+    const orphanedNodeIds: string[] = [];
+
+    for (const issue of issues) {
+      switch (issue.kind) {
+        case 'unindexed-tree':
+          unindexed.push(issue.treeId);
+          break;
+        case 'missing-tree':
+          missing.push(issue.treeId);
+          break;
+        case 'orphaned-node-record':
+          orphanedNodeIds.push(...issue.nodeIds);
+          break;
+        default:
+          treeKinds.set(
+            issue.treeId,
+            (treeKinds.get(issue.treeId) || new Set()).add(issue.kind)
+          );
+      }
+    }
+
+    for (const [treeId, kinds] of treeKinds) {
+      const tree = await this.getTree(treeId);
+      if (!tree) continue;
+      repairTree(tree, kinds);
+      await this.saveTree(tree);
+    }
+
+    if (unindexed.length > 0 || missing.length > 0) {
+      const treeIds = await this.getTreeIds();
+      await chrome.storage.local.set({
+        [TREE_IDS_KEY]: [
+          ...treeIds.filter((treeId) => !missing.includes(treeId)),
+          ...unindexed.filter((treeId) => !treeIds.includes(treeId)),
+        ],
+      });
+    }
+
+    if (orphanedNodeIds.length > 0) {
+      const transaction = this.db!.transaction(['nodes'], 'readwrite');
+      const store = transaction.objectStore('nodes');
+      orphanedNodeIds.forEach((nodeId) => store.delete(nodeId));
+      await new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+
+    console.log(`🌳 Arbor: Repaired ${issues.length} storage issues`);
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,220 @@
+/**
+ * Markdown Export - writes a tree as an Obsidian-style vault
+ *
+ * Every node becomes one Markdown note with YAML frontmatter and
+ * [[wikilinks]] for its parent, children and custom connections. An index
+ * note mirrors the hierarchy. Notes are bundled into a zip in the browser.
+ */
+
+import { ZipWriter } from "../utils/zipWriter";
+import { downloadBlob, sanitizeFileName } from "../utils/download";
+import type { ChatNode, ChatTree } from "../types";
+
+/**
+ * Quote a value for YAML (JSON strings are valid YAML double-quoted scalars)
+ */
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+export class MarkdownExporter {
+  /**
+   * Build the vault zip for a tree
+   */
+  static buildVault(tree: ChatTree): Blob {
+    const folder = sanitizeFileName(tree.name, "Arbor Tree");
+    const indexName = `${folder} Index`;
+    const noteNames = this.assignNoteNames(tree, indexName);
+
+    const zip = new ZipWriter();
+    for (const nodeId of this.getNodeOrder(tree)) {
+      const node = tree.nodes[nodeId];
+      zip.addFile(
+        `${folder}/${noteNames.get(nodeId)}.md`,
+        this.renderNote(tree, node, noteNames, indexName),
+      );
+    }
+    zip.addFile(
+      `${folder}/${indexName}.md`,
+      this.renderIndex(tree, noteNames),
+    );
+
+    return zip.toBlob();
+  }
+
+  /**
+   * Build and download the vault zip for a tree
+   */
+  static download(tree: ChatTree): void {
+    const blob = this.buildVault(tree);
+    downloadBlob(blob, `${sanitizeFileName(tree.name, "arbor-tree")}.zip`);
+  }
+
+  /**
+   * Nodes in hierarchy order (depth-first from the root), followed by any
+   * nodes that are not reachable from the root
+   */
+  private static getNodeOrder(tree: ChatTree): string[] {
+    const order: string[] = [];
+    const visited = new Set<string>();
+
+    const walk = (nodeId: string) => {
+      const node = tree.nodes[nodeId];
+      if (!node || visited.has(nodeId)) return;
+      visited.add(nodeId);
+      order.push(nodeId);
+      node.children.forEach(walk);
+    };
+
+    walk(tree.rootNodeId);
+    Object.keys(tree.nodes).forEach((nodeId) => {
+      if (!visited.has(nodeId)) walk(nodeId);
+    });
+
+    return order;
+  }
+
+  /**
+   * Give every node a unique, file-safe note name so wikilinks resolve
+   * `reserved` (the index note) is never handed out to a node
+   */
+  private static assignNoteNames(
+    tree: ChatTree,
+    reserved: string,
+  ): Map<string, string> {
+    const names = new Map<string, string>();
+    const used = new Set<string>([reserved.toLowerCase()]);
+
+    for (const nodeId of this.getNodeOrder(tree)) {
+      const base = sanitizeFileName(tree.nodes[nodeId].title, "Untitled Chat");
+      let name = base;
+      let suffix = 2;
+      while (used.has(name.toLowerCase())) {
+        name = `${base} (${suffix++})`;
+      }
+      used.add(name.toLowerCase());
+      names.set(nodeId, name);
+    }
+
+    return names;
+  }
+
+  private static renderNote(
+    tree: ChatTree,
+    node: ChatNode,
+    noteNames: Map<string, string>,
+    indexName: string,
+  ): string {
+    const link = (nodeId: string) => `[[${noteNames.get(nodeId)}]]`;
+
+    const frontmatter = [
+      "---",
+      `title: ${yamlString(node.title)}`,
+      `platform: ${node.platform}`,
+      `url: ${yamlString(node.url)}`,
+      `tags: [${(node.tags || []).map(yamlString).join(", ")}]`,
+      `summary: ${yamlString(node.summary || "")}`,
+      `connectionLabel: ${yamlString(node.connectionLabel || "")}`,
+      `tree: ${yamlString(tree.name)}`,
+      `arborId: ${node.id}`,
+      `created: ${node.createdAt}`,
+      `updated: ${node.updatedAt}`,
+      "---",
+    ];
+
+    const lines = [
+      ...frontmatter,
+      "",
+      `# ${node.customEmoji ? `${node.customEmoji} ` : ""}${node.title}`,
+      "",
+      `[Open conversation](${node.url})`,
+      "",
+    ];
+
+    if (node.summary) {
+      lines.push("## Summary", "", node.summary, "");
+    }
+
+    if (node.parentId && tree.nodes[node.parentId]) {
+      const label = node.connectionLabel ? ` — ${node.connectionLabel}` : "";
+      lines.push("## Parent", "", `- ${link(node.parentId)}${label}`, "");
+    } else {
+      lines.push("## Parent", "", `- [[${indexName}]]`, "");
+    }
+
+    const children = node.children.filter((childId) => tree.nodes[childId]);
+    if (children.length > 0) {
+      lines.push("## Children", "");
+      children.forEach((childId) => {
+        const label = tree.nodes[childId].connectionLabel;
+        lines.push(`- ${link(childId)}${label ? ` — ${label}` : ""}`);
+      });
+      lines.push("");
+    }
+
+    const connections = (tree.connections || []).filter(
+      (connection) =>
+        (connection.fromNodeId === node.id ||
+          connection.toNodeId === node.id) &&
+        tree.nodes[connection.fromNodeId] &&
+        tree.nodes[connection.toNodeId],
+    );
+    if (connections.length > 0) {
+      lines.push("## Connections", "");
+      connections.forEach((connection) => {
+        const outgoing = connection.fromNodeId === node.id;
+        const otherId = outgoing ? connection.toNodeId : connection.fromNodeId;
+        const label = connection.label || connection.type || "related";
+        lines.push(`- ${outgoing ? "→" : "←"} ${link(otherId)} — ${label}`);
+      });
+      lines.push("");
+    }
+
+    return lines.join("\n");
+  }
+
+  private static renderIndex(
+    tree: ChatTree,
+    noteNames: Map<string, string>,
+  ): string {
+    const lines = [
+      "---",
+      `title: ${yamlString(tree.name)}`,
+      `arborTreeId: ${tree.id}`,
+      `created: ${tree.createdAt}`,
+      `updated: ${tree.updatedAt}`,
+      "---",
+      "",
+      `# ${tree.name}`,
+      "",
+    ];
+
+    if (tree.digest) {
+      lines.push("## Digest", "", tree.digest.text, "", "## Chats", "");
+    }
+
+    const visited = new Set<string>();
+    const walk = (nodeId: string, depth: number) => {
+      const node = tree.nodes[nodeId];
+      if (!node || visited.has(nodeId)) return;
+      visited.add(nodeId);
+      const label = node.connectionLabel ? ` — ${node.connectionLabel}` : "";
+      lines.push(
+        `${"  ".repeat(depth)}- [[${noteNames.get(nodeId)}]] (${node.platform})${label}`,
+      );
+      node.children.forEach((childId) => walk(childId, depth + 1));
+    };
+    walk(tree.rootNodeId, 0);
+
+    const unreachable = Object.keys(tree.nodes).filter(
+      (nodeId) => !visited.has(nodeId),
+    );
+    if (unreachable.length > 0) {
+      lines.push("", "## Unlinked chats", "");
+      unreachable.forEach((nodeId) => walk(nodeId, 0));
+    }
+
+    lines.push("");
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Message Archive - opt-in local copies of tracked conversations
+ *
+ * Each visit stores the output of `extractMessages()` for the node's chat.
+ * Messages are content-addressed (SHA-256), so unchanged messages are never
+ * rewritten and identical messages shared by branched chats are stored once.
+ * The archive lives in the extension's IndexedDB, so captures from every chat
+ * site end up together; content scripts reach it through the background.
+ */
+
+import { db } from "./indexeddb";
+import { isExtensionPage, relayToBackground } from "../utils/backgroundRelay";
+import type {
+  ArchivedMessage,
+  ChatNode,
+  MessageArchiveSnapshot,
+} from "../types";
+
+const ENABLED_KEY = "arbor_message_archive_enabled";
+
+export interface ArchivedTranscript {
+  snapshot: MessageArchiveSnapshot;
+  messages: ArchivedMessage[];
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export class MessageArchive {
+  /**
+   * Whether the user opted in to archiving (off by default)
+   */
+  static async isEnabled(): Promise<boolean> {
+    try {
+      const result = await chrome.storage.local.get(ENABLED_KEY);
+      return result[ENABLED_KEY] === true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static async setEnabled(enabled: boolean): Promise<void> {
+    await chrome.storage.local.set({ [ENABLED_KEY]: enabled });
+  }
+
+  /**
+   * Store a capture of the node's conversation
+   * Returns false when nothing changed
+   */
+  static async capture(
+    node: ChatNode,
+    treeId: string,
+    messages: Array<{ role: "user" | "assistant"; content: string }>,
+  ): Promise<boolean> {
+    if (messages.length === 0) return false;
+
+    if (!isExtensionPage()) {
+      return relayToBackground<boolean>("message-archive-capture", {
+        node,
+        treeId,
+        messages,
+      });
+    }
+
+    const existing = await db.getMessageArchive(node.id);
+
+    // A shorter capture usually means the page hasn't finished loading the
+    // conversation; keep the fuller copy
+    if (existing && messages.length < existing.messageHashes.length) {
+      return false;
+    }
+
+    const archived: ArchivedMessage[] = await Promise.all(
+      messages.map(async (message) => ({
+        hash: await sha256(`${message.role}\n${message.content}`),
+        role: message.role,
+        content: message.content,
+      })),
+    );
+    const messageHashes = archived.map((message) => message.hash);
+    const contentHash = await sha256(messageHashes.join(""));
+
+    if (existing?.contentHash === contentHash) return false;
+
+    const known = new Set(existing?.messageHashes || []);
+    await db.saveMessageArchive(
+      {
+        nodeId: node.id,
+        treeId,
+        url: node.url,
+        title: node.title,
+        platform: node.platform,
+        messageHashes,
+        contentHash,
+        capturedAt: Date.now(),
+      },
+      archived.filter((message) => !known.has(message.hash)),
+    );
+    return true;
+  }
+
+  /**
+   * Load the archived conversation for a node, in order
+   */
+  static async getTranscript(
+    nodeId: string,
+  ): Promise<ArchivedTranscript | null> {
+    if (!isExtensionPage()) {
+      return relayToBackground<ArchivedTranscript | null>(
+        "message-archive-get-transcript",
+        { nodeId },
+      );
+    }
+
+    const snapshot = await db.getMessageArchive(nodeId);
+    if (!snapshot) return null;
+
+    const messages = await db.getArchivedMessages(snapshot.messageHashes);
+    return { snapshot, messages };
+  }
+
+  static async getStats(): Promise<{ chats: number; messages: number }> {
+    const [snapshots, messages] = await Promise.all([
+      db.getAllMessageArchives(),
+      db.countArchivedMessages(),
+    ]);
+    return { chats: snapshots.length, messages };
+  }
+
+  static async clear(): Promise<void> {
+    await db.clearMessageArchives();
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Search Index - full-text search across all trees
+ *
+ * Titles, summaries and tags come from the trees themselves (always fresh);
+ * message text captured on visit lives in the `search_index` store of the
+ * extension's IndexedDB, so every chat site and the graph window search it.
+ * Content scripts reach it through the background.
+ */
+
+import { db } from "./indexeddb";
+import { isExtensionPage, relayToBackground } from "../utils/backgroundRelay";
+import type { ChatNode, ChatTree, SearchIndexEntry } from "../types";
+
+// Cap stored message text per node to keep the index small
+const MAX_MESSAGE_TEXT = 50000;
+const SNIPPET_RADIUS = 60;
+
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 8,
+  summary: 4,
+  messages: 1,
+};
+
+export interface SearchResult {
+  treeId: string;
+  treeName: string;
+  nodeId: string;
+  node: ChatNode;
+  score: number;
+  matchedField: keyof typeof FIELD_WEIGHTS;
+  snippet: string; // Plain text excerpt around the first match
+}
+
+export class SearchIndex {
+  /**
+   * Split a query into lowercase terms
+   */
+  static tokenize(query: string): string[] {
+    return Array.from(
+      new Set(
+        query
+          .toLowerCase()
+          .split(/[^\p{L}\p{N}_-]+/u)
+          .filter((term) => term.length >= 2),
+      ),
+    );
+  }
+
+  /**
+   * Store message text captured from a visited chat
+   * Skips the write when the conversation hasn't changed since the last capture
+   */
+  static async indexMessages(
+    node: ChatNode,
+    treeId: string,
+    messages: Array<{ role: string; content: string }>,
+  ): Promise<boolean> {
+    if (messages.length === 0) return false;
+
+    if (!isExtensionPage()) {
+      return relayToBackground<boolean>("search-index-messages", {
+        node,
+        treeId,
+        messages,
+      });
+    }
+
+    const last = messages[messages.length - 1];
+    const signature = `${messages.length}:${last.content.length}`;
+
+    const existing = await db.getSearchEntry(node.id);
+    if (existing?.messageSignature === signature) return false;
+
+    const messageText = messages
+      .map((message) => message.content)
+      .join("\n")
+      .slice(0, MAX_MESSAGE_TEXT);
+
+    await db.saveSearchEntry({
+      nodeId: node.id,
+      treeId,
+      title: node.title,
+      summary: node.summary || "",
+      tags: node.tags || [],
+      messageText,
+      messageSignature: signature,
+      indexedAt: Date.now(),
+    });
+    return true;
+  }
+
+  /**
+   * Rank nodes across all trees against a query
+   * Every term must match somewhere in the node
+   */
+  static async search(
+    query: string,
+    trees: Record<string, ChatTree>,
+    limit: number = 20,
+  ): Promise<SearchResult[]> {
+    const terms = this.tokenize(query);
+    if (terms.length === 0) return [];
+
+    let messagesByNode = new Map<string, string>();
+    try {
+      messagesByNode = new Map(
+        Object.entries(await this.getMatchingMessageTexts(terms)),
+      );
+    } catch (error) {
+      // Fall back to metadata-only search
+    }
+
+    const phrase = query.trim().toLowerCase();
+    const results: SearchResult[] = [];
+
+    for (const tree of Object.values(trees)) {
+      for (const node of Object.values(tree.nodes)) {
+        const fields = {
+          title: node.title.toLowerCase(),
+          tags: (node.tags || []).join(" ").toLowerCase(),
+          summary: (node.summary || "").toLowerCase(),
+          messages: messagesByNode.get(node.id) || "",
+        };
+
+        let score = 0;
+        let matchedAll = true;
+        let bestField: keyof typeof FIELD_WEIGHTS | null = null;
+
+        for (const term of terms) {
+          let termScore = 0;
+          for (const field of Object.keys(FIELD_WEIGHTS) as Array<
+            keyof typeof FIELD_WEIGHTS
+          >) {
+            const text = fields[field];
+            if (!text.includes(term)) continue;
+
+            const occurrences = Math.min(text.split(term).length - 1, 5);
+            termScore += FIELD_WEIGHTS[field] * (1 + Math.log(occurrences));
+            if (
+              !bestField ||
+              FIELD_WEIGHTS[field] > FIELD_WEIGHTS[bestField]
+            ) {
+              bestField = field;
+            }
+          }
+          if (termScore === 0) {
+            matchedAll = false;
+            break;
+          }
+          score += termScore;
+        }
+
+        if (!matchedAll || !bestField) continue;
+
+        // Whole-phrase and title-prefix bonuses
+        if (terms.length > 1 && fields.title.includes(phrase)) score += 15;
+        if (fields.title.startsWith(terms[0])) score += 5;
+
+        results.push({
+          treeId: tree.id,
+          treeName: tree.name,
+          nodeId: node.id,
+          node,
+          score,
+          matchedField: bestField,
+          snippet: this.buildSnippet(node, bestField, messagesByNode, terms),
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Lowercased message text of every node whose messages contain at least
+   * one of the terms, by node ID
+   * Only matching text is returned, so relaying it to content scripts stays small
+   */
+  static async getMatchingMessageTexts(
+    terms: string[],
+  ): Promise<Record<string, string>> {
+    if (!isExtensionPage()) {
+      return relayToBackground<Record<string, string>>(
+        "search-message-texts",
+        { terms },
+      );
+    }
+
+    const entries: SearchIndexEntry[] = await db.getAllSearchEntries();
+    const texts: Record<string, string> = {};
+    for (const entry of entries) {
+      const text = entry.messageText.toLowerCase();
+      if (terms.some((term) => text.includes(term))) {
+        texts[entry.nodeId] = text;
+      }
+    }
+    return texts;
+  }
+
+  /**
+   * Escape text for HTML and wrap query terms in <mark>
+   */
+  static highlight(text: string, terms: string[]): string {
+    const escaped = text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+    if (terms.length === 0) return escaped;
+
+    const pattern = new RegExp(
+      `(${terms
+        .map((term) =>
+          term
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+        )
+        .join("|")})`,
+      "gi",
+    );
+    return escaped.replace(pattern, "<mark>$1</mark>");
+  }
+
+  private static buildSnippet(
+    node: ChatNode,
+    field: keyof typeof FIELD_WEIGHTS,
+    messagesByNode: Map<string, string>,
+    terms: string[],
+  ): string {
+    let source = "";
+    if (field === "summary") source = node.summary || "";
+    else if (field === "tags") source = (node.tags || []).join(", ");
+    else if (field === "messages") source = messagesByNode.get(node.id) || "";
+    if (!source) return node.summary || "";
+
+    const lower = source.toLowerCase();
+    const index = Math.min(
+      ...terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0),
+    );
+    if (!isFinite(index)) return source.slice(0, SNIPPET_RADIUS * 2);
+
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(source.length, index + SNIPPET_RADIUS);
+    return `${start > 0 ? "…" : ""}${source
+      .slice(start, end)
+      .replace(/\s+/g, " ")}${end < source.length ? "…" : ""}`;
+  }
+}
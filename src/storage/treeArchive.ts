@@ -0,0 +1,463 @@
+/**
+ * Tree Archive - export/import of trees as a versioned JSON envelope
+ *
+ * An archive bundles one or more trees together with their manual graph
+ * positions and the extension state at export time. Imports are validated,
+ * colliding tree/node IDs are rewritten, and the result is merged alongside
+ * the trees that already exist.
+ */
+
+import { db } from "./indexeddb";
+import { downloadBlob, sanitizeFileName } from "../utils/download";
+import type { ChatNode, ChatTree, Connection, ExtensionState } from "../types";
+
+export const ARCHIVE_FORMAT = "arbor-tree-archive";
+export const ARCHIVE_VERSION = 1;
+
+export interface ManualPositionsRecord {
+  positions: Record<string, { x: number; y: number }>;
+  isManual: boolean;
+  timestamp: number;
+}
+
+export interface TreeArchiveEntry {
+  tree: ChatTree;
+  manualPositions?: ManualPositionsRecord | null;
+}
+
+export interface TreeArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  trees: TreeArchiveEntry[];
+  state?: Pick<ExtensionState, "currentTreeId" | "currentNodeId">;
+}
+
+export interface TreeImportResult {
+  success: boolean;
+  importedTrees: ChatTree[];
+  renamedIds: number;
+  currentTreeId: string | null;
+  error?: string;
+}
+
+// Outcome of an export or import started from a button, with the message to
+// show the user
+export interface TreeFileResult {
+  success: boolean;
+  message: string;
+}
+
+function generateId(prefix: "tree" | "node"): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export class TreeArchiveService {
+  /**
+   * Build an archive for the given trees (all trees if no IDs are passed)
+   */
+  static async exportTrees(treeIds?: string[]): Promise<TreeArchive> {
+    await db.init();
+    const allTrees = await db.getAllTrees();
+    const trees = treeIds
+      ? allTrees.filter((tree) => treeIds.includes(tree.id))
+      : allTrees;
+
+    const positionKeys = trees.map((tree) => `manualPositions_${tree.id}`);
+    let positions: Record<string, any> = {};
+    try {
+      positions = await chrome.storage.local.get(positionKeys);
+    } catch (error) {
+      // Positions are optional - export the trees without them
+    }
+
+    const state = await db.getState();
+
+    return {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      trees: trees.map((tree) => ({
+        tree,
+        manualPositions: positions[`manualPositions_${tree.id}`] || null,
+      })),
+      state: {
+        currentTreeId: (state.currentTreeId as string) || null,
+        currentNodeId: (state.currentNodeId as string) || null,
+      },
+    };
+  }
+
+  /**
+   * Validate parsed JSON against the archive schema
+   */
+  static validate(
+    data: unknown,
+  ): { valid: true; archive: TreeArchive } | { valid: false; error: string } {
+    if (!isObject(data)) {
+      return { valid: false, error: "File is not a JSON object" };
+    }
+    if (data.format !== ARCHIVE_FORMAT) {
+      return { valid: false, error: "File is not an Arbor tree archive" };
+    }
+    if (
+      typeof data.version !== "number" ||
+      data.version < 1 ||
+      data.version > ARCHIVE_VERSION
+    ) {
+      return {
+        valid: false,
+        error: `Unsupported archive version: ${data.version}`,
+      };
+    }
+    if (!Array.isArray(data.trees) || data.trees.length === 0) {
+      return { valid: false, error: "Archive contains no trees" };
+    }
+
+    for (const entry of data.trees) {
+      const error = this.validateTree(entry?.tree);
+      if (error) {
+        return { valid: false, error };
+      }
+      if (
+        entry.manualPositions != null &&
+        !isObject(entry.manualPositions?.positions)
+      ) {
+        return {
+          valid: false,
+          error: `Invalid manual positions for tree "${entry.tree.name}"`,
+        };
+      }
+    }
+
+    return { valid: true, archive: data as unknown as TreeArchive };
+  }
+
+  private static validateTree(tree: unknown): string | null {
+    if (!isObject(tree)) return "Archive entry is missing a tree";
+    if (typeof tree.id !== "string" || typeof tree.name !== "string") {
+      return "Tree is missing an id or name";
+    }
+    if (!isObject(tree.nodes)) {
+      return `Tree "${tree.name}" has no nodes`;
+    }
+    if (typeof tree.rootNodeId !== "string" || !tree.nodes[tree.rootNodeId]) {
+      return `Tree "${tree.name}" is missing its root node`;
+    }
+
+    for (const [key, node] of Object.entries(tree.nodes)) {
+      if (
+        !isObject(node) ||
+        node.id !== key ||
+        typeof node.title !== "string" ||
+        typeof node.url !== "string" ||
+        typeof node.platform !== "string" ||
+        (node.parentId !== null && typeof node.parentId !== "string") ||
+        !Array.isArray(node.children)
+      ) {
+        return `Tree "${tree.name}" has an invalid node (${key})`;
+      }
+    }
+
+    // Every parent and child has to be in the archive too (a hand-edited
+    // or truncated file can leave them dangling)
+    const nodes = tree.nodes;
+    for (const [key, node] of Object.entries(nodes)) {
+      if (
+        (node.parentId !== null && !isObject(nodes[node.parentId])) ||
+        node.children.some(
+          (childId: unknown) =>
+            typeof childId !== "string" || !isObject(nodes[childId]),
+        )
+      ) {
+        return `Tree "${tree.name}" refers to chats that aren't in the archive (${key})`;
+      }
+    }
+
+    if (tree.connections !== undefined) {
+      if (!Array.isArray(tree.connections)) {
+        return `Tree "${tree.name}" has invalid connections`;
+      }
+      for (const connection of tree.connections) {
+        if (
+          !isObject(connection) ||
+          typeof connection.fromNodeId !== "string" ||
+          typeof connection.toNodeId !== "string"
+        ) {
+          return `Tree "${tree.name}" has an invalid connection`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Merge a validated archive into storage, rewriting any IDs that collide
+   * with existing trees or nodes
+   */
+  static async importArchive(archive: TreeArchive): Promise<TreeImportResult> {
+    try {
+      await db.init();
+      const existingTrees = await db.getAllTrees();
+
+      const usedTreeIds = new Set(existingTrees.map((tree) => tree.id));
+      const usedNodeIds = new Set<string>();
+      existingTrees.forEach((tree) => {
+        Object.keys(tree.nodes).forEach((nodeId) => usedNodeIds.add(nodeId));
+      });
+
+      const importedTrees: ChatTree[] = [];
+      const treeIdMap = new Map<string, string>();
+      let renamedIds = 0;
+
+      for (const entry of archive.trees) {
+        const source = entry.tree;
+
+        // Tree ID
+        let treeId = source.id;
+        if (usedTreeIds.has(treeId)) {
+          treeId = generateId("tree");
+          renamedIds++;
+        }
+        usedTreeIds.add(treeId);
+        treeIdMap.set(source.id, treeId);
+
+        // Node IDs
+        const nodeIdMap = new Map<string, string>();
+        for (const nodeId of Object.keys(source.nodes)) {
+          let newId = nodeId;
+          if (usedNodeIds.has(newId)) {
+            newId = generateId("node");
+            renamedIds++;
+          }
+          usedNodeIds.add(newId);
+          nodeIdMap.set(nodeId, newId);
+        }
+
+        const tree = this.remapTree(source, treeId, nodeIdMap);
+        if (treeId !== source.id) {
+          tree.name = `${tree.name} (imported)`;
+          const rootNode = tree.nodes[tree.rootNodeId];
+          if (rootNode) rootNode.title = tree.name;
+        }
+
+        // Queued together, so the tree and its nodes are written in one batch
+        await Promise.all([
+          db.saveTree(tree),
+          ...Object.values(tree.nodes).map((node) => db.saveNode(node, treeId)),
+        ]);
+
+        if (entry.manualPositions?.positions) {
+          const positions: Record<string, { x: number; y: number }> = {};
+          for (const [nodeId, pos] of Object.entries(
+            entry.manualPositions.positions,
+          )) {
+            const mappedId = nodeIdMap.get(nodeId);
+            if (mappedId) positions[mappedId] = pos;
+          }
+          try {
+            await chrome.storage.local.set({
+              [`manualPositions_${treeId}`]: {
+                positions,
+                isManual: entry.manualPositions.isManual || false,
+                timestamp: Date.now(),
+              },
+            });
+          } catch (error) {
+            // Positions are optional - the tree falls back to auto layout
+          }
+        }
+
+        importedTrees.push(tree);
+      }
+
+      const archivedCurrent = archive.state?.currentTreeId;
+      const currentTreeId =
+        (archivedCurrent && treeIdMap.get(archivedCurrent)) ||
+        importedTrees[0]?.id ||
+        null;
+
+      return { success: true, importedTrees, renamedIds, currentTreeId };
+    } catch (error) {
+      console.error("🌳 Arbor: Failed to import archive:", error);
+      return {
+        success: false,
+        importedTrees: [],
+        renamedIds: 0,
+        currentTreeId: null,
+        error: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+  }
+
+  /**
+   * Copy a tree with new tree/node IDs, dropping references to missing nodes
+   */
+  static remapTree(
+    source: ChatTree,
+    treeId: string,
+    nodeIdMap: Map<string, string>,
+  ): ChatTree {
+    const mapId = (id: string | null) =>
+      id !== null ? nodeIdMap.get(id) || null : null;
+
+    const nodes: Record<string, ChatNode> = {};
+    for (const [oldId, node] of Object.entries(source.nodes)) {
+      const newId = nodeIdMap.get(oldId)!;
+      nodes[newId] = {
+        ...node,
+        id: newId,
+        parentId: mapId(node.parentId),
+        children: node.children
+          .map((childId) => nodeIdMap.get(childId))
+          .filter((childId): childId is string => !!childId),
+      };
+    }
+
+    const connections: Connection[] | undefined = source.connections
+      ?.filter(
+        (connection) =>
+          nodeIdMap.has(connection.fromNodeId) &&
+          nodeIdMap.has(connection.toNodeId),
+      )
+      .map((connection) => ({
+        ...connection,
+        fromNodeId: nodeIdMap.get(connection.fromNodeId)!,
+        toNodeId: nodeIdMap.get(connection.toNodeId)!,
+      }));
+
+    return {
+      ...source,
+      id: treeId,
+      rootNodeId: nodeIdMap.get(source.rootNodeId)!,
+      nodes,
+      ...(connections ? { connections } : {}),
+      // A new tree here; the source's revision would throw off stale-save checks
+      revision: 0,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Trigger a browser download of the archive
+   */
+  static download(archive: TreeArchive, filename?: string): void {
+    const name =
+      filename ||
+      (archive.trees.length === 1
+        ? archive.trees[0].tree.name
+        : `arbor-trees-${new Date().toISOString().slice(0, 10)}`);
+    const blob = new Blob([JSON.stringify(archive, null, 2)], {
+      type: "application/json",
+    });
+    downloadBlob(blob, `${sanitizeFileName(name, "arbor-tree")}.arbor.json`);
+  }
+
+  /**
+   * Let the user pick an archive file and return it validated
+   */
+  static pickArchiveFile(): Promise<
+    { archive: TreeArchive } | { error: string } | null
+  > {
+    return new Promise((resolve) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+      input.style.display = "none";
+
+      // Fires instead of change when the dialog is dismissed
+      input.addEventListener("cancel", () => {
+        input.remove();
+        resolve(null);
+      });
+
+      input.addEventListener("change", async () => {
+        const file = input.files?.[0];
+        input.remove();
+        if (!file) {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const parsed = JSON.parse(await file.text());
+          const result = this.validate(parsed);
+          resolve(
+            result.valid ? { archive: result.archive } : { error: result.error },
+          );
+        } catch (error) {
+          resolve({ error: "File is not valid JSON" });
+        }
+      });
+
+      document.body.appendChild(input);
+      input.click();
+    });
+  }
+
+  /**
+   * Export trees (all if none are given) and download the archive
+   * Used by the export buttons in the sidebar and the graph window
+   */
+  static async exportToFile(treeIds?: string[]): Promise<TreeFileResult> {
+    try {
+      const archive = await this.exportTrees(treeIds);
+      if (archive.trees.length === 0) {
+        return { success: false, message: "No trees to export" };
+      }
+      this.download(archive);
+      const count = archive.trees.length;
+      return {
+        success: true,
+        message: `Exported ${count} tree${count !== 1 ? "s" : ""} 📦`,
+      };
+    } catch (error) {
+      console.error("🌳 Arbor: Export failed:", error);
+      return { success: false, message: "Failed to export trees" };
+    }
+  }
+
+  /**
+   * Let the user pick an archive file and import it
+   * Used by the import buttons in the sidebar and the graph window; returns
+   * null if the user cancels
+   */
+  static async importFromFile(): Promise<
+    (TreeImportResult & TreeFileResult) | null
+  > {
+    const picked = await this.pickArchiveFile();
+    if (!picked) return null;
+    if ("error" in picked) {
+      return {
+        success: false,
+        importedTrees: [],
+        renamedIds: 0,
+        currentTreeId: null,
+        error: picked.error,
+        message: `Import failed: ${picked.error}`,
+      };
+    }
+
+    const result = await this.importArchive(picked.archive);
+    if (!result.success || !result.currentTreeId) {
+      return {
+        ...result,
+        success: false,
+        message: `Import failed: ${result.error || "No trees imported"}`,
+      };
+    }
+
+    const count = result.importedTrees.length;
+    return {
+      ...result,
+      message: `Imported ${count} tree${count !== 1 ? "s" : ""}${
+        result.renamedIds > 0 ? ` (${result.renamedIds} IDs rewritten)` : ""
+      } 📥`,
+    };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Tree Cold Storage - archive trees out of the live set
+ *
+ * Every live tree is loaded by the sidebar and the graph window. Archiving
+ * gzips a tree (with its manual layout) into a separate chrome.storage key
+ * and takes it out of the live set, so it no longer costs anything to load.
+ * Restoring puts it back exactly as it was. Message archives and version
+ * history are kept while a tree is archived.
+ *
+ * Also reports how much space each tree uses, for the options page.
+ */
+
+import { COLD_TREE_IDS_KEY, db } from "./indexeddb";
+import { TreeHistory } from "./treeHistory";
+import type { ManualPositionsRecord } from "./treeArchive";
+import type { ChatTree } from "../types";
+import { gunzipFromBase64, gzipToBase64 } from "../utils/compression";
+
+const COLD_KEY_PREFIX = "arbor_cold_";
+
+const coldKey = (treeId: string) => `${COLD_KEY_PREFIX}${treeId}`;
+const layoutKey = (treeId: string) => `manualPositions_${treeId}`;
+
+export interface ColdTreeInfo {
+  treeId: string;
+  name: string;
+  nodeCount: number;
+  archivedAt: string;
+  originalBytes: number; // Size of the tree and layout before compression
+  bytes: number; // Size in storage, compressed
+}
+
+interface ColdTreeRecord extends Omit<ColdTreeInfo, "bytes"> {
+  data: string; // Base64 gzip of ColdTreePayload
+}
+
+interface ColdTreePayload {
+  tree: ChatTree;
+  layout: ManualPositionsRecord | null;
+}
+
+export interface TreeUsage {
+  treeId: string;
+  name: string;
+  nodeCount: number;
+  treeBytes: number; // chrome.storage.local
+  layoutBytes: number; // chrome.storage.local
+  historyBytes: number; // Version history in IndexedDB (estimated)
+}
+
+export interface StorageUsage {
+  storageBytes: number; // Everything in chrome.storage.local
+  indexedDbBytes: number | null; // This origin's IndexedDB and caches, if known
+  trees: TreeUsage[]; // Largest first
+  archived: ColdTreeInfo[]; // Most recently archived first
+}
+
+const byteSize = (text: string) => new Blob([text]).size;
+
+export class TreeColdStorage {
+  /**
+   * Compress a tree into cold storage and take it out of the live set
+   */
+  static async archive(treeId: string): Promise<ColdTreeInfo> {
+    await db.flush();
+    const tree = await db.getTree(treeId);
+    if (!tree) {
+      throw new Error("Tree not found");
+    }
+
+    const payload: ColdTreePayload = {
+      tree,
+      layout: await TreeHistory.getManualLayout(treeId),
+    };
+    const json = JSON.stringify(payload);
+    const record: ColdTreeRecord = {
+      treeId,
+      name: tree.name,
+      nodeCount: Object.keys(tree.nodes).length,
+      archivedAt: new Date().toISOString(),
+      originalBytes: byteSize(json),
+      data: await gzipToBase64(json),
+    };
+
+    // Write the cold copy before removing the live one
+    const coldIds = await this.getColdIds();
+    await chrome.storage.local.set({
+      [coldKey(treeId)]: record,
+      [COLD_TREE_IDS_KEY]: coldIds.includes(treeId) ? coldIds : [...coldIds, treeId],
+    });
+    await db.detachTree(treeId);
+    await chrome.storage.local.remove(layoutKey(treeId));
+
+    const { data, ...info } = record;
+    return { ...info, bytes: byteSize(JSON.stringify(record)) };
+  }
+
+  /**
+   * Put an archived tree back into the live set
+   */
+  static async restore(treeId: string): Promise<ChatTree> {
+    const key = coldKey(treeId);
+    const result = await chrome.storage.local.get(key);
+    const record: ColdTreeRecord | undefined = result[key];
+    if (!record) {
+      throw new Error("Archived tree not found");
+    }
+
+    await db.init();
+    if (await db.getTree(treeId)) {
+      throw new Error("This tree is already in your trees");
+    }
+
+    const payload: ColdTreePayload = JSON.parse(
+      await gunzipFromBase64(record.data),
+    );
+    const { tree, layout } = payload;
+
+    await Promise.all([
+      db.saveTree(tree),
+      ...Object.values(tree.nodes).map((node) => db.saveNode(node, tree.id)),
+    ]);
+    if (layout) {
+      await chrome.storage.local.set({ [layoutKey(tree.id)]: layout });
+    }
+
+    const coldIds = await this.getColdIds();
+    await chrome.storage.local.set({
+      [COLD_TREE_IDS_KEY]: coldIds.filter((id) => id !== treeId),
+    });
+    await chrome.storage.local.remove(key);
+
+    return tree;
+  }
+
+  /**
+   * Archived trees, most recently archived first
+   */
+  static async list(): Promise<ColdTreeInfo[]> {
+    const coldIds = await this.getColdIds();
+    if (coldIds.length === 0) return [];
+
+    const result = await chrome.storage.local.get(coldIds.map(coldKey));
+    const archived = await Promise.all(
+      coldIds
+        .map((treeId) => result[coldKey(treeId)] as ColdTreeRecord | undefined)
+        .filter((record): record is ColdTreeRecord => !!record)
+        .map(async ({ data, ...info }) => ({
+          ...info,
+          bytes: await chrome.storage.local.getBytesInUse(coldKey(info.treeId)),
+        })),
+    );
+
+    return archived.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+  }
+
+  static async getUsage(): Promise<StorageUsage> {
+    await db.init();
+    const [trees, versions, archived, storageBytes] = await Promise.all([
+      db.getAllTrees(),
+      db.getAllTreeVersions(),
+      this.list(),
+      chrome.storage.local.getBytesInUse(null),
+    ]);
+
+    const historyBytes = new Map<string, number>();
+    versions.forEach((version) => {
+      historyBytes.set(
+        version.treeId,
+        (historyBytes.get(version.treeId) || 0) +
+          byteSize(JSON.stringify(version)),
+      );
+    });
+
+    const usage = await Promise.all(
+      trees.map(async (tree) => ({
+        treeId: tree.id,
+        name: tree.name,
+        nodeCount: Object.keys(tree.nodes).length,
+        treeBytes: await db.getTreeBytesInUse(tree.id),
+        layoutBytes: await chrome.storage.local.getBytesInUse(
+          layoutKey(tree.id),
+        ),
+        historyBytes: historyBytes.get(tree.id) || 0,
+      })),
+    );
+
+    let indexedDbBytes: number | null = null;
+    try {
+      const estimate = await navigator.storage.estimate();
+      indexedDbBytes = estimate.usage ?? null;
+    } catch (error) {
+      // Not available in this context
+    }
+
+    return {
+      storageBytes,
+      indexedDbBytes,
+      trees: usage.sort(
+        (a, b) =>
+          b.treeBytes + b.layoutBytes + b.historyBytes -
+          (a.treeBytes + a.layoutBytes + a.historyBytes),
+      ),
+      archived,
+    };
+  }
+
+  private static async getColdIds(): Promise<string[]> {
+    const result = await chrome.storage.local.get(COLD_TREE_IDS_KEY);
+    return result[COLD_TREE_IDS_KEY] || [];
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Tree History - shared undo/redo log for tree edits
+ *
+ * Every TreeManager/NodeManager mutation and graph layout change records what
+ * it changed in the tree (and/or its manual layout). The log lives in
+ * chrome.storage.local, so the sidebar in any tab and the full-page graph
+ * window undo and redo the same history. Each entry has its own key and holds
+ * node-level diffs, so recording an edit writes only that edit. An edit that
+ * spans trees (both sides of a cross-tree link) is one entry, undone at once.
+ *
+ * Undo and redo merge the recorded change into the stored tree, so edits made
+ * since (title sync, other tabs) are kept unless they touched the same chats.
+ *
+ * Undoing a tree deletion restores the tree and its nodes, but not message
+ * archives or search entries removed with it (search entries are rebuilt on
+ * save).
+ */
+
+import { db } from "./indexeddb";
+import type { ManualPositionsRecord } from "./treeArchive";
+import type { ChatTree, TreeDiff } from "../types";
+import { applyTreeDiff, diffTrees } from "../utils/treeDiff";
+import { mergeTrees } from "../utils/treeMerge";
+
+// Entry IDs, oldest first; the entries have a key each
+const HISTORY_KEY = "arbor_history_log";
+const ENTRY_KEY_PREFIX = "arbor_history_entry_";
+
+const entryKey = (entryId: string) => `${ENTRY_KEY_PREFIX}${entryId}`;
+
+// Oldest entries are dropped past this many undo steps
+const MAX_HISTORY_ENTRIES = 50;
+
+// Bookkeeping fields an undo must not roll back
+const UNTRACKED_FIELDS = ["revision", "updatedAt"] as const;
+
+/**
+ * Side of an edit. `undefined` leaves that part alone, `null` means it
+ * did not exist (a tree before creation, a layout after a reset)
+ */
+export interface HistoryState {
+  tree?: ChatTree | null;
+  layout?: ManualPositionsRecord | null;
+}
+
+/**
+ * Stored form of an edit to a tree: diffs both ways, or the whole tree when
+ * it was created or deleted
+ */
+export type TreeChange =
+  | { kind: "edit"; undo: TreeDiff; redo: TreeDiff }
+  | { kind: "create"; tree: ChatTree }
+  | { kind: "delete"; tree: ChatTree };
+
+/**
+ * Before and after copies of another tree edited in the same step
+ */
+export interface LinkedTreeEdit {
+  before: ChatTree;
+  after: ChatTree;
+}
+
+export interface HistoryEntry {
+  id: string;
+  treeId: string;
+  label: string;
+  createdAt: string;
+  tree?: TreeChange;
+  // Other trees the same step edited, e.g. the far side of a cross-tree link
+  linked?: Array<{ treeId: string; tree: TreeChange }>;
+  layout?: {
+    before: ManualPositionsRecord | null;
+    after: ManualPositionsRecord | null;
+  };
+}
+
+interface HistoryLog {
+  undo: string[];
+  redo: string[];
+}
+
+export class TreeHistory {
+  /**
+   * Detached copy of a tree, safe to keep while the original is mutated
+   */
+  static snapshot(tree: ChatTree): ChatTree {
+    return JSON.parse(JSON.stringify(tree));
+  }
+
+  /**
+   * Record a change to a tree's data
+   * `after` is a snapshot taken before the save, which merges in edits from
+   * other windows; only this window's edit belongs in the entry
+   */
+  static recordTreeChange(
+    label: string,
+    before: ChatTree | null,
+    after: ChatTree | null,
+    linked: LinkedTreeEdit[] = [],
+  ): Promise<HistoryEntry> {
+    const treeId = (after || before)!.id;
+    return this.record(label, treeId, { tree: before }, { tree: after }, linked);
+  }
+
+  /**
+   * Record an edit that has already been saved
+   */
+  static async record(
+    label: string,
+    treeId: string,
+    before: HistoryState,
+    after: HistoryState,
+    linked: LinkedTreeEdit[] = [],
+  ): Promise<HistoryEntry> {
+    const entry = this.createEntry(label, treeId, before, after, linked);
+    await this.store(entry);
+    return entry;
+  }
+
+  /**
+   * Write a new state and record it as an undoable edit
+   * For edits made outside the tree managers, e.g. restoring a version
+   */
+  static async applyAndRecord(
+    label: string,
+    treeId: string,
+    before: HistoryState,
+    after: HistoryState,
+  ): Promise<HistoryEntry> {
+    const entry = this.createEntry(label, treeId, before, after);
+    await this.apply(entry, "redo");
+    await this.store(entry);
+    return entry;
+  }
+
+  private static createEntry(
+    label: string,
+    treeId: string,
+    before: HistoryState,
+    after: HistoryState,
+    linked: LinkedTreeEdit[] = [],
+  ): HistoryEntry {
+    const entry: HistoryEntry = {
+      id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      treeId,
+      label,
+      createdAt: new Date().toISOString(),
+      tree: this.toTreeChange(before.tree, after.tree),
+    };
+    if (linked.length > 0) {
+      entry.linked = linked.map((edit) => ({
+        treeId: edit.after.id,
+        tree: this.toTreeChange(edit.before, edit.after)!,
+      }));
+    }
+    if (before.layout !== undefined || after.layout !== undefined) {
+      entry.layout = {
+        before: before.layout ?? null,
+        after: after.layout ?? null,
+      };
+    }
+    return entry;
+  }
+
+  /**
+   * Add an entry to the log; a new edit clears anything that could be redone
+   */
+  private static async store(entry: HistoryEntry): Promise<void> {
+    try {
+      const log = await this.load();
+      log.undo.push(entry.id);
+      const dropped = [
+        ...log.undo.slice(0, -MAX_HISTORY_ENTRIES),
+        ...log.redo,
+      ];
+      log.undo = log.undo.slice(-MAX_HISTORY_ENTRIES);
+      log.redo = [];
+
+      await chrome.storage.local.set({
+        [entryKey(entry.id)]: entry,
+        [HISTORY_KEY]: log,
+      });
+      if (dropped.length > 0) {
+        await chrome.storage.local.remove(dropped.map(entryKey));
+      }
+    } catch (error) {
+      // History is best effort - never block the edit itself
+      console.error("🌳 Arbor: Failed to record history:", error);
+    }
+  }
+
+  /**
+   * Revert the most recent edit
+   */
+  static async undo(): Promise<HistoryEntry | null> {
+    return this.step("undo");
+  }
+
+  /**
+   * Reapply the most recently undone edit
+   */
+  static async redo(): Promise<HistoryEntry | null> {
+    return this.step("redo");
+  }
+
+  /**
+   * Revert one specific edit, e.g. from an undo toast
+   * Only the latest edit can be reverted, so later edits are never lost
+   */
+  static async undoEntry(entryId: string): Promise<HistoryEntry | null> {
+    const log = await this.load();
+    if (log.undo[log.undo.length - 1] !== entryId) return null;
+    return this.undo();
+  }
+
+  static async getManualLayout(
+    treeId: string,
+  ): Promise<ManualPositionsRecord | null> {
+    const key = `manualPositions_${treeId}`;
+    const result = await chrome.storage.local.get(key);
+    return result[key] || null;
+  }
+
+  private static async step(
+    direction: "undo" | "redo",
+  ): Promise<HistoryEntry | null> {
+    const log = await this.load();
+    const from = direction === "undo" ? log.undo : log.redo;
+    const to = direction === "undo" ? log.redo : log.undo;
+
+    const entryId = from.pop();
+    if (!entryId) return null;
+
+    const key = entryKey(entryId);
+    const entry: HistoryEntry | undefined = (
+      await chrome.storage.local.get(key)
+    )[key];
+    if (!entry) {
+      // Lost its record (e.g. storage was cleared); skip it
+      await chrome.storage.local.set({ [HISTORY_KEY]: log });
+      return null;
+    }
+
+    await this.apply(entry, direction);
+    to.push(entryId);
+    await chrome.storage.local.set({ [HISTORY_KEY]: log });
+    return entry;
+  }
+
+  private static toTreeChange(
+    before: ChatTree | null | undefined,
+    after: ChatTree | null | undefined,
+  ): TreeChange | undefined {
+    if (before && after) {
+      return {
+        kind: "edit",
+        undo: this.trackedDiff(after, before),
+        redo: this.trackedDiff(before, after),
+      };
+    }
+    if (after) return { kind: "create", tree: this.snapshot(after) };
+    if (before) return { kind: "delete", tree: this.snapshot(before) };
+    return undefined;
+  }
+
+  private static trackedDiff(previous: ChatTree, next: ChatTree): TreeDiff {
+    const diff = diffTrees(previous, next);
+    UNTRACKED_FIELDS.forEach((key) => delete diff.fields[key]);
+    diff.removedFields = diff.removedFields.filter(
+      (key) => !(UNTRACKED_FIELDS as readonly string[]).includes(key),
+    );
+    return JSON.parse(JSON.stringify(diff));
+  }
+
+  private static async apply(
+    entry: HistoryEntry,
+    direction: "undo" | "redo",
+  ): Promise<void> {
+    const { treeId, tree: change, layout } = entry;
+
+    if (change) {
+      await this.applyTreeChange(treeId, change, direction);
+    }
+    // Linked trees that were deleted since keep nothing to undo
+    for (const edit of entry.linked || []) {
+      if (await db.getTree(edit.treeId)) {
+        await this.applyTreeChange(edit.treeId, edit.tree, direction);
+      }
+    }
+
+    if (layout) {
+      const layoutKey = `manualPositions_${treeId}`;
+      const state = direction === "undo" ? layout.before : layout.after;
+      if (state === null) {
+        await chrome.storage.local.remove(layoutKey);
+      } else {
+        await chrome.storage.local.set({ [layoutKey]: state });
+      }
+    }
+
+    // Let the sidebar in other tabs and the graph window reload the trees
+    [treeId, ...(entry.linked || []).map((edit) => edit.treeId)].forEach(
+      (changedId) => {
+        chrome.runtime.sendMessage(
+          { action: "tree-history-applied", payload: { treeId: changedId } },
+          () => {
+            if (chrome.runtime.lastError) {
+              // Silent fail - no other views open
+            }
+          },
+        );
+      },
+    );
+  }
+
+  private static async applyTreeChange(
+    treeId: string,
+    change: TreeChange,
+    direction: "undo" | "redo",
+  ): Promise<void> {
+    if (change.kind === "edit") {
+      const current = await db.getTree(treeId);
+      if (!current) {
+        throw new Error("The tree no longer exists");
+      }
+      // The tree as this side of the edit left it, in the parts it touched;
+      // merging from the other side keeps later edits to the rest
+      const target = applyTreeDiff(current, change[direction]);
+      const base = applyTreeDiff(
+        current,
+        direction === "undo" ? change.redo : change.undo,
+      );
+      await this.writeTree(treeId, target, base, current);
+      return;
+    }
+
+    const restores = (change.kind === "delete") === (direction === "undo");
+    if (restores) {
+      await this.writeTree(treeId, change.tree, null, await db.getTree(treeId));
+    } else {
+      await this.deleteTree(treeId);
+    }
+  }
+
+  /**
+   * Save a tree state through the normal merge path
+   * `current` is the stored tree; a state for a tree that no longer exists is
+   * written as-is
+   */
+  private static async writeTree(
+    treeId: string,
+    target: ChatTree,
+    base: ChatTree | null,
+    current: ChatTree | null,
+  ): Promise<void> {
+    const tree: ChatTree = current
+      ? { ...mergeTrees(base, target, current).tree, revision: current.revision }
+      : this.snapshot(target);
+    // Bump updatedAt so open views notice the change
+    tree.updatedAt = new Date().toISOString();
+
+    const existing = await db.getNodesByTree(treeId);
+    for (const node of existing) {
+      if (!tree.nodes[node.id]) {
+        await db.deleteNode(node.id);
+      }
+    }
+
+    await Promise.all([
+      db.saveTree(tree, { overwrite: !current }),
+      ...Object.values(tree.nodes).map((node) => db.saveNode(node, treeId)),
+    ]);
+  }
+
+  private static async deleteTree(treeId: string): Promise<void> {
+    const nodes = await db.getNodesByTree(treeId);
+    for (const node of nodes) {
+      await db.deleteNode(node.id);
+    }
+    await db.deleteTree(treeId);
+  }
+
+  private static async load(): Promise<HistoryLog> {
+    const result = await chrome.storage.local.get(HISTORY_KEY);
+    const log = result[HISTORY_KEY];
+    return {
+      undo: log?.undo || [],
+      redo: log?.redo || [],
+    };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Tree Versions - point-in-time history recorded by ArborDatabase.saveTree
+ *
+ * Versions are throttled snapshots/diffs in the `tree_history` store. This
+ * module lists them, rebuilds a tree as it was at a version, and restores it
+ * in place or forks it into a new tree. Restores go through TreeHistory, so
+ * they can be undone like any other edit.
+ */
+
+import { db } from "./indexeddb";
+import { TreeArchiveService } from "./treeArchive";
+import { TreeHistory } from "./treeHistory";
+import { reconstructTree } from "../utils/treeDiff";
+import type { ChatTree, TreeVersion } from "../types";
+
+export interface DeletedTreeInfo {
+  treeId: string;
+  versionId: string; // Final state before deletion
+  name: string;
+  nodeCount: number;
+  deletedAt: string;
+}
+
+function generateId(prefix: "tree" | "node"): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export class TreeVersions {
+  /**
+   * A tree's versions, newest first
+   */
+  static async list(treeId: string): Promise<TreeVersion[]> {
+    await db.init();
+    const versions = await db.getTreeVersions(treeId);
+    return versions.reverse();
+  }
+
+  /**
+   * The tree as it was at a version
+   */
+  static async getTreeAt(
+    treeId: string,
+    versionId: string,
+  ): Promise<ChatTree | null> {
+    await db.init();
+    const versions = await db.getTreeVersions(treeId);
+    const index = versions.findIndex((version) => version.id === versionId);
+    return index >= 0 ? reconstructTree(versions, index) : null;
+  }
+
+  /**
+   * Trees whose history ends in a deletion and that were not recreated
+   */
+  static async listDeletedTrees(): Promise<DeletedTreeInfo[]> {
+    await db.init();
+    const [versions, trees] = await Promise.all([
+      db.getAllTreeVersions(),
+      db.getAllTrees(),
+    ]);
+    const existing = new Set(trees.map((tree) => tree.id));
+
+    const latest = new Map<string, TreeVersion>();
+    versions.forEach((version) => latest.set(version.treeId, version));
+
+    return Array.from(latest.values())
+      .filter((version) => version.deleted && !existing.has(version.treeId))
+      .map((version) => ({
+        treeId: version.treeId,
+        versionId: version.id,
+        name: version.name,
+        nodeCount: version.nodeCount,
+        deletedAt: version.createdAt,
+      }))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }
+
+  /**
+   * Replace the tree with its state at a version (or bring a deleted tree back)
+   */
+  static async restore(tree: ChatTree, versionDate: string): Promise<void> {
+    const current = await db.getTree(tree.id);
+    await TreeHistory.applyAndRecord(
+      `Restore "${tree.name}" to ${new Date(versionDate).toLocaleString()}`,
+      tree.id,
+      { tree: current },
+      { tree },
+    );
+  }
+
+  /**
+   * Copy the tree's state at a version into a new tree, leaving it untouched
+   */
+  static async fork(tree: ChatTree, versionDate: string): Promise<ChatTree> {
+    const nodeIdMap = new Map<string, string>();
+    Object.keys(tree.nodes).forEach((nodeId) =>
+      nodeIdMap.set(nodeId, generateId("node")),
+    );
+
+    const now = new Date().toISOString();
+    const forked: ChatTree = {
+      ...TreeArchiveService.remapTree(tree, generateId("tree"), nodeIdMap),
+      name: `${tree.name} (${new Date(versionDate).toLocaleDateString()})`,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const rootNode = forked.nodes[forked.rootNodeId];
+    if (rootNode) rootNode.title = forked.name;
+
+    await TreeHistory.applyAndRecord(
+      `Fork "${forked.name}"`,
+      forked.id,
+      { tree: null },
+      { tree: forked },
+    );
+    return forked;
+  }
+}
@@ -1,9 +1,13 @@
 // Simplified types for browser extension
+
+// Key of a registered platform adapter (see PlatformFactory), e.g. 'chatgpt'
+export type PlatformId = string;
+
 export interface ChatNode {
   id: string;
   title: string;
   url: string;
-  platform: 'chatgpt' | 'gemini' | 'claude' | 'perplexity';
+  platform: PlatformId;
   parentId: string | null;
   children: string[]; // array of child IDs
   createdAt: string;
@@ -13,6 +17,11 @@ export interface ChatNode {
   summary?: string;
   tags?: string[];
   connectionLabel?: ConnectionType;
+  links?: NodeLink[]; // Related chats in other trees, linked both ways
+
+  // Title sync
+  providerTitle?: string; // Title last seen on (or sent to) the provider, to tell which side renamed
+  titleLocked?: boolean; // Renamed by the user; titles the provider generates don't replace it
 
   // Visual customization
   customPosition?: { x: number; y: number }; // Custom position on canvas
@@ -47,27 +56,140 @@ export interface ChatTree {
   rootNodeId: string;
   nodes: Record<string, ChatNode>; // nodeId -> ChatNode
   connections?: Connection[]; // Custom connections
+  digest?: TreeDigest; // Synthesis of all node summaries
+  revision?: number; // Bumped on every save; a stale copy is merged, not overwritten
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TreeDigest {
+  text: string;
+  generatedAt: string;
+  nodeCount: number;
+  sourceHash: string; // Fingerprint of the outline it was built from, to spot stale digests
+  usedLLM: boolean;
+}
+
+export type IntegrityIssueKind =
+  | 'invalid-root' // Root chat missing, or given a parent
+  | 'dangling-child' // `children` lists a chat that doesn't exist
+  | 'missing-parent' // `parentId` points at a chat that doesn't exist
+  | 'parent-mismatch' // `parentId` and the parent's `children` disagree
+  | 'cycle' // Parent chain loops back on itself
+  | 'unreachable' // Parentless chat that isn't the root
+  | 'dangling-connection' // Custom connection to a missing chat
+  | 'unindexed-tree' // Stored tree missing from the tree index
+  | 'missing-tree' // Tree index lists a tree that isn't stored
+  | 'orphaned-node-record'; // Node lookup entry for a chat no tree has
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  treeId: string;
+  treeName?: string;
+  nodeIds: string[]; // Chats affected (or node records, for orphaned ones)
+  message: string;
+}
+
+export interface TreeDiff {
+  fields: Partial<Omit<ChatTree, 'nodes'>>; // Top-level fields set or changed
+  removedFields: (keyof ChatTree)[];
+  upsertedNodes: Record<string, ChatNode>;
+  removedNodes: string[];
+}
+
+export interface TreeVersion {
+  id: string;
+  treeId: string;
+  name: string;
+  nodeCount: number;
+  createdAt: string; // Start of the throttle window this version covers
+  savedAt: string; // Last save folded into this version
+  deleted?: boolean; // The tree was deleted; snapshot is its final state
+  snapshot?: ChatTree; // Full copy (first version, after deletions, and periodically)
+  diff?: TreeDiff; // Changes since the previous version
+}
+
 export interface ExtensionState {
   trees: Record<string, ChatTree>; // treeId -> ChatTree
   currentTreeId: string | null;
   currentNodeId: string | null;
   sidebarVisible: boolean;
   graphSidebarVisible: boolean;
+  tagFilter?: TagFilter | null;
+}
+
+export interface TagFilter {
+  tags: string[]; // Nodes with any of these tags match
+  mode: 'dim' | 'hide'; // How non-matching nodes are shown
+}
+
+export interface SearchIndexEntry {
+  nodeId: string;
+  treeId: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  messageText: string; // Captured via Platform.extractMessages() on visit
+  messageSignature?: string; // Cheap fingerprint to skip unchanged captures
+  indexedAt: number;
+}
+
+export interface NodeEmbedding {
+  nodeId: string;
+  treeId: string;
+  model: string; // e.g. 'openai:text-embedding-3-small', or 'tfidf' for the local fallback
+  sourceHash: string; // Fingerprint of the embedded text, to re-embed edited chats
+  vector?: number[]; // From a provider's embeddings endpoint
+  terms?: Record<string, number>; // Term counts, for the local TF-IDF fallback
+  embeddedAt: number;
+}
+
+export interface NodeLink {
+  treeId: string;
+  nodeId: string;
+  createdAt: string;
+}
+
+export interface ArchivedMessage {
+  hash: string; // SHA-256 of role + content; shared across chats
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface MessageArchiveSnapshot {
+  nodeId: string;
+  treeId: string;
+  url: string;
+  title: string;
+  platform: ChatNode['platform'];
+  messageHashes: string[]; // Conversation order
+  contentHash: string; // Hash of messageHashes, to skip unchanged captures
+  capturedAt: number;
+}
+
+// How many elements one configured selector matches on the current page
+export interface SelectorProbe {
+  list: string; // PlatformConfig list the selector comes from, e.g. 'inputSelectors'
+  selector: string;
+  matches: number; // -1 if the selector is invalid
 }
 
 export interface Platform {
-  name: string;
+  readonly name: PlatformId;
+  readonly displayName: string;
+  readonly emoji: string;
+  readonly supportsRename: boolean;
+  readonly titleFallback: string; // Shown when a chat has no title yet
   isActive(): boolean;
+  isChatUrl(url: string): boolean;
+  isPlatformUrl(url: string): boolean;
   getChatId(): string | null;
   detectCurrentChatUrl(): string | null;
   detectChatTitle(): string | null;
   isInConversation(): boolean;
   getSelectedText(): string | null;
   openNewChat(context?: string, parentNodeId?: string, parentTreeId?: string): void;
+  getNewChatUrl(): string;
   navigateToChat(chatId: string): void;
   generateBranchContext(params: {
     parentTitle: string;
@@ -81,6 +203,9 @@ export interface Platform {
   getRecentMessages(count?: number): Array<{ role: 'user' | 'assistant'; content: string }>;
   renameChat(chatUrl: string, newTitle: string): Promise<boolean>;
   getAllChatsFromSidebar(): Array<{ id: string; title: string; url: string }>;
+  getSidebarContainer(): Element | null;
+  loadMoreSidebarChats(): Promise<boolean>;
   pasteIntoInput(text: string): Promise<boolean>;
+  probeSelectors(): SelectorProbe[];
   cleanup(): void;
 }
@@ -0,0 +1,38 @@
+/**
+ * Helpers for storage that belongs to the extension rather than the page
+ * (content scripts run on the chat site's origin, so IndexedDB opened there is
+ * the site's own; extension pages and the background share the extension's)
+ */
+
+/**
+ * Whether this code runs on the extension's origin (background, options,
+ * graph window) rather than in a content script
+ */
+export function isExtensionPage(): boolean {
+  return (
+    typeof location !== "undefined" && location.protocol === "chrome-extension:"
+  );
+}
+
+/**
+ * Ask the background to run a storage operation on the extension's origin
+ * Resolves to the response's `data`
+ */
+export async function relayToBackground<T = void>(
+  action: string,
+  payload: unknown,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ action, payload }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+        return;
+      }
+      if (!response || !response.success) {
+        reject(new Error(response?.error || `Background failed: ${action}`));
+        return;
+      }
+      resolve(response.data as T);
+    });
+  });
+}
@@ -0,0 +1,24 @@
+/**
+ * Gzip text to a base64 string (storable in chrome.storage) and back
+ */
+export async function gzipToBase64(text: string): Promise<string> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream("gzip"));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+
+  // Chunked so large inputs don't overflow the argument limit
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export async function gunzipFromBase64(data: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+  const stream = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("gzip"));
+  return new Response(stream).text();
+}
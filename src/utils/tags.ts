@@ -0,0 +1,78 @@
+import type { ChatTree, TagFilter } from "../types";
+
+// The filter applies in the sidebar on every chat site and in the graph
+// window, so it lives in chrome.storage rather than per-origin IndexedDB
+const TAG_FILTER_KEY = "arbor_tag_filter";
+
+export async function loadTagFilter(): Promise<TagFilter | null> {
+  const result = await chrome.storage.local.get(TAG_FILTER_KEY);
+  return result[TAG_FILTER_KEY] || null;
+}
+
+export async function saveTagFilter(filter: TagFilter | null): Promise<void> {
+  if (filter) {
+    await chrome.storage.local.set({ [TAG_FILTER_KEY]: filter });
+  } else {
+    await chrome.storage.local.remove(TAG_FILTER_KEY);
+  }
+}
+
+/**
+ * Canonical form for a tag: lowercase, no leading #, words joined by dashes
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_-]/gu, "")
+    .slice(0, 40);
+}
+
+/**
+ * All tags in use across trees, most used first
+ */
+export function collectTags(
+  trees: ChatTree[],
+): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, number>();
+  trees.forEach((tree) => {
+    Object.values(tree.nodes).forEach((node) => {
+      (node.tags || []).forEach((tag) => {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      });
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Nodes matching a tag filter, plus the ancestors needed to keep them
+ * reachable when non-matching nodes are hidden
+ */
+export function getTagFilterVisibility(
+  tree: ChatTree,
+  filter: TagFilter | null | undefined,
+): { matching: Set<string>; visible: Set<string> } | null {
+  if (!filter || filter.tags.length === 0) return null;
+
+  const matching = new Set<string>();
+  const visible = new Set<string>();
+
+  Object.values(tree.nodes).forEach((node) => {
+    if (!(node.tags || []).some((tag) => filter.tags.includes(tag))) return;
+
+    matching.add(node.id);
+    let current: string | null = node.id;
+    while (current && !visible.has(current)) {
+      visible.add(current);
+      current = tree.nodes[current]?.parentId ?? null;
+    }
+  });
+
+  return { matching, visible };
+}
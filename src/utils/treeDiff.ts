@@ -0,0 +1,92 @@
+/**
+ * Tree diffs - node-level changes between two versions of a tree
+ */
+
+import type { ChatTree, TreeDiff, TreeVersion } from "../types";
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+export function diffTrees(previous: ChatTree, next: ChatTree): TreeDiff {
+  const diff: TreeDiff = {
+    fields: {},
+    removedFields: [],
+    upsertedNodes: {},
+    removedNodes: [],
+  };
+
+  const keys = new Set([
+    ...Object.keys(previous),
+    ...Object.keys(next),
+  ]) as Set<keyof ChatTree>;
+  keys.delete("nodes");
+
+  for (const key of keys) {
+    if (sameValue(previous[key], next[key])) continue;
+    if (next[key] === undefined) {
+      diff.removedFields.push(key);
+    } else {
+      (diff.fields as Record<string, unknown>)[key] = next[key];
+    }
+  }
+
+  for (const [nodeId, node] of Object.entries(next.nodes)) {
+    if (!sameValue(previous.nodes[nodeId], node)) {
+      diff.upsertedNodes[nodeId] = node;
+    }
+  }
+  diff.removedNodes = Object.keys(previous.nodes).filter(
+    (nodeId) => !next.nodes[nodeId],
+  );
+
+  return diff;
+}
+
+export function applyTreeDiff(base: ChatTree, diff: TreeDiff): ChatTree {
+  const tree: ChatTree = JSON.parse(JSON.stringify(base));
+
+  Object.assign(tree, diff.fields);
+  diff.removedFields.forEach((key) => delete tree[key]);
+  Object.assign(tree.nodes, diff.upsertedNodes);
+  diff.removedNodes.forEach((nodeId) => delete tree.nodes[nodeId]);
+
+  return tree;
+}
+
+/**
+ * A diff that only bumps timestamps is not worth a version
+ */
+export function isEmptyDiff(diff: TreeDiff): boolean {
+  const fields = Object.keys(diff.fields).filter((key) => key !== "updatedAt");
+  return (
+    fields.length === 0 &&
+    diff.removedFields.length === 0 &&
+    Object.keys(diff.upsertedNodes).length === 0 &&
+    diff.removedNodes.length === 0
+  );
+}
+
+/**
+ * The tree as of versions[index], from the nearest earlier snapshot
+ *
+ * @param versions - one tree's versions, oldest first
+ */
+export function reconstructTree(
+  versions: TreeVersion[],
+  index: number,
+): ChatTree | null {
+  let start = index;
+  while (start >= 0 && !versions[start].snapshot) {
+    start--;
+  }
+  if (start < 0) return null;
+
+  let tree: ChatTree = JSON.parse(JSON.stringify(versions[start].snapshot));
+  for (let i = start + 1; i <= index; i++) {
+    const diff = versions[i].diff;
+    if (diff) {
+      tree = applyTreeDiff(tree, diff);
+    }
+  }
+  return tree;
+}
@@ -0,0 +1,292 @@
+/**
+ * Tree integrity - structural checks and repairs for one tree
+ *
+ * A sound tree has a parentless root, every other chat's `parentId` matches
+ * exactly one parent's `children`, every parent chain ends at the root, and
+ * custom connections point at chats that exist. `parentId` is treated as the
+ * source of truth when the two disagree.
+ */
+
+import type {
+  ChatNode,
+  ChatTree,
+  IntegrityIssue,
+  IntegrityIssueKind,
+} from "../types";
+
+// Repairs run in this order, so each one sees the tree the previous left
+const REPAIR_ORDER: IntegrityIssueKind[] = [
+  "invalid-root",
+  "dangling-child",
+  "missing-parent",
+  "cycle",
+  "parent-mismatch",
+  "unreachable",
+  "dangling-connection",
+];
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * Whether moving `nodeId` under `newParentId` would make it its own ancestor
+ */
+export function wouldCreateCycle(
+  nodeId: string,
+  newParentId: string,
+  tree: ChatTree,
+): boolean {
+  let current = newParentId;
+  const visited = new Set<string>();
+
+  while (current) {
+    if (current === nodeId) return true;
+    if (visited.has(current)) return false;
+
+    visited.add(current);
+    const node = tree.nodes[current];
+    current = node?.parentId || "";
+  }
+
+  return false;
+}
+
+/**
+ * Chats whose parent chains loop, one list per loop
+ */
+function findCycles(tree: ChatTree): string[][] {
+  const cycles: string[][] = [];
+  const checked = new Set<string>();
+
+  for (const startId of Object.keys(tree.nodes)) {
+    const path: string[] = [];
+    const onPath = new Set<string>();
+    let current: string | null = startId;
+
+    while (current && tree.nodes[current] && !checked.has(current)) {
+      if (onPath.has(current)) {
+        cycles.push(path.slice(path.indexOf(current)));
+        break;
+      }
+      onPath.add(current);
+      path.push(current);
+      current = tree.nodes[current].parentId;
+    }
+
+    path.forEach((nodeId) => checked.add(nodeId));
+  }
+
+  return cycles;
+}
+
+function findParentMismatches(tree: ChatTree): string[] {
+  const mismatched = new Set<string>();
+
+  Object.values(tree.nodes).forEach((node) => {
+    const parent = node.parentId ? tree.nodes[node.parentId] : undefined;
+    if (parent && !parent.children.includes(node.id)) {
+      mismatched.add(node.id);
+    }
+
+    const seen = new Set<string>();
+    node.children.forEach((childId) => {
+      const child = tree.nodes[childId];
+      if (child && (child.parentId !== node.id || seen.has(childId))) {
+        mismatched.add(childId);
+      }
+      seen.add(childId);
+    });
+  });
+
+  return Array.from(mismatched);
+}
+
+export function checkTree(tree: ChatTree): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const nodes = Object.values(tree.nodes);
+  const issue = (
+    kind: IntegrityIssueKind,
+    nodeIds: string[],
+    message: string,
+  ) => {
+    if (nodeIds.length > 0) {
+      issues.push({
+        kind,
+        treeId: tree.id,
+        treeName: tree.name,
+        nodeIds,
+        message,
+      });
+    }
+  };
+
+  const root = tree.nodes[tree.rootNodeId];
+  if (nodes.length > 0 && !root) {
+    issue("invalid-root", [tree.rootNodeId], "Root chat is missing");
+  } else if (root?.parentId) {
+    issue("invalid-root", [root.id], `Root chat "${root.title}" has a parent`);
+  }
+
+  const danglingChildren = nodes
+    .filter((node) => node.children.some((childId) => !tree.nodes[childId]))
+    .map((node) => node.id);
+  issue(
+    "dangling-child",
+    danglingChildren,
+    `${plural(danglingChildren.length, "chat")} list children that don't exist`,
+  );
+
+  const missingParents = nodes
+    .filter((node) => node.parentId && !tree.nodes[node.parentId])
+    .map((node) => node.id);
+  issue(
+    "missing-parent",
+    missingParents,
+    `${plural(missingParents.length, "chat")} point at a parent that doesn't exist`,
+  );
+
+  const mismatched = findParentMismatches(tree);
+  issue(
+    "parent-mismatch",
+    mismatched,
+    `${plural(mismatched.length, "chat")} disagree with their parent's child list`,
+  );
+
+  findCycles(tree).forEach((cycle) => {
+    issue(
+      "cycle",
+      cycle,
+      `Parent loop through ${cycle
+        .map((nodeId) => `"${tree.nodes[nodeId].title}"`)
+        .join(" → ")}`,
+    );
+  });
+
+  const unreachable = nodes
+    .filter((node) => !node.parentId && node.id !== tree.rootNodeId)
+    .map((node) => node.id);
+  issue(
+    "unreachable",
+    unreachable,
+    `${plural(unreachable.length, "chat")} aren't connected to the root`,
+  );
+
+  const danglingConnections = (tree.connections || []).filter(
+    (connection) =>
+      !tree.nodes[connection.fromNodeId] || !tree.nodes[connection.toNodeId],
+  );
+  issue(
+    "dangling-connection",
+    danglingConnections.map((connection) => connection.toNodeId),
+    `${plural(danglingConnections.length, "connection")} point at missing chats`,
+  );
+
+  return issues;
+}
+
+function detach(tree: ChatTree, node: ChatNode) {
+  const parent = node.parentId ? tree.nodes[node.parentId] : undefined;
+  if (parent) {
+    parent.children = parent.children.filter((id) => id !== node.id);
+  }
+  node.parentId = null;
+}
+
+function attachToRoot(tree: ChatTree, node: ChatNode) {
+  const root = tree.nodes[tree.rootNodeId];
+  if (!root || node.id === root.id) return;
+
+  detach(tree, node);
+  node.parentId = root.id;
+  if (!root.children.includes(node.id)) {
+    root.children.push(node.id);
+  }
+}
+
+/**
+ * Fix the given kinds of issue (all tree-level kinds by default) in place
+ * Chats are never deleted; strays are reattached under the root
+ */
+export function repairTree(
+  tree: ChatTree,
+  kinds: Iterable<IntegrityIssueKind> = REPAIR_ORDER,
+): void {
+  const selected = new Set(kinds);
+  const nodes = () => Object.values(tree.nodes);
+
+  for (const kind of REPAIR_ORDER) {
+    if (!selected.has(kind)) continue;
+
+    switch (kind) {
+      case "invalid-root": {
+        if (!tree.nodes[tree.rootNodeId]) {
+          const candidate =
+            nodes().find((node) => !node.parentId) || nodes()[0];
+          if (!candidate) break;
+          tree.rootNodeId = candidate.id;
+        }
+        detach(tree, tree.nodes[tree.rootNodeId]);
+        break;
+      }
+
+      case "dangling-child":
+        nodes().forEach((node) => {
+          node.children = node.children.filter((id) => tree.nodes[id]);
+        });
+        break;
+
+      case "missing-parent":
+        nodes().forEach((node) => {
+          if (node.parentId && !tree.nodes[node.parentId]) {
+            node.parentId = null;
+            attachToRoot(tree, node);
+          }
+        });
+        break;
+
+      case "cycle":
+        // Cut each loop at its first chat and hang that chat off the root
+        findCycles(tree).forEach((cycle) => {
+          const node = tree.nodes[cycle[0]];
+          detach(tree, node);
+          if (!wouldCreateCycle(node.id, tree.rootNodeId, tree)) {
+            attachToRoot(tree, node);
+          }
+        });
+        break;
+
+      case "parent-mismatch":
+        nodes().forEach((node) => {
+          // Missing children are left to the dangling-child repair
+          node.children = Array.from(new Set(node.children)).filter(
+            (id) => !tree.nodes[id] || tree.nodes[id].parentId === node.id,
+          );
+        });
+        nodes().forEach((node) => {
+          const parent = node.parentId ? tree.nodes[node.parentId] : undefined;
+          if (parent && !parent.children.includes(node.id)) {
+            parent.children.push(node.id);
+          }
+        });
+        break;
+
+      case "unreachable":
+        nodes().forEach((node) => {
+          if (!node.parentId && node.id !== tree.rootNodeId) {
+            attachToRoot(tree, node);
+          }
+        });
+        break;
+
+      case "dangling-connection":
+        if (tree.connections) {
+          tree.connections = tree.connections.filter(
+            (connection) =>
+              tree.nodes[connection.fromNodeId] &&
+              tree.nodes[connection.toNodeId],
+          );
+        }
+        break;
+    }
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Tree merge - three-way merge of concurrent edits to one tree
+ *
+ * `base` is the copy both sides started from. Changes made on only one side
+ * are kept; a node (or tree field) changed differently on both sides is a
+ * conflict, settled by `prefer`. Children lists and extra connections are
+ * merged as sets, so two tabs adding branches under the same parent both win.
+ * Children lists are then rebuilt from the merged `parentId`s, and moves that
+ * only loop once combined (x under y here, y under x there) are conflicts.
+ */
+
+import type { ChatNode, ChatTree, Connection } from "../types";
+import { checkTree, repairTree } from "./treeIntegrity";
+
+/**
+ * A save that couldn't be merged automatically, for the user to settle
+ */
+export interface TreeConflict {
+  treeId: string;
+  treeName: string;
+  nodeTitles: string[]; // Chats edited differently in both places
+  fields: string[]; // Tree fields edited differently in both places
+  deletedRemotely: boolean; // The tree was deleted elsewhere
+}
+
+// "local" keeps this window's edits, "remote" keeps the stored ones
+export type ConflictResolution = "local" | "remote";
+
+export interface TreeMergeResult {
+  tree: ChatTree;
+  conflicts: string[]; // Node IDs edited differently on both sides
+  fieldConflicts: string[]; // Tree fields edited differently on both sides
+}
+
+// Bookkeeping fields that never conflict
+const IGNORED_FIELDS = new Set(["updatedAt", "revision"]);
+
+const sameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const connectionKey = (connection: Connection) =>
+  `${connection.fromNodeId}->${connection.toNodeId}:${connection.type}`;
+
+/**
+ * Three-way merge of two lists of unique items: the remote order, minus
+ * what local removed, plus what local added
+ */
+function mergeLists<T>(
+  base: T[] | undefined,
+  local: T[],
+  remote: T[],
+  key: (item: T) => string,
+): T[] {
+  const baseKeys = new Set((base || []).map(key));
+  const localKeys = new Set(local.map(key));
+
+  const merged = remote.filter((item) => {
+    const itemKey = key(item);
+    return !(base && baseKeys.has(itemKey) && !localKeys.has(itemKey));
+  });
+  const mergedKeys = new Set(merged.map(key));
+
+  local.forEach((item) => {
+    const itemKey = key(item);
+    if (!baseKeys.has(itemKey) && !mergedKeys.has(itemKey)) {
+      merged.push(item);
+      mergedKeys.add(itemKey);
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Field-by-field merge of one record edited on both sides
+ * Returns the merged record and the fields that conflicted
+ */
+function mergeRecords<T extends object>(
+  base: T | undefined,
+  local: T,
+  remote: T,
+  prefer: ConflictResolution,
+  skip: Set<string>,
+): { merged: T; conflicts: string[] } {
+  const merged = { ...remote } as Record<string, unknown>;
+  const conflicts: string[] = [];
+  const baseRecord = base as Record<string, unknown> | undefined;
+  const localRecord = local as Record<string, unknown>;
+  const remoteRecord = remote as Record<string, unknown>;
+
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+  for (const key of keys) {
+    if (skip.has(key)) continue;
+
+    const localValue = localRecord[key];
+    const remoteValue = remoteRecord[key];
+    if (sameValue(localValue, remoteValue)) continue;
+
+    const localChanged = !baseRecord || !sameValue(baseRecord[key], localValue);
+    const remoteChanged =
+      !baseRecord || !sameValue(baseRecord[key], remoteValue);
+
+    let value = remoteValue;
+    if (localChanged && !remoteChanged) {
+      value = localValue;
+    } else if (localChanged && remoteChanged) {
+      if (!IGNORED_FIELDS.has(key)) conflicts.push(key);
+      value = prefer === "local" ? localValue : remoteValue;
+    }
+
+    if (value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return { merged: merged as T, conflicts };
+}
+
+function mergeNode(
+  base: ChatNode | undefined,
+  local: ChatNode | undefined,
+  remote: ChatNode | undefined,
+  prefer: ConflictResolution,
+): { node: ChatNode | undefined; conflict: boolean } {
+  if (sameValue(local, remote)) return { node: local, conflict: false };
+  if (base && sameValue(base, local)) return { node: remote, conflict: false };
+  if (base && sameValue(base, remote)) return { node: local, conflict: false };
+
+  // Added on one side only (no common copy to compare against)
+  if (!base && (!local || !remote)) {
+    return { node: local || remote, conflict: false };
+  }
+
+  // Deleted on one side, edited on the other
+  if (!local || !remote) {
+    return { node: prefer === "local" ? local : remote, conflict: true };
+  }
+
+  const { merged, conflicts } = mergeRecords(
+    base,
+    local,
+    remote,
+    prefer,
+    new Set(["children"]),
+  );
+  merged.children = mergeLists(
+    base?.children,
+    local.children,
+    remote.children,
+    (id) => id,
+  );
+  merged.updatedAt =
+    local.updatedAt > remote.updatedAt ? local.updatedAt : remote.updatedAt;
+
+  return { node: merged, conflict: conflicts.length > 0 };
+}
+
+export function mergeTrees(
+  base: ChatTree | null,
+  local: ChatTree,
+  remote: ChatTree,
+  prefer: ConflictResolution = "local",
+): TreeMergeResult {
+  const { merged, conflicts: fieldConflicts } = mergeRecords(
+    base || undefined,
+    local,
+    remote,
+    prefer,
+    new Set(["nodes", "connections"]),
+  );
+
+  const nodes: Record<string, ChatNode> = {};
+  const conflicts: string[] = [];
+  const nodeIds = new Set([
+    ...Object.keys(local.nodes),
+    ...Object.keys(remote.nodes),
+  ]);
+  for (const nodeId of nodeIds) {
+    const { node, conflict } = mergeNode(
+      base?.nodes[nodeId],
+      local.nodes[nodeId],
+      remote.nodes[nodeId],
+      prefer,
+    );
+    if (conflict) conflicts.push(nodeId);
+    if (node) nodes[nodeId] = node;
+  }
+
+  // Drop references to nodes the merge removed
+  Object.values(nodes).forEach((node) => {
+    node.children = node.children.filter((childId) => nodes[childId]);
+  });
+
+  const connections = mergeLists(
+    base?.connections,
+    local.connections || [],
+    remote.connections || [],
+    connectionKey,
+  ).filter(
+    (connection) => nodes[connection.fromNodeId] && nodes[connection.toNodeId],
+  );
+
+  const tree: ChatTree = {
+    ...merged,
+    nodes,
+    updatedAt: new Date().toISOString(),
+  };
+  if (connections.length > 0 || local.connections || remote.connections) {
+    tree.connections = connections;
+  }
+
+  resolveMoves(tree, local, remote, prefer).forEach((nodeId) => {
+    if (!conflicts.includes(nodeId)) conflicts.push(nodeId);
+  });
+
+  return { tree, conflicts, fieldConflicts };
+}
+
+/**
+ * Make the merged tree's structure consistent in place: chats in a parent
+ * loop take their parent from the preferred side, and every children list
+ * is rebuilt from the merged `parentId`s
+ * Returns the chats that were in a loop
+ */
+function resolveMoves(
+  tree: ChatTree,
+  local: ChatTree,
+  remote: ChatTree,
+  prefer: ConflictResolution,
+): string[] {
+  const preferred = prefer === "local" ? local : remote;
+  const looped = new Set<string>();
+
+  const findLooped = () =>
+    checkTree(tree)
+      .filter((issue) => issue.kind === "cycle")
+      .flatMap((issue) => issue.nodeIds);
+
+  findLooped().forEach((nodeId) => {
+    looped.add(nodeId);
+    const parentId = preferred.nodes[nodeId]?.parentId;
+    if (parentId !== undefined) {
+      tree.nodes[nodeId].parentId = parentId;
+    }
+  });
+  // The preferred side's parents can still loop through the other side's
+  // moves; cut what's left the way the integrity repair does
+  if (findLooped().length > 0) {
+    repairTree(tree, ["cycle"]);
+  }
+
+  repairTree(tree, ["parent-mismatch"]);
+  return Array.from(looped);
+}
@@ -0,0 +1,124 @@
+/**
+ * Minimal ZIP writer (store method, no compression)
+ *
+ * Enough to bundle a folder of text files into a downloadable archive
+ * without pulling in a dependency or talking to a server.
+ */
+
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+}
+
+function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+export class ZipWriter {
+  private entries: ZipEntry[] = [];
+  private chunks: Uint8Array[] = [];
+  private offset = 0;
+  private encoder = new TextEncoder();
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+
+  constructor(date: Date = new Date()) {
+    this.dosTime =
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2);
+    this.dosDate =
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate();
+  }
+
+  /**
+   * Add a file; use forward slashes in `path` for folders
+   */
+  addFile(path: string, content: string | Uint8Array): void {
+    const name = this.encoder.encode(path);
+    const data =
+      typeof content === "string" ? this.encoder.encode(content) : content;
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true); // Local file header signature
+    header.setUint16(4, 20, true); // Version needed
+    header.setUint16(6, 0x0800, true); // UTF-8 file names
+    header.setUint16(8, 0, true); // Store
+    header.setUint16(10, this.dosTime, true);
+    header.setUint16(12, this.dosDate, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+
+    this.entries.push({ name, data, crc, offset: this.offset });
+    this.push(new Uint8Array(header.buffer), name, data);
+  }
+
+  /**
+   * Finish the archive and return it as a Blob
+   */
+  toBlob(): Blob {
+    const centralStart = this.offset;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true); // Central directory signature
+      header.setUint16(4, 20, true); // Version made by
+      header.setUint16(6, 20, true); // Version needed
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, this.dosTime, true);
+      header.setUint16(14, this.dosDate, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.data.length, true);
+      header.setUint32(24, entry.data.length, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+      this.push(new Uint8Array(header.buffer), entry.name);
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true); // End of central directory signature
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.offset - centralStart, true);
+    end.setUint32(16, centralStart, true);
+    this.push(new Uint8Array(end.buffer));
+
+    return new Blob(this.chunks as BlobPart[], { type: "application/zip" });
+  }
+
+  private push(...parts: Uint8Array[]): void {
+    for (const part of parts) {
+      this.chunks.push(part);
+      this.offset += part.length;
+    }
+  }
+}
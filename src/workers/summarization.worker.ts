@@ -36,6 +36,10 @@ function buildSummaryStructure(
   
   let summary = `# Context from: ${options.parentTitle}\n\n`;
   
+  if (options.nodeSummary) {
+    summary += `## Summary\n${options.nodeSummary}\n\n`;
+  }
+  
   if (options.selectedText) {
     summary += `## Selected Text\n${options.selectedText}\n\n`;
   }
@@ -7,6 +7,7 @@ export interface SummarizationRequest {
     messageLength?: number | 'full';
     messageCount?: number;
     customPrompt?: string;
+    nodeSummary?: string;
   };
 }
 